@@ -1,6 +1,8 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { VirtualFileSystem } from '../utils/virtual-fs';
-import { Message, ToolCall, ConversationHistory, CommandExecution } from '../types';
+import { FaultInjector } from './fault-injector';
+import { CommandSandbox, SandboxOptions } from './sandbox';
+import { Message, ToolCall, ConversationHistory, CommandExecution, FaultSpec, InjectedFault } from '../types';
 
 export interface ClaudeClientConfig {
   apiKey: string;
@@ -8,28 +10,47 @@ export interface ClaudeClientConfig {
   temperature?: number;
   maxTokens?: number;
   captureThinking?: boolean;
+  baseURL?: string;           // e.g. a local mock of the Messages API
+  sandbox?: SandboxOptions;   // Run bash_execute for real in a sandbox instead of simulating it
+  // Wraps every Messages API request, e.g. to record or replay the session
+  interceptRequest?: (
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    send: () => Promise<Anthropic.Message>
+  ) => Promise<Anthropic.Message>;
 }
 
+export const DEFAULT_MODEL = 'claude-3-5-sonnet-20241022';
+export const DEFAULT_MAX_TOKENS = 4096;
+
 export class ClaudeClient {
   private client: Anthropic;
-  private config: Required<ClaudeClientConfig>;
+  private config: Required<Omit<ClaudeClientConfig, 'baseURL' | 'interceptRequest' | 'sandbox'>>;
+  private interceptRequest?: ClaudeClientConfig['interceptRequest'];
   private virtualFS: VirtualFileSystem;
+  private sandbox?: CommandSandbox;
   private commandHistory: CommandExecution[] = [];
 
   constructor(config: ClaudeClientConfig) {
     this.config = {
       apiKey: config.apiKey,
-      model: config.model || 'claude-3-5-sonnet-20241022',
+      model: config.model || DEFAULT_MODEL,
       temperature: config.temperature ?? 0.0,
-      maxTokens: config.maxTokens || 4096,
+      maxTokens: config.maxTokens || DEFAULT_MAX_TOKENS,
       captureThinking: config.captureThinking ?? true
     };
     
+    this.interceptRequest = config.interceptRequest;
+    
     this.client = new Anthropic({
-      apiKey: this.config.apiKey
+      apiKey: this.config.apiKey,
+      baseURL: config.baseURL
     });
     
     this.virtualFS = new VirtualFileSystem();
+    
+    if (config.sandbox) {
+      this.sandbox = new CommandSandbox(this.virtualFS, config.sandbox);
+    }
   }
 
   async executeWithClaudeFile(
@@ -38,14 +59,20 @@ export class ClaudeClient {
     options?: {
       timeout?: number;
       previousMessages?: Message[];
+      faults?: FaultSpec[];
     }
   ): Promise<{
     response: string;
     conversation: ConversationHistory;
-    tokensUsed: { input: number; output: number; thinking?: number };
+    tokensUsed: { input: number; output: number; thinking?: number; cacheCreation?: number; cacheRead?: number };
     duration: number;
+    timedOut: boolean;
+    injectedFaults: InjectedFault[];
   }> {
     const startTime = Date.now();
+    const deadline = options?.timeout ? startTime + options.timeout : Infinity;
+    const faultInjector = new FaultInjector(options?.faults || [], filePath => this.virtualFS.normalizePath(filePath));
+    let toolCallCount = 0;
     
     const messages: Anthropic.MessageParam[] = [
       ...(options?.previousMessages?.map(msg => ({
@@ -97,7 +124,9 @@ export class ClaudeClient {
       },
       {
         name: 'bash_execute',
-        description: 'Execute a bash command',
+        description: this.sandbox
+          ? 'Execute a bash command in the workspace directory (no network access)'
+          : 'Execute a bash command',
         input_schema: {
           type: 'object',
           properties: {
@@ -108,7 +137,7 @@ export class ClaudeClient {
       },
       {
         name: 'list_directory',
-        description: 'List files in a directory',
+        description: 'List files in a directory (subdirectories end in /)',
         input_schema: {
           type: 'object',
           properties: {
@@ -116,6 +145,44 @@ export class ClaudeClient {
           },
           required: ['path']
         }
+      },
+      {
+        name: 'glob',
+        description: 'Find files whose paths match a glob pattern such as src/**/*.ts',
+        input_schema: {
+          type: 'object',
+          properties: {
+            pattern: { type: 'string', description: 'Glob pattern' },
+            path: { type: 'string', description: 'Directory the pattern is relative to (default: the workspace)' }
+          },
+          required: ['pattern']
+        }
+      },
+      {
+        name: 'grep',
+        description: 'Search file contents with a regular expression; returns path:line:text for each match',
+        input_schema: {
+          type: 'object',
+          properties: {
+            pattern: { type: 'string', description: 'Regular expression' },
+            path: { type: 'string', description: 'File or directory to search (default: the workspace)' },
+            glob: { type: 'string', description: 'Only files matching this glob, e.g. *.ts' },
+            ignore_case: { type: 'boolean', description: 'Case-insensitive search' }
+          },
+          required: ['pattern']
+        }
+      },
+      {
+        name: 'move',
+        description: 'Move or rename a file or directory',
+        input_schema: {
+          type: 'object',
+          properties: {
+            source: { type: 'string', description: 'Path to move' },
+            destination: { type: 'string', description: 'New path, or an existing directory to move it into' }
+          },
+          required: ['source', 'destination']
+        }
       }
     ];
 
@@ -125,20 +192,37 @@ export class ClaudeClient {
     let totalInputTokens = 0;
     let totalOutputTokens = 0;
     let totalThinkingTokens = 0;
+    let totalCacheCreationTokens = 0;
+    let totalCacheReadTokens = 0;
+    let timedOut = false;
 
     while (true) {
-      const response = await this.client.messages.create({
+      // Checked between turns; a request already in flight is bounded by the time left
+      if (Date.now() >= deadline) {
+        timedOut = true;
+        finalResponse = (conversationMessages[conversationMessages.length - 1]?.content || '') + '\n[TIMEOUT]';
+        break;
+      }
+
+      const params: Anthropic.MessageCreateParamsNonStreaming = {
         model: this.config.model,
         system: claudeMdContent,
-        messages: currentMessages,
+        messages: [...currentMessages],
         max_tokens: this.config.maxTokens,
         temperature: this.config.temperature,
         tools,
         tool_choice: { type: 'auto' }
-      });
+      };
+      const send = () => this.client.messages.create(
+        params,
+        deadline === Infinity ? undefined : { timeout: Math.max(1, deadline - Date.now()) }
+      );
+      const response = this.interceptRequest ? await this.interceptRequest(params, send) : await send();
 
       totalInputTokens += response.usage?.input_tokens || 0;
       totalOutputTokens += response.usage?.output_tokens || 0;
+      totalCacheCreationTokens += response.usage?.cache_creation_input_tokens || 0;
+      totalCacheReadTokens += response.usage?.cache_read_input_tokens || 0;
 
       const assistantMessage: Message = {
         role: 'assistant',
@@ -162,7 +246,17 @@ export class ClaudeClient {
       const toolResults: Anthropic.MessageParam[] = [];
       
       for (const toolUse of toolUses) {
-        const toolCall = await this.executeToolCall(toolUse as any);
+        const toolCall = await faultInjector.execute(toolUse as any, toolCallCount++, () => this.executeToolCall(toolUse as any));
+        if (toolCall.injectedFault !== undefined && toolCall.toolName === 'bash_execute' && toolCall.result?.exitCode !== undefined) {
+          // The command never ran, but the agent did try it
+          this.commandHistory.push({
+            command: toolCall.parameters.command,
+            output: toolCall.result.output,
+            exitCode: toolCall.result.exitCode,
+            timestamp: toolCall.startedAt!,
+            durationMs: 0
+          });
+        }
         assistantMessage.toolCalls?.push(toolCall);
         
         toolResults.push({
@@ -200,9 +294,13 @@ export class ClaudeClient {
       tokensUsed: {
         input: totalInputTokens,
         output: totalOutputTokens,
-        thinking: totalThinkingTokens
+        thinking: totalThinkingTokens,
+        cacheCreation: totalCacheCreationTokens,
+        cacheRead: totalCacheReadTokens
       },
-      duration
+      duration,
+      timedOut,
+      injectedFaults: faultInjector.getInjectedFaults()
     };
   }
 
@@ -231,12 +329,33 @@ export class ClaudeClient {
           break;
         
         case 'bash_execute':
-          result = await this.executeVirtualCommand(toolUse.input.command);
+          result = this.sandbox
+            ? await this.executeSandboxedCommand(toolUse.input.command)
+            : await this.executeVirtualCommand(toolUse.input.command);
           break;
         
         case 'list_directory':
-          const files = await this.virtualFS.listDirectory(toolUse.input.path);
-          result = { files };
+          result = { files: await this.listEntries(toolUse.input.path) };
+          break;
+        
+        case 'glob':
+          result = { files: await this.virtualFS.glob(toolUse.input.pattern, toolUse.input.path) };
+          break;
+        
+        case 'grep':
+          const { matches, truncated } = await this.virtualFS.grep(toolUse.input.pattern, {
+            path: toolUse.input.path,
+            glob: toolUse.input.glob,
+            ignoreCase: toolUse.input.ignore_case
+          });
+          result = {
+            matches: matches.map(match => `${match.path}:${match.line}:${match.text}`),
+            ...(truncated ? { truncated: true } : {})
+          };
+          break;
+        
+        case 'move':
+          result = await this.virtualFS.rename(toolUse.input.source, toolUse.input.destination);
           break;
         
         default:
@@ -247,15 +366,31 @@ export class ClaudeClient {
       result = { error };
     }
 
+    // A tool that reports failure in its result failed just as much as one that threw
+    error = error ?? describeFailure(result);
+
     return {
       toolName: toolUse.name,
       parameters: toolUse.input,
       result,
       executionTimeMs: Date.now() - startTime,
+      startedAt: startTime,
       error
     };
   }
 
+  private async executeSandboxedCommand(command: string): Promise<any> {
+    const execution = await this.sandbox!.run(command);
+    this.commandHistory.push(execution);
+    
+    return {
+      stdout: execution.stdout,
+      stderr: execution.stderr,
+      exitCode: execution.exitCode,
+      ...(execution.timedOut ? { timedOut: true } : {})
+    };
+  }
+
   private async executeVirtualCommand(command: string): Promise<any> {
     const execution: CommandExecution = {
       command,
@@ -265,11 +400,41 @@ export class ClaudeClient {
       durationMs: Math.random() * 100
     };
 
+    const [name, ...args] = command.trim().split(/\s+/);
+    const flags = args.filter(arg => arg.startsWith('-'));
+    const paths = args.filter(arg => !arg.startsWith('-'));
+
     // Simulate common commands
-    if (command.startsWith('ls')) {
-      const path = command.split(' ')[1] || '/workspace';
-      const files = await this.virtualFS.listDirectory(path);
-      execution.output = files.join('\n');
+    if (name === 'ls') {
+      const path = paths[0] || this.virtualFS.getRootPath();
+      if (await this.virtualFS.isDirectory(path)) {
+        execution.output = (await this.listEntries(path)).join('\n');
+      } else {
+        execution.output = `ls: cannot access '${path}': No such file or directory`;
+        execution.exitCode = 2;
+      }
+    } else if (name === 'mkdir' && paths.length > 0) {
+      for (const path of paths) {
+        const made = await this.virtualFS.mkdir(path, { recursive: flags.some(flag => flag.includes('p')) });
+        if (!made.success) {
+          execution.output += `${execution.output ? '\n' : ''}mkdir: cannot create directory '${path}': ${made.message}`;
+          execution.exitCode = 1;
+        }
+      }
+    } else if ((name === 'mv' || name === 'cp') && paths.length === 2) {
+      const [source, destination] = paths;
+      let outcome: { success: boolean; message: string };
+      if (name === 'mv') {
+        outcome = await this.virtualFS.rename(source, destination);
+      } else if (await this.virtualFS.isDirectory(source) && !flags.some(flag => /r/i.test(flag))) {
+        outcome = { success: false, message: '-r not specified; omitting directory' };
+      } else {
+        outcome = await this.virtualFS.copy(source, destination);
+      }
+      if (!outcome.success) {
+        execution.output = `${name}: '${source}': ${outcome.message}`;
+        execution.exitCode = 1;
+      }
     } else if (command.startsWith('cat')) {
       const path = command.split(' ')[1];
       if (path) {
@@ -296,6 +461,15 @@ export class ClaudeClient {
     };
   }
 
+  // Directory entries, with subdirectories marked by a trailing slash
+  private async listEntries(dirPath: string): Promise<string[]> {
+    const entries = await this.virtualFS.listDirectory(dirPath);
+    const normalizedDir = this.virtualFS.normalizePath(dirPath);
+    return Promise.all(entries.map(async entry =>
+      await this.virtualFS.isDirectory(`${normalizedDir}/${entry}`) ? `${entry}/` : entry
+    ));
+  }
+
   getVirtualFS(): VirtualFileSystem {
     return this.virtualFS;
   }
@@ -304,8 +478,24 @@ export class ClaudeClient {
     return [...this.commandHistory];
   }
 
+  // Removes the sandbox directory, if commands ran in one
+  async dispose(): Promise<void> {
+    await this.sandbox?.dispose();
+  }
+
   reset(): void {
     this.virtualFS.reset();
     this.commandHistory = [];
   }
-}
\ No newline at end of file
+}
+
+function describeFailure(result: any): string | undefined {
+  if (!result || typeof result !== 'object') return undefined;
+  if (typeof result.error === 'string') return result.error;
+  if (result.success === false) return String(result.message ?? 'Failed');
+  if (typeof result.exitCode === 'number' && result.exitCode !== 0) {
+    const output = result.output ?? result.stderr;
+    return `Exit code ${result.exitCode}${output ? `: ${String(output).trim().slice(0, 200)}` : ''}`;
+  }
+  return undefined;
+}
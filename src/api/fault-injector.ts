@@ -0,0 +1,124 @@
+import { FaultSpec, InjectedFault, ToolCall } from '../types';
+
+const DEFAULT_MESSAGES: Record<FaultSpec['tool'], string> = {
+  file_read: 'File not found',
+  file_write: 'Permission denied',
+  file_edit: 'Old content not found in file',
+  bash_execute: 'Command failed',
+  list_directory: 'Directory not found'
+};
+
+/**
+ * Applies a test's declared faults to the tool calls of one session. Calls
+ * are counted per fault in the order they are made, so a given transcript
+ * always has the same calls fail.
+ */
+export class FaultInjector {
+  private matchCounts: number[];
+  private injected: InjectedFault[] = [];
+
+  constructor(
+    private faults: FaultSpec[],
+    private resolvePath: (filePath: string) => string = filePath => filePath
+  ) {
+    this.matchCounts = faults.map(() => 0);
+  }
+
+  /**
+   * Runs the tool call through `execute` unless a fault replaces it. Errors
+   * and exit codes are returned without executing the tool; truncation
+   * executes it and cuts the content short.
+   */
+  async execute(
+    toolUse: { name: string; input: any },
+    toolCallIndex: number,
+    execute: () => Promise<ToolCall>
+  ): Promise<ToolCall> {
+    const faultIndex = this.select(toolUse.name, toolUse.input || {});
+    if (faultIndex === undefined) {
+      return execute();
+    }
+
+    const fault = this.faults[faultIndex];
+    const startTime = Date.now();
+    let call: ToolCall;
+
+    switch (fault.effect) {
+      case 'error': {
+        const error = fault.message || DEFAULT_MESSAGES[fault.tool];
+        call = this.failedCall(toolUse, { error }, startTime, error);
+        break;
+      }
+      case 'exit-code': {
+        const exitCode = fault.exitCode ?? 1;
+        const output = fault.stderr ?? '';
+        call = this.failedCall(toolUse, { output, exitCode }, startTime, `Exit code ${exitCode}${output ? `: ${output}` : ''}`);
+        break;
+      }
+      case 'truncate': {
+        call = await execute();
+        const content = call.result?.content;
+        if (typeof content === 'string') {
+          call.result = { ...call.result, content: content.slice(0, fault.truncateTo ?? Math.floor(content.length / 2)) };
+        }
+        break;
+      }
+    }
+
+    call.injectedFault = faultIndex;
+    this.injected.push({
+      faultIndex,
+      tool: toolUse.name,
+      target: String(toolUse.input?.path ?? toolUse.input?.command ?? ''),
+      effect: fault.effect,
+      toolCallIndex,
+      timestamp: startTime
+    });
+
+    return call;
+  }
+
+  getInjectedFaults(): InjectedFault[] {
+    return [...this.injected];
+  }
+
+  // Counts the call against every fault it matches; the first fault whose window it falls in wins
+  private select(toolName: string, input: any): number | undefined {
+    let selected: number | undefined;
+
+    this.faults.forEach((fault, index) => {
+      if (!this.matches(fault, toolName, input)) return;
+
+      const count = ++this.matchCounts[index];
+      const first = fault.occurrence ?? 1;
+      if (selected === undefined && count >= first && count < first + (fault.times ?? 1)) {
+        selected = index;
+      }
+    });
+
+    return selected;
+  }
+
+  private matches(fault: FaultSpec, toolName: string, input: any): boolean {
+    if (fault.tool !== toolName) return false;
+    if (fault.path !== undefined &&
+        (typeof input.path !== 'string' || this.resolvePath(input.path) !== this.resolvePath(fault.path))) {
+      return false;
+    }
+    if (fault.command !== undefined && !String(input.command ?? '').includes(fault.command)) {
+      return false;
+    }
+    return true;
+  }
+
+  private failedCall(toolUse: { name: string; input: any }, result: any, startTime: number, error: string): ToolCall {
+    return {
+      toolName: toolUse.name,
+      parameters: toolUse.input,
+      result,
+      executionTimeMs: 0,
+      startedAt: startTime,
+      error
+    };
+  }
+}
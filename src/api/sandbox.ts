@@ -0,0 +1,275 @@
+import { spawn, spawnSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { VirtualFileSystem } from '../utils/virtual-fs';
+import { CommandExecution } from '../types';
+import { listFiles } from '../execution/fixtures';
+
+export interface SandboxOptions {
+  timeoutMs?: number;         // Wall clock per command; the process group is killed after it
+  cpuSeconds?: number;        // ulimit -t
+  memoryMb?: number;          // ulimit -d (heap and anonymous mappings)
+  fileSizeMb?: number;        // ulimit -f, the largest file a command may write
+  maxOutputBytes?: number;    // Per stream; the rest is dropped
+  allowNetwork?: boolean;     // Skip the network namespace (also where unshare is unavailable)
+  env?: Record<string, string>; // Added to the restricted environment
+}
+
+const DEFAULTS: Required<Omit<SandboxOptions, 'env'>> = {
+  timeoutMs: 30000,
+  cpuSeconds: 30,
+  memoryMb: 1024,
+  fileSizeMb: 100,
+  maxOutputBytes: 64 * 1024,
+  allowNetwork: false
+};
+
+// Build output and dependencies stay in the sandbox; they are not the agent's files
+const UNSYNCED_DIRS = new Set(['node_modules', '.git']);
+
+const TIMEOUT_EXIT_CODE = 124; // As timeout(1) reports it
+
+/**
+ * Runs bash_execute commands for real. The VFS is mirrored into a temp
+ * directory that lives for the whole session: before each command the files
+ * the agent changed through tools are written out, and afterwards whatever
+ * the command created, changed or deleted is applied back to the VFS.
+ * Files that are not valid UTF-8 (build artifacts, archives) stay on the
+ * sandbox side, since the VFS only holds text.
+ */
+export class CommandSandbox {
+  private options: Required<Omit<SandboxOptions, 'env'>> & { env: Record<string, string> };
+  private dir?: string;
+  // Contents as last written to or read from the sandbox, by VFS-root-relative path
+  private mirrored = new Map<string, string>();
+  private isolationChecked = false;
+
+  constructor(private vfs: VirtualFileSystem, options: SandboxOptions = {}) {
+    this.options = { ...DEFAULTS, ...stripUndefined(options), env: options.env || {} };
+  }
+
+  async run(command: string): Promise<CommandExecution> {
+    if (!this.options.allowNetwork && !this.isolationChecked) {
+      checkIsolation();
+      this.isolationChecked = true;
+    }
+
+    const dir = await this.prepare();
+    await this.pushFiles(dir);
+
+    const execution = await this.spawnCommand(command, dir);
+
+    await this.pullFiles(dir);
+    return execution;
+  }
+
+  async dispose(): Promise<void> {
+    if (this.dir) {
+      await fs.rm(this.dir, { recursive: true, force: true });
+      this.dir = undefined;
+      this.mirrored.clear();
+    }
+  }
+
+  private async prepare(): Promise<string> {
+    if (!this.dir) {
+      this.dir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-test-sandbox-'));
+      await fs.mkdir(path.join(this.dir, '.home'));
+      await fs.mkdir(path.join(this.dir, '.tmp'));
+    }
+    return this.dir;
+  }
+
+  private async pushFiles(dir: string): Promise<void> {
+    const current = this.vfsFiles();
+
+    for (const relativePath of this.vfsDirectories()) {
+      await fs.mkdir(path.join(dir, relativePath), { recursive: true });
+    }
+
+    for (const [relativePath, content] of current) {
+      if (this.mirrored.get(relativePath) === content) continue;
+      const target = path.join(dir, relativePath);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, content);
+      this.mirrored.set(relativePath, content);
+    }
+
+    for (const relativePath of [...this.mirrored.keys()]) {
+      if (!current.has(relativePath)) {
+        await fs.rm(path.join(dir, relativePath), { force: true });
+        this.mirrored.delete(relativePath);
+      }
+    }
+  }
+
+  private async pullFiles(dir: string): Promise<void> {
+    const present = new Set<string>();
+
+    for (const file of await listFiles(dir)) {
+      const relativePath = path.relative(dir, file).split(path.sep).join('/');
+      const topLevel = relativePath.split('/')[0];
+      if (UNSYNCED_DIRS.has(topLevel) || topLevel === '.home' || topLevel === '.tmp') continue;
+
+      const buffer = await fs.readFile(file);
+      const content = buffer.toString('utf-8');
+      if (!Buffer.from(content, 'utf-8').equals(buffer)) continue;
+
+      present.add(relativePath);
+      if (this.mirrored.get(relativePath) !== content) {
+        this.vfs.seed(relativePath, content);
+        this.mirrored.set(relativePath, content);
+      }
+    }
+
+    for (const relativePath of [...this.mirrored.keys()]) {
+      if (!present.has(relativePath)) {
+        this.vfs.discard(relativePath);
+        this.mirrored.delete(relativePath);
+      }
+    }
+  }
+
+  // Text files under the VFS root; anything the agent wrote outside it has nowhere to go
+  private vfsFiles(): Map<string, string> {
+    const files = new Map<string, string>();
+
+    for (const file of this.vfs.snapshot().values()) {
+      const relativePath = this.relativeToRoot(file.path);
+      if (relativePath !== undefined) files.set(relativePath, file.content);
+    }
+
+    return files;
+  }
+
+  private vfsDirectories(): string[] {
+    return this.vfs.snapshotDirectories()
+      .map(dir => this.relativeToRoot(dir))
+      .filter((relativePath): relativePath is string => !!relativePath);
+  }
+
+  private relativeToRoot(vfsPath: string): string | undefined {
+    const relativePath = path.posix.relative(this.vfs.getRootPath(), vfsPath);
+    return relativePath.startsWith('..') || path.posix.isAbsolute(relativePath) ? undefined : relativePath;
+  }
+
+  private spawnCommand(command: string, dir: string): Promise<CommandExecution> {
+    const { timeoutMs, cpuSeconds, memoryMb, fileSizeMb, maxOutputBytes, allowNetwork } = this.options;
+
+    // Hard limits, set before the command runs, so it cannot raise them again
+    const script = [
+      `ulimit -t ${cpuSeconds}`,
+      `ulimit -d ${memoryMb * 1024}`,
+      `ulimit -f ${fileSizeMb * 1024}`,
+      command
+    ].join('\n');
+    const [file, args] = allowNetwork
+      ? ['bash', ['-c', script]]
+      : ['unshare', ['--map-root-user', '--net', 'bash', '-c', script]];
+
+    return new Promise((resolve) => {
+      const startTime = Date.now();
+      const stdout = new OutputBuffer(maxOutputBytes);
+      const stderr = new OutputBuffer(maxOutputBytes);
+      let timedOut = false;
+
+      const child = spawn(file, args, {
+        cwd: dir,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: true, // Own process group, so the timeout takes its children down too
+        env: {
+          PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+          HOME: path.join(dir, '.home'),
+          TMPDIR: path.join(dir, '.tmp'),
+          LANG: 'C.UTF-8',
+          TERM: 'dumb',
+          CI: 'true',
+          ...this.options.env
+        }
+      });
+
+      child.stdout?.on('data', (data: Buffer) => stdout.push(data));
+      child.stderr?.on('data', (data: Buffer) => stderr.push(data));
+
+      const timeoutId = setTimeout(() => {
+        timedOut = true;
+        killGroup(child.pid);
+      }, timeoutMs);
+
+      const finish = (exitCode: number, error?: string) => {
+        clearTimeout(timeoutId);
+        let errorText = stderr.text();
+        if (error) errorText += `${error}\n`;
+        if (timedOut) errorText += `Command timed out after ${timeoutMs}ms\n`;
+        resolve({
+          command,
+          output: `${stdout.text()}${errorText}`.trim(),
+          stdout: stdout.text(),
+          stderr: errorText,
+          exitCode: timedOut ? TIMEOUT_EXIT_CODE : exitCode,
+          timestamp: startTime,
+          durationMs: Date.now() - startTime,
+          timedOut: timedOut || undefined,
+          truncated: stdout.truncated || stderr.truncated || undefined
+        });
+      };
+
+      child.on('close', (code, signal) => {
+        // Killed by a signal (e.g. SIGXCPU past the CPU limit) reads as 128 + signal, as in a shell
+        finish(code ?? 128 + (signal ? os.constants.signals[signal] : 0));
+      });
+
+      child.on('error', (error) => {
+        finish(127, error.message);
+      });
+    });
+  }
+}
+
+class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  truncated = false;
+
+  constructor(private limit: number) {}
+
+  push(data: Buffer) {
+    const room = this.limit - this.size;
+    if (room <= 0) {
+      this.truncated = true;
+      return;
+    }
+    if (data.length > room) this.truncated = true;
+    const chunk = data.subarray(0, room);
+    this.chunks.push(chunk);
+    this.size += chunk.length;
+  }
+
+  text(): string {
+    const text = Buffer.concat(this.chunks).toString('utf-8');
+    return this.truncated ? `${text}\n[output truncated at ${this.limit} bytes]\n` : text;
+  }
+}
+
+// Network isolation relies on unprivileged user namespaces; refuse to run without it
+function checkIsolation(): void {
+  const probe = spawnSync('unshare', ['--map-root-user', '--net', 'true'], { encoding: 'utf-8' });
+  if (probe.error || probe.status !== 0) {
+    const reason = probe.error?.message || probe.stderr.trim() || `exit code ${probe.status}`;
+    throw new Error(`Sandbox cannot isolate the network (${reason}); allow network access to run commands without it`);
+  }
+}
+
+function killGroup(pid: number | undefined) {
+  if (pid === undefined) return;
+  try {
+    process.kill(-pid, 'SIGKILL');
+  } catch {
+    // Already exited
+  }
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
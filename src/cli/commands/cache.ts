@@ -0,0 +1,102 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { TestDatabase } from '../../storage/database';
+
+export interface CacheStatsCommandArgs {
+  verbose?: boolean;
+}
+
+export interface CachePruneCommandArgs {
+  'unused-for'?: number;
+  'claude-file'?: string;
+  all?: boolean;
+  verbose?: boolean;
+}
+
+export async function cacheStatsCommand(_args: CacheStatsCommandArgs) {
+  try {
+    const db = new TestDatabase();
+    const stats = await db.getRecordedSessionStats();
+    db.close();
+
+    if (stats.length === 0) {
+      console.log(chalk.yellow('No recorded sessions.'));
+      console.log('Run: claude-test run --claude-file <name> --record');
+      return;
+    }
+
+    console.log(chalk.bold('Recorded Sessions:'));
+    console.log();
+
+    const table = new Table({
+      head: ['CLAUDE.md', 'Backend', 'Sessions', 'Size', 'Replays', 'Last Used'],
+      colWidths: [24, 9, 10, 10, 9, 22]
+    });
+
+    stats.forEach(entry => {
+      table.push([
+        entry.claudeFileName || entry.claudeMdHash.slice(0, 8) + '...',
+        entry.backend,
+        entry.sessions.toString(),
+        formatBytes(entry.sizeBytes),
+        entry.replays.toString(),
+        entry.lastUsedAt.toLocaleString()
+      ]);
+    });
+
+    console.log(table.toString());
+
+    const totalSessions = stats.reduce((sum, entry) => sum + entry.sessions, 0);
+    const totalBytes = stats.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+    console.log(chalk.gray(`Total: ${totalSessions} session(s), ${formatBytes(totalBytes)}`));
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+export async function cachePruneCommand(args: CachePruneCommandArgs) {
+  const { 'unused-for': unusedForDays, 'claude-file': claudeFileName, all } = args;
+
+  try {
+    if (unusedForDays === undefined && !claudeFileName && !all) {
+      throw new Error('Specify what to prune: --unused-for <days>, --claude-file <name|id> or --all');
+    }
+    if (all && (unusedForDays !== undefined || claudeFileName)) {
+      throw new Error('--all cannot be combined with other filters');
+    }
+    if (unusedForDays !== undefined && (!Number.isFinite(unusedForDays) || unusedForDays < 0)) {
+      throw new Error('--unused-for must be a number of days');
+    }
+
+    const db = new TestDatabase();
+
+    let claudeMdHash: string | undefined;
+    if (claudeFileName) {
+      const claudeFile = /^\d+$/.test(claudeFileName)
+        ? await db.getClaudeFile(parseInt(claudeFileName))
+        : await db.getClaudeFileByName(claudeFileName);
+      if (!claudeFile) {
+        db.close();
+        throw new Error(`CLAUDE.md file not found: ${claudeFileName}`);
+      }
+      claudeMdHash = claudeFile.hash;
+    }
+
+    const removed = await db.pruneRecordedSessions({ unusedForDays, claudeMdHash });
+    db.close();
+
+    console.log(chalk.green('✓'), `Removed ${removed} recorded session(s)`);
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
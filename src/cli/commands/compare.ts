@@ -1,16 +1,25 @@
 import chalk from 'chalk';
 import { TestDatabase } from '../../storage/database';
 import Table from 'cli-table3';
+import { ClaudeFile } from '../../types';
+import { compareResultSets, ResultSetComparison } from '../../utils/comparison';
+import { PairedComparison } from '../../utils/statistics';
 
 export interface CompareCommandArgs {
   files: string[];
+  alpha?: number;
+  scores?: string;
   verbose?: boolean;
 }
 
 export async function compareCommand(args: CompareCommandArgs) {
-  const { files, verbose } = args;
+  const { files, alpha = 0.05, scores, verbose } = args;
   
   try {
+    if (!(alpha > 0 && alpha < 1)) {
+      throw new Error(`Invalid --alpha: ${alpha}. Use a significance level between 0 and 1, e.g. 0.05`);
+    }
+    
     const db = new TestDatabase();
     
     // Resolve file names/IDs to actual files
@@ -34,7 +43,7 @@ export async function compareCommand(args: CompareCommandArgs) {
     
     // Get comparison data from database
     const fileIds = claudeFiles.map(f => f.id!);
-    const comparisonData = await db.compareClaudeFiles(fileIds);
+    const comparisonData = await db.compareClaudeFiles(fileIds, scores);
     
     if (comparisonData.length === 0) {
       console.log(chalk.yellow('No test results found for these files.'));
@@ -53,8 +62,8 @@ export async function compareCommand(args: CompareCommandArgs) {
     
     // Display comparison table
     const table = new Table({
-      head: ['File', 'Correctness', 'Speed', 'Token Eff.', 'Code Quality', 'Avg Tokens', 'Avg Time (ms)'],
-      colWidths: [15, 12, 8, 12, 12, 12, 15]
+      head: ['File', 'Correctness', 'Speed', 'Token Eff.', 'Code Quality', 'Avg Tokens', 'Avg Cost', 'Avg Time (ms)'],
+      colWidths: [15, 12, 8, 12, 12, 12, 10, 15]
     });
     
     claudeFiles.forEach(file => {
@@ -67,6 +76,7 @@ export async function compareCommand(args: CompareCommandArgs) {
           chalk.gray('N/A'),
           chalk.gray('N/A'),
           chalk.gray('N/A'),
+          chalk.gray('N/A'),
           chalk.gray('N/A')
         ]);
       } else {
@@ -77,6 +87,11 @@ export async function compareCommand(args: CompareCommandArgs) {
         const avgQuality = (fileData.reduce((sum, d) => sum + (d.avg_code_quality || 0), 0) / fileData.length).toFixed(1);
         const avgTokens = Math.round(fileData.reduce((sum, d) => sum + (d.avg_tokens_used || 0), 0) / fileData.length);
         const avgTime = Math.round(fileData.reduce((sum, d) => sum + (d.avg_response_time || 0), 0) / fileData.length);
+        // Runs recorded before cost was captured have no cost to average
+        const costedRuns = fileData.filter(d => d.avg_cost_usd !== null);
+        const avgCost = costedRuns.length > 0
+          ? costedRuns.reduce((sum, d) => sum + d.avg_cost_usd, 0) / costedRuns.length
+          : null;
         
         table.push([
           file.name,
@@ -85,6 +100,7 @@ export async function compareCommand(args: CompareCommandArgs) {
           colorScore(parseFloat(avgTokenEff)),
           colorScore(parseFloat(avgQuality)),
           avgTokens.toLocaleString(),
+          avgCost !== null ? `$${avgCost.toFixed(4)}` : chalk.gray('N/A'),
           avgTime.toLocaleString()
         ]);
       }
@@ -108,13 +124,22 @@ export async function compareCommand(args: CompareCommandArgs) {
       });
     }
     
-    // Show recommendations
-    const bestFile = findBestFile(groupedData, claudeFiles);
-    if (bestFile) {
-      console.log(chalk.bold.green('Recommendation:'));
-      console.log(`The "${bestFile.name}" configuration shows the best overall performance.`);
+    // Paired significance tests against the first file as baseline
+    const [baseline, ...candidates] = claudeFiles;
+    const baselineResults = await db.getResultsForClaudeFile(baseline.id!, scores);
+    const comparisons = new Map<number, ResultSetComparison>();
+    
+    for (const candidate of candidates) {
+      const candidateResults = await db.getResultsForClaudeFile(candidate.id!, scores);
+      // The interval is drawn at the same level the test is run at
+      const comparison = compareResultSets(baselineResults, candidateResults, { alpha, confidence: 1 - alpha });
+      comparisons.set(candidate.id!, comparison);
+      displayComparison(baseline, candidate, comparison, alpha, verbose);
     }
     
+    // Show recommendations
+    displayRecommendation(baseline, candidates, comparisons, alpha);
+    
     db.close();
     
   } catch (error) {
@@ -133,28 +158,118 @@ function colorScore(score: number): string {
   return chalk.red(`${score}/10`);
 }
 
-function findBestFile(groupedData: Map<number, any[]>, claudeFiles: any[]): any {
-  let bestFile = null;
-  let bestScore = -1;
+function displayComparison(
+  baseline: ClaudeFile,
+  candidate: ClaudeFile,
+  comparison: ResultSetComparison,
+  alpha: number,
+  verbose?: boolean
+) {
+  console.log(chalk.bold(`${candidate.name} vs ${baseline.name} (baseline)`));
   
-  claudeFiles.forEach(file => {
-    const fileData = groupedData.get(file.id!) || [];
-    if (fileData.length === 0) return;
-    
-    // Calculate overall score
-    const avgCorrectness = fileData.reduce((sum, d) => sum + (d.avg_correctness || 0), 0) / fileData.length;
-    const avgSpeed = fileData.reduce((sum, d) => sum + (d.avg_speed || 0), 0) / fileData.length;
-    const avgTokenEff = fileData.reduce((sum, d) => sum + (d.avg_token_efficiency || 0), 0) / fileData.length;
-    const avgQuality = fileData.reduce((sum, d) => sum + (d.avg_code_quality || 0), 0) / fileData.length;
-    
-    // Weighted overall score (correctness is most important)
-    const overallScore = (avgCorrectness * 0.4) + (avgSpeed * 0.2) + (avgTokenEff * 0.2) + (avgQuality * 0.2);
-    
-    if (overallScore > bestScore) {
-      bestScore = overallScore;
-      bestFile = file;
-    }
+  if (comparison.pairedTests.length === 0) {
+    console.log(chalk.yellow('  No tests in common; nothing to pair.'));
+    console.log();
+    return;
+  }
+  
+  console.log(chalk.gray(`  Paired on ${comparison.pairedTests.length} test(s)`));
+  if (comparison.unpairedTests.length > 0) {
+    console.log(chalk.gray(`  Not run by both: ${comparison.unpairedTests.join(', ')}`));
+  }
+  
+  const table = new Table({
+    head: ['Metric', 'Baseline', 'Candidate', 'Δ', `${formatConfidence(1 - alpha)} CI`, 'p', 'Verdict'],
+    colWidths: [22, 10, 11, 10, 24, 8, 14]
+  });
+  
+  Object.entries(comparison.metrics).forEach(([metric, result]) => {
+    if (!verbose && result.verdict === 'inconclusive' && metric !== 'overall') return;
+    table.push([
+      metric,
+      formatValue(metric, result.baselineMean),
+      formatValue(metric, result.candidateMean),
+      formatDelta(metric, result.meanDelta),
+      `[${formatDelta(metric, result.confidenceInterval[0])}, ${formatDelta(metric, result.confidenceInterval[1])}]`,
+      formatPValue(result.pValue),
+      colorVerdict(result)
+    ]);
   });
   
-  return bestFile;
-}
\ No newline at end of file
+  console.log(table.toString());
+  if (!verbose) {
+    console.log(chalk.gray('  Inconclusive metrics hidden; use --verbose to show all.'));
+  }
+  console.log();
+}
+
+function displayRecommendation(
+  baseline: ClaudeFile,
+  candidates: ClaudeFile[],
+  comparisons: Map<number, ResultSetComparison>,
+  alpha: number
+) {
+  if (candidates.length === 0) return;
+  
+  // A candidate is only recommended when it beats the baseline overall and
+  // does not significantly regress correctness
+  const winners = candidates
+    .map(file => ({ file, comparison: comparisons.get(file.id!)! }))
+    .filter(({ comparison }) =>
+      comparison.metrics.overall.verdict === 'significant' &&
+      comparison.metrics.correctness.verdict !== 'regression'
+    )
+    .sort((a, b) => b.comparison.metrics.overall.meanDelta - a.comparison.metrics.overall.meanDelta);
+  
+  const baselineWins = candidates.every(file =>
+    comparisons.get(file.id!)!.metrics.overall.verdict === 'regression'
+  );
+  
+  console.log(chalk.bold('Recommendation:'));
+  if (winners.length > 0) {
+    const best = winners[0];
+    const overall = best.comparison.metrics.overall;
+    console.log(chalk.green(`The "${best.file.name}" configuration performs significantly better than "${baseline.name}" ` +
+      `(overall ${formatDelta('overall', overall.meanDelta)}, p=${formatPValue(overall.pValue)}).`));
+    if (winners.length > 1) {
+      console.log(chalk.gray(`Also significantly better: ${winners.slice(1).map(w => w.file.name).join(', ')}. ` +
+        'Compare them directly to choose between them.'));
+    }
+  } else if (baselineWins) {
+    console.log(chalk.green(`Keep "${baseline.name}": every other configuration is a significant regression.`));
+  } else {
+    console.log(chalk.yellow(`No configuration differs significantly from "${baseline.name}" at α=${alpha}.`));
+    console.log(chalk.gray('Collect more data with more trials (run --repeat N) before choosing.'));
+  }
+}
+
+function formatValue(metric: string, value: number): string {
+  if (metric === 'costUsd') return `$${value.toFixed(4)}`;
+  if (metric === 'tokens' || metric === 'responseTimeMs') return Math.round(value).toLocaleString();
+  return value.toFixed(2);
+}
+
+function formatDelta(metric: string, value: number): string {
+  const sign = value > 0 ? '+' : '';
+  return sign + formatValue(metric, value).replace('$-', '-$');
+}
+
+// 0.95 -> '95%', 0.995 -> '99.5%'
+function formatConfidence(level: number): string {
+  return `${parseFloat((level * 100).toFixed(1))}%`;
+}
+
+function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? '<0.001' : pValue.toFixed(3);
+}
+
+function colorVerdict(result: PairedComparison): string {
+  switch (result.verdict) {
+    case 'significant':
+      return chalk.green('significant');
+    case 'regression':
+      return chalk.red('regression');
+    default:
+      return chalk.gray('inconclusive');
+  }
+}
@@ -0,0 +1,71 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { TestDatabase } from '../../storage/database';
+
+export interface DbCommandArgs {
+  verbose?: boolean;
+}
+
+export async function dbStatusCommand(_args: DbCommandArgs) {
+  try {
+    const db = new TestDatabase(undefined, { migrate: false });
+    const status = db.getSchemaStatus();
+    db.close();
+
+    console.log(chalk.bold('Database Schema:'));
+    console.log(chalk.gray(`Path: ${db.getPath()}`));
+    console.log(chalk.gray(`Version: ${status.current} (latest ${status.latest})`));
+    console.log();
+
+    const table = new Table({
+      head: ['Version', 'Migration', 'Applied'],
+      colWidths: [9, 48, 24]
+    });
+
+    status.applied.forEach(migration => {
+      table.push([migration.version, migration.name, migration.appliedAt.toLocaleString()]);
+    });
+    status.pending.forEach(migration => {
+      table.push([
+        migration.version,
+        migration.name,
+        migration.destructive ? chalk.yellow('pending, backs up') : chalk.yellow('pending')
+      ]);
+    });
+
+    console.log(table.toString());
+
+    if (status.current > status.latest) {
+      console.log(chalk.red('This database was written by a newer claude-test; upgrade before using it.'));
+    } else if (status.pending.length > 0) {
+      console.log(chalk.gray(`${status.pending.length} pending migration(s); run: claude-test db migrate`));
+    }
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+export async function dbMigrateCommand(_args: DbCommandArgs) {
+  try {
+    // Opening applies whatever is pending (and reports any backup it made)
+    const db = new TestDatabase();
+    const report = db.getMigrationReport()!;
+    db.close();
+
+    if (report.applied.length === 0) {
+      console.log(chalk.green('✓'), `Already at the latest schema version (${report.to})`);
+      return;
+    }
+
+    report.applied.forEach(migration => {
+      console.log(chalk.gray(`  ${migration.version}. ${migration.name}`));
+    });
+    console.log(chalk.green('✓'), `Migrated schema from version ${report.from} to ${report.to}`);
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
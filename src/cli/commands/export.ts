@@ -2,6 +2,11 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import chalk from 'chalk';
 import { TestDatabase } from '../../storage/database';
+import { describeAssertion } from '../../execution/assertions';
+import { summarizeRuleCompliance } from '../../evaluators/instruction-adherence-evaluator';
+import { summarizeWorkspaceDiff } from '../../execution/workspace-diff';
+import { hasScore } from '../../utils/comparison';
+import { MetricScores } from '../../types';
 
 export interface ExportCommandArgs {
   'run-id'?: number;
@@ -9,11 +14,13 @@ export interface ExportCommandArgs {
   latest?: boolean;
   format: 'json' | 'markdown' | 'html';
   output?: string;
+  scores?: string;
+  diff?: boolean;
   verbose?: boolean;
 }
 
 export async function exportCommand(args: ExportCommandArgs) {
-  const { 'run-id': runId, 'claude-file': claudeFileName, latest, format, output, verbose } = args;
+  const { 'run-id': runId, 'claude-file': claudeFileName, latest, format, output, scores, diff, verbose } = args;
   
   try {
     const db = new TestDatabase();
@@ -59,13 +66,21 @@ export async function exportCommand(args: ExportCommandArgs) {
     // Process each test run
     for (const testRun of testRuns) {
       const claudeFile = await db.getClaudeFile(testRun.claudeFileId);
-      const results = await db.getTestResults(testRun.id);
+      const results = await db.getTestResults(testRun.id, scores);
       
       if (!claudeFile) {
         console.warn(`Claude file not found for run ${testRun.id}`);
         continue;
       }
       
+      // Reports list changed files; the patches themselves only with --diff
+      for (const result of results) {
+        const workspaceDiff = await db.getWorkspaceDiff(result.id!);
+        if (workspaceDiff) {
+          result.workspaceDiff = diff ? workspaceDiff : { files: workspaceDiff.files, patch: '' };
+        }
+      }
+      
       const exportData = {
         testRun,
         claudeFile: {
@@ -129,15 +144,21 @@ function calculateSummary(results: any[]) {
   const avgScores: any = {};
   const metricNames = Object.keys(results[0]?.scores || {});
   
+  // Scores whose evaluation failed or assessed nothing are left out
   metricNames.forEach(metric => {
-    const values = results.map(r => r.scores[metric]);
-    avgScores[metric] = values.reduce((sum, val) => sum + val, 0) / values.length;
+    const values = results.filter(r => hasScore(r, metric as keyof MetricScores)).map(r => r.scores[metric]);
+    if (values.length > 0) {
+      avgScores[metric] = values.reduce((sum, val) => sum + val, 0) / values.length;
+    }
   });
   
   const totalTokens = results.reduce((sum, r) => 
-    sum + r.tokensInput + r.tokensOutput + (r.tokensThinking || 0), 0
+    sum + r.tokensInput + r.tokensOutput + (r.tokensThinking || 0) +
+      (r.tokensCacheCreation || 0) + (r.tokensCacheRead || 0), 0
   );
   
+  const totalCost = results.reduce((sum, r) => sum + (r.costUsd || 0), 0);
+  
   const totalTime = results.reduce((sum, r) => sum + r.responseTimeMs, 0);
   
   return {
@@ -147,6 +168,7 @@ function calculateSummary(results: any[]) {
     successRate: totalTests > 0 ? passedTests / totalTests : 0,
     averageScores: avgScores,
     totalTokensUsed: totalTokens,
+    totalCostUsd: totalCost,
     totalTimeMs: totalTime
   };
 }
@@ -171,6 +193,7 @@ function generateMarkdownReport(data: any): string {
   md += `- **Failed:** ${summary.failedTests}\n`;
   md += `- **Success Rate:** ${(summary.successRate * 100).toFixed(1)}%\n`;
   md += `- **Total Tokens:** ${summary.totalTokensUsed.toLocaleString()}\n`;
+  md += `- **Total Cost:** $${summary.totalCostUsd.toFixed(4)}\n`;
   md += `- **Total Time:** ${Math.round(summary.totalTimeMs / 1000)}s\n\n`;
   
   md += `## Average Scores\n\n`;
@@ -187,16 +210,69 @@ function generateMarkdownReport(data: any): string {
     md += `| ${result.testId} | ${result.scores.correctness}/10 | ${result.scores.speed}/10 | ${result.scores.tokenEfficiency}/10 | ${result.scores.codeQuality}/10 | ${overall}/10 |\n`;
   });
   
+  const compliance = summarizeRuleCompliance(results);
+  if (compliance.length > 0) {
+    md += `\n## CLAUDE.md Compliance\n\n`;
+    md += `| Line | Rule | Followed | Violated | N/A | Not assessed |\n`;
+    md += `|------|------|----------|----------|-----|--------------|\n`;
+    compliance.forEach(rule => {
+      md += `| ${rule.line} | ${rule.rule.replace(/\|/g, '\\|')} | ${rule.followed} | ${rule.violated} | ${rule.notApplicable} | ${rule.unknown} |\n`;
+    });
+  }
+  
   md += `\n## Test Details\n\n`;
   results.forEach((result: any) => {
     md += `### ${result.testId}\n\n`;
     md += `**Prompt:** ${result.prompt}\n\n`;
     md += `**Response Time:** ${result.responseTimeMs}ms\n`;
-    md += `**Tokens:** ${result.tokensInput} in, ${result.tokensOutput} out\n\n`;
+    md += `**Tokens:** ${result.tokensInput} in, ${result.tokensOutput} out, ${result.tokensCacheCreation || 0} cache write, ${result.tokensCacheRead || 0} cache read\n`;
+    md += `**Cost:** ${result.costUsd !== undefined ? `$${result.costUsd.toFixed(4)}` : 'N/A'}\n`;
+    if (result.fixtureHash) {
+      md += `**Fixture:** \`${result.fixtureHash.slice(0, 12)}\`\n`;
+    }
+    md += `\n`;
+    if (result.assertionResults?.length) {
+      md += `**Assertions:**\n`;
+      result.assertionResults.forEach((assertion: any) => {
+        md += `- ${assertion.passed ? '✓' : '✗'} ${describeAssertion(assertion.assertion)}\n`;
+      });
+      md += `\n`;
+    }
+    if (result.metricsRaw?.injectedFaults?.length) {
+      const episodes = result.evaluations?.errorRecovery?.details?.episodes || [];
+      md += `**Injected Faults:**\n`;
+      result.metricsRaw.injectedFaults.forEach((fault: any) => {
+        const episode = episodes.find((e: any) => e.failedCalls?.includes(fault.toolCallIndex));
+        const outcome = fault.effect === 'truncate' ? '' : episode?.recovered ? ' — recovered' : ' — not recovered';
+        md += `- ${fault.tool} ${fault.target} (${fault.effect})${outcome}\n`;
+      });
+      md += `\n`;
+    }
+    if (result.workspaceDiff) {
+      md += `**Workspace Changes:**\n`;
+      const lines = summarizeWorkspaceDiff(result.workspaceDiff);
+      md += lines.length > 0 ? `\`\`\`\n${lines.join('\n')}\n\`\`\`\n` : `No changes.\n`;
+      if (result.workspaceDiff.patch) {
+        md += `\n<details><summary>Patch</summary>\n\n\`\`\`diff\n${result.workspaceDiff.patch}\`\`\`\n\n</details>\n`;
+      }
+      md += `\n`;
+    }
     md += `**Response:**\n\`\`\`\n${result.response.slice(0, 500)}${result.response.length > 500 ? '...' : ''}\n\`\`\`\n\n`;
     md += `**Scores:**\n`;
     Object.entries(result.scores).forEach(([metric, score]: [string, any]) => {
-      md += `- ${metric}: ${score}/10\n`;
+      const evaluation = result.evaluations?.[metric];
+      if (evaluation?.status === 'error') {
+        md += `- ${metric}: evaluation error (${evaluation.error})\n`;
+        return;
+      }
+      if (evaluation?.status === 'not_assessed') {
+        md += `- ${metric}: not assessed${evaluation.rationale ? ` — ${evaluation.rationale}` : ''}\n`;
+        return;
+      }
+      md += `- ${metric}: ${score}/10${evaluation?.rationale ? ` — ${evaluation.rationale}` : ''}\n`;
+      evaluation?.evidence?.forEach((item: string) => {
+        md += `  - ${item}\n`;
+      });
     });
     md += `\n`;
   });
@@ -227,6 +303,10 @@ function generateHtmlReport(data: any): string {
         th, td { padding: 12px; text-align: left; border-bottom: 1px solid #ddd; }
         th { background-color: #f8f9fa; }
         .test-detail { background: #f8f9fa; padding: 15px; margin: 15px 0; border-radius: 8px; }
+        .patch { background: #fff; border: 1px solid #ddd; padding: 10px; border-radius: 4px; font-family: monospace; font-size: 13px; white-space: pre; overflow-x: auto; }
+        .patch .add { color: #28a745; }
+        .patch .del { color: #dc3545; }
+        .patch .hunk { color: #6f42c1; }
         .response { background: #fff; border: 1px solid #ddd; padding: 10px; border-radius: 4px; font-family: monospace; font-size: 14px; max-height: 200px; overflow-y: auto; }
     </style>
 </head>
@@ -256,6 +336,10 @@ function generateHtmlReport(data: any): string {
             <div class="score">${summary.totalTokensUsed.toLocaleString()}</div>
             <div>Total Tokens</div>
         </div>
+        <div class="metric-card">
+            <div class="score">$${summary.totalCostUsd.toFixed(4)}</div>
+            <div>Total Cost</div>
+        </div>
     </div>
     
     <h2>Average Scores</h2>
@@ -302,9 +386,10 @@ function generateHtmlReport(data: any): string {
     <div class="test-detail">
         <h3>${result.testId}</h3>
         <p><strong>Prompt:</strong> ${result.prompt}</p>
-        <p><strong>Response Time:</strong> ${result.responseTimeMs}ms | <strong>Tokens:</strong> ${result.tokensInput} in, ${result.tokensOutput} out</p>
+        <p><strong>Response Time:</strong> ${result.responseTimeMs}ms | <strong>Tokens:</strong> ${result.tokensInput} in, ${result.tokensOutput} out, ${result.tokensCacheCreation || 0} cache write, ${result.tokensCacheRead || 0} cache read | <strong>Cost:</strong> ${result.costUsd !== undefined ? `$${result.costUsd.toFixed(4)}` : 'N/A'}</p>
         <p><strong>Response:</strong></p>
         <div class="response">${result.response.slice(0, 1000)}${result.response.length > 1000 ? '...' : ''}</div>
+        ${result.workspaceDiff ? renderWorkspaceDiffHtml(result.workspaceDiff) : ''}
     </div>
     `).join('')}
     
@@ -313,4 +398,28 @@ function generateHtmlReport(data: any): string {
     </footer>
 </body>
 </html>`;
-}
\ No newline at end of file
+}
+
+function renderWorkspaceDiffHtml(workspaceDiff: any): string {
+  const lines = summarizeWorkspaceDiff(workspaceDiff);
+  let html = `<p><strong>Workspace Changes:</strong> ${lines.length === 0 ? 'none' : ''}</p>`;
+  if (lines.length > 0) {
+    html += `<div class="patch">${escapeHtml(lines.join('\n'))}</div>`;
+  }
+  if (workspaceDiff.patch) {
+    const patch = workspaceDiff.patch.replace(/\n$/, '').split('\n').map((line: string) => {
+      const escaped = escapeHtml(line);
+      if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff --git')) return `<strong>${escaped}</strong>`;
+      if (line.startsWith('@@')) return `<span class="hunk">${escaped}</span>`;
+      if (line.startsWith('+')) return `<span class="add">${escaped}</span>`;
+      if (line.startsWith('-')) return `<span class="del">${escaped}</span>`;
+      return escaped;
+    }).join('\n');
+    html += `<details><summary>Patch</summary><div class="patch">${patch}</div></details>`;
+  }
+  return html;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
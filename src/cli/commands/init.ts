@@ -177,7 +177,7 @@ async function createTestSuites(db: TestDatabase) {
   
   const advancedTestSuite: TestSuite = {
     id: 'advanced',
-    version: '1.0.0',
+    version: '1.1.0',
     name: 'Advanced Testing Suite',
     description: 'Complex scenarios for experienced configurations',
     tests: [
@@ -190,28 +190,139 @@ async function createTestSuites(db: TestDatabase) {
       },
       {
         id: 'performance-optimization',
-        prompt: 'Optimize this slow function that processes large arrays. Find and fix performance bottlenecks.',
+        prompt: 'Optimize the slow function in src/process-orders.ts that processes large arrays. Find and fix performance bottlenecks.',
         category: 'optimization',
         expectedBehavior: 'Identify performance issues and provide optimized solution',
-        timeout: 60000
+        timeout: 60000,
+        fixtures: {
+          files: {
+            'src/process-orders.ts': PROCESS_ORDERS_FIXTURE
+          }
+        }
       },
       {
         id: 'security-review',
-        prompt: 'Review this authentication code for security vulnerabilities and suggest fixes.',
+        prompt: 'Review the authentication code in src/auth.ts for security vulnerabilities and fix them.',
         category: 'security',
         expectedBehavior: 'Identify security issues and provide secure alternatives',
-        timeout: 90000
+        timeout: 90000,
+        fixtures: {
+          files: {
+            'src/auth.ts': AUTH_FIXTURE
+          }
+        }
       },
       {
         id: 'complex-refactor',
-        prompt: 'Refactor this monolithic function into smaller, testable components while maintaining functionality.',
+        prompt: 'Refactor the monolithic function in src/report.ts into smaller, testable components while maintaining functionality.',
         category: 'refactoring',
         expectedBehavior: 'Break down complex code while preserving behavior',
-        timeout: 120000
+        timeout: 120000,
+        fixtures: {
+          files: {
+            'src/report.ts': REPORT_FIXTURE
+          }
+        }
       }
     ]
   };
   
   await db.saveTestSuite(basicTestSuite);
   await db.saveTestSuite(advancedTestSuite);
-}
\ No newline at end of file
+}
+
+// Starting code for the advanced suite, so its prompts have something to work on
+const PROCESS_ORDERS_FIXTURE = `export interface Order {
+  id: number;
+  customerId: number;
+  total: number;
+  items: string[];
+}
+
+export function processOrders(orders: Order[], vipCustomerIds: number[]): Record<number, number> {
+  const totals: Record<number, number> = {};
+  for (let i = 0; i < orders.length; i++) {
+    const order = orders[i];
+    // Linear scan of the VIP list for every order
+    if (vipCustomerIds.indexOf(order.customerId) !== -1) {
+      // Re-sorts and copies the whole array on every iteration
+      const sorted = orders.slice().sort((a, b) => b.total - a.total);
+      const rank = sorted.findIndex(o => o.id === order.id);
+      const bonus = rank < 10 ? 0.1 : 0;
+      const existing = Object.keys(totals).map(Number).filter(id => id === order.customerId);
+      if (existing.length > 0) {
+        totals[order.customerId] = totals[order.customerId] + order.total * (1 + bonus);
+      } else {
+        totals[order.customerId] = order.total * (1 + bonus);
+      }
+    }
+  }
+  return totals;
+}
+`;
+
+const AUTH_FIXTURE = `import * as crypto from 'crypto';
+
+const users: Record<string, { passwordHash: string; isAdmin: boolean }> = {};
+const SECRET = 'super-secret-signing-key-123';
+
+export function register(username: string, password: string): void {
+  users[username] = {
+    passwordHash: crypto.createHash('md5').update(password).digest('hex'),
+    isAdmin: username.startsWith('admin')
+  };
+}
+
+export function login(username: string, password: string): string | null {
+  const user = users[username];
+  const hash = crypto.createHash('md5').update(password).digest('hex');
+  if (user && user.passwordHash == hash) {
+    return Buffer.from(JSON.stringify({ username, isAdmin: user.isAdmin, secret: SECRET })).toString('base64');
+  }
+  console.log('Failed login for ' + username + ' with password ' + password);
+  return null;
+}
+
+export function verifyToken(token: string): { username: string; isAdmin: boolean } {
+  return eval('(' + Buffer.from(token, 'base64').toString() + ')');
+}
+`;
+
+const REPORT_FIXTURE = `export function generateReport(data: any[], format: string): string {
+  let out = '';
+  let total = 0;
+  let count = 0;
+  const errors: string[] = [];
+  for (const row of data) {
+    if (!row || typeof row.amount !== 'number' || !row.name) {
+      errors.push('Invalid row: ' + JSON.stringify(row));
+      continue;
+    }
+    if (row.amount < 0) {
+      errors.push('Negative amount for ' + row.name);
+      continue;
+    }
+    total += row.amount;
+    count++;
+    if (format === 'csv') {
+      out += row.name + ',' + row.amount.toFixed(2) + '\\n';
+    } else if (format === 'html') {
+      out += '<tr><td>' + row.name + '</td><td>' + row.amount.toFixed(2) + '</td></tr>';
+    } else {
+      out += row.name.padEnd(20) + row.amount.toFixed(2).padStart(10) + '\\n';
+    }
+  }
+  const average = count > 0 ? total / count : 0;
+  if (format === 'csv') {
+    out = 'name,amount\\n' + out + 'TOTAL,' + total.toFixed(2) + '\\nAVERAGE,' + average.toFixed(2) + '\\n';
+  } else if (format === 'html') {
+    out = '<table>' + out + '<tr><td>Total</td><td>' + total.toFixed(2) + '</td></tr></table>';
+  } else {
+    out += 'TOTAL'.padEnd(20) + total.toFixed(2).padStart(10) + '\\n';
+  }
+  if (errors.length > 0) {
+    out += (format === 'html' ? '<!-- ' : '') + errors.length + ' rows skipped' + (format === 'html' ? ' -->' : '');
+  }
+  return out;
+}
+`;
@@ -76,8 +76,8 @@ async function listTestRuns(db: TestDatabase, verbose?: boolean) {
   console.log();
   
   const table = new Table({
-    head: ['Run ID', 'CLAUDE File ID', 'Test Suite', 'Started', 'Status'],
-    colWidths: [8, 15, 15, 20, 12]
+    head: ['Run ID', 'CLAUDE File ID', 'Test Suite', 'Backend', 'Started', 'Status'],
+    colWidths: [8, 15, 15, 24, 20, 12]
   });
   
   runs.forEach(run => {
@@ -89,6 +89,7 @@ async function listTestRuns(db: TestDatabase, verbose?: boolean) {
       run.id?.toString() || '',
       run.claudeFileId.toString(),
       run.testSuiteVersion,
+      run.backend ? `${run.backend}${run.model ? ` (${run.model})` : ''}` : '-',
       run.startedAt.toLocaleString(),
       statusColor(run.status)
     ]);
@@ -98,23 +99,25 @@ async function listTestRuns(db: TestDatabase, verbose?: boolean) {
 }
 
 async function listTestSuites(db: TestDatabase, verbose?: boolean) {
-  // For now, just list the known test suites since we don't have a comprehensive query
-  const knownSuites = ['basic', 'advanced'];
+  const suites = await db.listTestSuites();
+  
+  if (suites.length === 0) {
+    console.log(chalk.yellow('No test suites found.'));
+    console.log('Run: claude-test init, or claude-test suite add <file>');
+    return;
+  }
   
   console.log(chalk.bold('Available Test Suites:'));
   console.log();
   
-  for (const suiteId of knownSuites) {
-    const suite = await db.getTestSuite(suiteId);
-    if (suite) {
-      console.log(chalk.green('✓'), chalk.bold(suite.name));
-      console.log(chalk.gray(`  ID: ${suite.id}`));
-      console.log(chalk.gray(`  Version: ${suite.version}`));
-      console.log(chalk.gray(`  Tests: ${suite.tests.length}`));
-      if (suite.description) {
-        console.log(chalk.gray(`  Description: ${suite.description}`));
-      }
-      console.log();
+  suites.forEach(suite => {
+    console.log(chalk.green('✓'), chalk.bold(suite.name));
+    console.log(chalk.gray(`  ID: ${suite.id}`));
+    console.log(chalk.gray(`  Version: ${suite.version}`));
+    console.log(chalk.gray(`  Tests: ${suite.tests.length}`));
+    if (suite.description) {
+      console.log(chalk.gray(`  Description: ${suite.description}`));
     }
-  }
+    console.log();
+  });
 }
\ No newline at end of file
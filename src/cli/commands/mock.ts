@@ -0,0 +1,30 @@
+import chalk from 'chalk';
+import { loadMockScript } from '../../mock/script';
+import { startMockMessagesServer } from '../../mock/messages-server';
+
+export interface MockApiCommandArgs {
+  script: string;
+  port?: number;
+}
+
+export async function mockApiCommand(args: MockApiCommandArgs) {
+  try {
+    const script = loadMockScript(args.script);
+    const server = await startMockMessagesServer(script, { port: args.port });
+    
+    console.log(chalk.green('✓'), `Mock Messages API listening on ${server.url}`);
+    console.log(chalk.gray(`Replaying ${script.sessions.length} session(s) from ${args.script}`));
+    console.log(chalk.gray(`Point runs at it with: ANTHROPIC_BASE_URL=${server.url} ANTHROPIC_API_KEY=mock claude-test run --backend api ...`));
+    console.log(chalk.gray('Press Ctrl+C to stop'));
+    
+    process.once('SIGINT', async () => {
+      console.log(chalk.gray(`\nServed ${server.requests.length} request(s)`));
+      await server.close();
+      process.exit(0);
+    });
+    
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,204 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import * as crypto from 'crypto';
+import { TestDatabase, ORIGINAL_SCORE_SET, LATEST_SCORE_SET } from '../../storage/database';
+import { EvaluatorManager } from '../../evaluators/evaluator-manager';
+import { runWithConcurrency } from '../../runners/worker-pool';
+import { SCORE_METRICS, hasScore } from '../../utils/comparison';
+import { mean } from '../../utils/statistics';
+import { Test, TestResult, TestRun, TestSuite, MetricScores } from '../../types';
+import { EvaluatorCommandArgs, buildEvaluatorOptions, describeEvaluatorOptions, warnUnjudgedCriteria } from '../evaluator-options';
+
+export interface RescoreCommandArgs extends EvaluatorCommandArgs {
+  'run-id'?: number;
+  'claude-file'?: string;
+  latest?: boolean;
+  metrics?: string[];
+  tag?: string;
+  from: string;
+  concurrency?: number;
+  'dry-run'?: boolean;
+  verbose?: boolean;
+}
+
+interface Rescored {
+  before: Pick<TestResult, 'id' | 'scoreSet' | 'scores' | 'evaluations'>;
+  after: TestResult;
+}
+
+export async function rescoreCommand(args: RescoreCommandArgs) {
+  const { from, concurrency, 'dry-run': dryRun, verbose } = args;
+
+  try {
+    const metrics = args.metrics?.map(String);
+    const unknown = metrics?.filter(metric => !SCORE_METRICS.includes(metric as keyof MetricScores)) || [];
+    if (unknown.length > 0) {
+      throw new Error(`Unknown metric(s): ${unknown.join(', ')}. Expected: ${SCORE_METRICS.join(', ')}`);
+    }
+
+    const db = new TestDatabase();
+    const testRuns = await selectRuns(db, args);
+
+    const evaluation = await buildEvaluatorOptions(args, db);
+    const manager = new EvaluatorManager(evaluation);
+
+    // The label names the evaluator versions, so rescoring with unchanged
+    // evaluators replaces the previous set instead of piling up copies
+    const versions = manager.getEvaluatorVersions(metrics);
+    const label = args.tag || `rescore-${crypto.createHash('sha256').update(JSON.stringify(versions)).digest('hex').slice(0, 8)}`;
+    if (label === ORIGINAL_SCORE_SET || label === LATEST_SCORE_SET) {
+      throw new Error(`"${label}" is reserved; choose another --tag`);
+    }
+
+    console.log(chalk.blue(`Rescoring ${testRuns.length} run(s) as "${label}"${dryRun ? ' (dry run)' : ''}`));
+    console.log(chalk.gray(`Metrics: ${(metrics || Object.keys(versions)).join(', ')}`));
+    console.log(chalk.gray(`Starting from: ${from} scores`));
+    describeEvaluatorOptions(evaluation);
+
+    const suites = await db.listTestSuites();
+    const runTests = suites
+      .filter(suite => testRuns.some(testRun => testRun.testSuiteVersion === suite.version))
+      .flatMap(suite => suite.tests);
+    warnUnjudgedCriteria(runTests, evaluation, metrics);
+    console.log();
+    const rescored: Rescored[] = [];
+
+    for (const testRun of testRuns) {
+      const claudeFile = await db.getClaudeFile(testRun.claudeFileId);
+      const results = await db.getTestResults(testRun.id!, from);
+
+      const runRescored = await runWithConcurrency(results, concurrency || 1, async (result) => {
+        const test = findTest(suites, testRun, result);
+        // The workspace is gone; evaluators get the transcript and metrics only
+        const { scores, evaluations } = await manager.evaluateAll(test, result, {
+          claudeMdContent: claudeFile?.content || '',
+          metrics
+        });
+
+        if (verbose) {
+          console.log(chalk.gray(`  run ${testRun.id} · ${result.testId}${result.trialIndex ? ` [trial ${result.trialIndex + 1}]` : ''}`));
+        }
+        // The result is updated in place rather than spread, which would load every lazy artifact
+        const before = { id: result.id, scoreSet: result.scoreSet, scores: result.scores, evaluations: result.evaluations };
+        return { before, after: Object.assign(result, { scores, evaluations, scoreSet: label }) };
+      });
+
+      // Consistency only makes sense across the trials of one test
+      if (!metrics || metrics.includes('consistency')) {
+        const byTest = new Map<string, TestResult[]>();
+        runRescored.forEach(({ after }) => {
+          byTest.set(after.testId, [...(byTest.get(after.testId) || []), after]);
+        });
+        byTest.forEach(trials => manager.evaluateTrials(trials));
+      }
+
+      rescored.push(...runRescored);
+    }
+
+    if (!dryRun) {
+      for (const { before, after } of rescored) {
+        // Metrics that were not re-run record where their score came from
+        const carriedOver = before.scoreSet || ORIGINAL_SCORE_SET;
+        await db.saveScoreSet({
+          testResultId: before.id!,
+          label,
+          evaluatorVersions: Object.fromEntries(
+            SCORE_METRICS.map(metric => [metric, versions[metric] || `from:${carriedOver}`])
+          ),
+          scores: after.scores,
+          evaluations: after.evaluations || {}
+        });
+      }
+    }
+
+    db.close();
+
+    displayChanges(rescored, metrics || Object.keys(versions));
+
+    if (dryRun) {
+      console.log(chalk.yellow('\nDry run: nothing was saved.'));
+    } else {
+      console.log(chalk.green(`\n✓ Saved score set "${label}" for ${rescored.length} result(s)`));
+      console.log(chalk.gray(`  Reports use the latest score set; pass --scores ${ORIGINAL_SCORE_SET} to see the original scores.`));
+    }
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+async function selectRuns(db: TestDatabase, args: RescoreCommandArgs): Promise<TestRun[]> {
+  const { 'run-id': runId, 'claude-file': claudeFileName, latest } = args;
+
+  if (runId) {
+    const run = await db.getTestRun(runId);
+    if (!run) {
+      throw new Error(`Test run not found: ${runId}`);
+    }
+    return [run];
+  }
+
+  if (claudeFileName) {
+    const claudeFile = isNumeric(claudeFileName)
+      ? await db.getClaudeFile(parseInt(claudeFileName))
+      : await db.getClaudeFileByName(claudeFileName);
+    if (!claudeFile) {
+      throw new Error(`CLAUDE.md file not found: ${claudeFileName}`);
+    }
+    return db.listTestRuns(claudeFile.id);
+  }
+
+  if (latest) {
+    const runs = await db.listTestRuns();
+    if (runs.length === 0) {
+      throw new Error('No test runs found');
+    }
+    return [runs[0]];
+  }
+
+  throw new Error('Must specify --run-id, --claude-file, or --latest');
+}
+
+// Prefer the suite version the run used; fall back to what the result itself recorded
+function findTest(suites: TestSuite[], testRun: TestRun, result: TestResult): Test {
+  const candidates = suites.flatMap(suite =>
+    suite.tests.filter(test => test.id === result.testId).map(test => ({ suite, test }))
+  );
+  const match = candidates.find(c => c.suite.version === testRun.testSuiteVersion) || candidates[0];
+
+  return match?.test || {
+    id: result.testId,
+    prompt: result.prompt,
+    category: 'unknown'
+  };
+}
+
+function displayChanges(rescored: Rescored[], metrics: string[]) {
+  const table = new Table({
+    head: ['Metric', 'Before', 'After', 'Change', 'Errors'],
+    colWidths: [22, 10, 10, 10, 8]
+  });
+
+  metrics.forEach(name => {
+    const metric = name as keyof MetricScores;
+    const before = mean(rescored.filter(r => hasScore(r.before, metric)).map(r => r.before.scores[metric]));
+    const after = mean(rescored.filter(r => hasScore(r.after, metric)).map(r => r.after.scores[metric]));
+    const errors = rescored.filter(r => r.after.evaluations?.[metric]?.status === 'error').length;
+    const delta = after - before;
+
+    table.push([
+      metric,
+      before.toFixed(2),
+      after.toFixed(2),
+      delta > 0 ? chalk.green(`+${delta.toFixed(2)}`) : delta < 0 ? chalk.red(delta.toFixed(2)) : chalk.gray('0.00'),
+      errors > 0 ? chalk.red(errors) : '0'
+    ]);
+  });
+
+  console.log(table.toString());
+}
+
+function isNumeric(str: string): boolean {
+  return !isNaN(parseFloat(str)) && isFinite(parseFloat(str));
+}
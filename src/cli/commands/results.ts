@@ -1,16 +1,20 @@
 import chalk from 'chalk';
 import { TestDatabase } from '../../storage/database';
 import Table from 'cli-table3';
+import { summarizeRuleCompliance } from '../../evaluators/instruction-adherence-evaluator';
+import { summarizeWorkspaceDiff } from '../../execution/workspace-diff';
 
 export interface ResultsCommandArgs {
   'run-id'?: number;
   latest?: boolean;
   format: 'table' | 'json' | 'markdown';
+  scores?: string;
+  diff?: boolean;
   verbose?: boolean;
 }
 
 export async function resultsCommand(args: ResultsCommandArgs) {
-  const { 'run-id': runId, latest, format, verbose } = args;
+  const { 'run-id': runId, latest, format, scores, diff, verbose } = args;
   
   try {
     const db = new TestDatabase();
@@ -35,13 +39,20 @@ export async function resultsCommand(args: ResultsCommandArgs) {
       throw new Error(`Test run not found: ${targetRunId}`);
     }
     
-    const results = await db.getTestResults(targetRunId);
+    const results = await db.getTestResults(targetRunId, scores);
     const claudeFile = await db.getClaudeFile(testRun.claudeFileId);
     
+    // Diffs live apart from the result rows; only the table view summarizes them unasked
+    if (diff || format === 'table') {
+      for (const result of results) {
+        result.workspaceDiff = await db.getWorkspaceDiff(result.id!) ?? undefined;
+      }
+    }
+    
     // Display results in requested format
     switch (format) {
       case 'table':
-        displayTableFormat(testRun, claudeFile!, results);
+        displayTableFormat(testRun, claudeFile!, results, diff);
         break;
       case 'json':
         console.log(JSON.stringify({
@@ -51,7 +62,7 @@ export async function resultsCommand(args: ResultsCommandArgs) {
         }, null, 2));
         break;
       case 'markdown':
-        displayMarkdownFormat(testRun, claudeFile!, results);
+        displayMarkdownFormat(testRun, claudeFile!, results, diff);
         break;
     }
     
@@ -63,12 +74,14 @@ export async function resultsCommand(args: ResultsCommandArgs) {
   }
 }
 
-function displayTableFormat(testRun: any, claudeFile: any, results: any[]) {
+function displayTableFormat(testRun: any, claudeFile: any, results: any[], showPatch?: boolean) {
   console.log(chalk.bold('Test Run Results'));
   console.log(chalk.gray(`Run ID: ${testRun.id}`));
   console.log(chalk.gray(`CLAUDE File: ${claudeFile.name} (${claudeFile.hash.slice(0, 8)}...)`));
   console.log(chalk.gray(`Started: ${testRun.startedAt}`));
   console.log(chalk.gray(`Completed: ${testRun.completedAt || 'N/A'}`));
+  const scoreSets = Array.from(new Set(results.map(r => r.scoreSet || 'original')));
+  console.log(chalk.gray(`Scores: ${scoreSets.join(', ')}`));
   console.log();
   
   // Summary scores table
@@ -117,9 +130,51 @@ function displayTableFormat(testRun: any, claudeFile: any, results: any[]) {
   
   console.log(chalk.bold('Detailed Metrics:'));
   console.log(metricsTable.toString());
+  
+  const compliance = summarizeRuleCompliance(results);
+  if (compliance.length > 0) {
+    const complianceTable = new Table({
+      head: ['Line', 'CLAUDE.md Rule', 'Followed', 'Violated', 'N/A', '?'],
+      colWidths: [6, 44, 10, 10, 6, 5]
+    });
+    
+    compliance.forEach(rule => {
+      complianceTable.push([
+        rule.line,
+        rule.rule.length > 40 ? `${rule.rule.slice(0, 39)}…` : rule.rule,
+        rule.followed > 0 ? chalk.green(rule.followed) : '0',
+        rule.violated > 0 ? chalk.red(rule.violated) : '0',
+        rule.notApplicable,
+        rule.unknown
+      ]);
+    });
+    
+    console.log();
+    console.log(chalk.bold('CLAUDE.md Compliance:'));
+    console.log(complianceTable.toString());
+  }
+  
+  const changed = results.filter(r => r.workspaceDiff);
+  if (changed.length > 0) {
+    console.log();
+    console.log(chalk.bold('Workspace Changes:'));
+    changed.forEach(result => {
+      const trial = result.trialIndex ? ` [trial ${result.trialIndex + 1}]` : '';
+      console.log(`${chalk.cyan(`${result.testId}${trial}`)} ${chalk.gray(`(result ${result.id})`)}`);
+      const lines = summarizeWorkspaceDiff(result.workspaceDiff);
+      if (lines.length === 0) {
+        console.log(chalk.gray('  (no changes)'));
+      }
+      lines.forEach(line => console.log(`  ${line}`));
+      if (showPatch && result.workspaceDiff.patch) {
+        console.log();
+        console.log(colorPatch(result.workspaceDiff.patch));
+      }
+    });
+  }
 }
 
-function displayMarkdownFormat(testRun: any, claudeFile: any, results: any[]) {
+function displayMarkdownFormat(testRun: any, claudeFile: any, results: any[], showPatch?: boolean) {
   console.log(`# Test Run Results`);
   console.log();
   console.log(`**Run ID:** ${testRun.id}`);
@@ -150,6 +205,35 @@ function displayMarkdownFormat(testRun: any, claudeFile: any, results: any[]) {
     const avg = (values.reduce((a, b) => a + b, 0) / values.length).toFixed(1);
     console.log(`**${metric}:** ${avg}/10`);
   });
+  
+  if (showPatch) {
+    console.log();
+    console.log(`## Workspace Changes`);
+    results.forEach(result => {
+      if (!result.workspaceDiff) return;
+      console.log();
+      console.log(`### ${result.testId}`);
+      console.log();
+      if (!result.workspaceDiff.patch) {
+        console.log('No changes.');
+        return;
+      }
+      console.log('```diff');
+      process.stdout.write(result.workspaceDiff.patch);
+      console.log('```');
+    });
+  }
+}
+
+function colorPatch(patch: string): string {
+  return patch.replace(/\n$/, '').split('\n').map(line => {
+    if (line.startsWith('diff --git')) return chalk.bold(line);
+    if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+    if (line.startsWith('@@')) return chalk.cyan(line);
+    if (line.startsWith('+')) return chalk.green(line);
+    if (line.startsWith('-')) return chalk.red(line);
+    return line;
+  }).join('\n');
 }
 
 function colorScore(score: number): string {
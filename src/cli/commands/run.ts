@@ -1,29 +1,81 @@
 import chalk from 'chalk';
+import Table from 'cli-table3';
 import { TestDatabase } from '../../storage/database';
-import { TestRunner } from '../../runners/test-runner';
-import { TestSuite, Test } from '../../types';
+import { TestRunner, TestSummary } from '../../runners/test-runner';
+import { TestSuite, Test, MetricScores } from '../../types';
+import { BACKENDS, BackendName } from '../../execution/runner-backend';
+import { KEEP_WORKSPACES_POLICIES, KeepWorkspacesPolicy } from '../../execution/workspace-archive';
+import { EvaluatorCommandArgs, buildEvaluatorOptions, describeEvaluatorOptions, warnUnjudgedCriteria } from '../evaluator-options';
 
-export interface RunCommandArgs {
+export interface RunCommandArgs extends EvaluatorCommandArgs {
   'claude-file': string;
   suite: string;
+  concurrency?: number;
+  repeat?: number;
   verbose?: boolean;
+  backend?: string;
+  model?: string;
+  temperature?: number;
+  'max-tokens'?: number;
+  sandbox?: boolean;
+  replay?: boolean;
+  record?: boolean;
+  refresh?: boolean;
+  'keep-workspaces'?: string;
 }
 
 export async function runCommand(args: RunCommandArgs) {
-  const { 'claude-file': claudeFileName, suite, verbose } = args;
+  const { 'claude-file': claudeFileName, suite, repeat, verbose, model, temperature } = args;
+  const maxTokens = args['max-tokens'];
+  const { replay, record, refresh } = args;
+  const keepWorkspaces = (args['keep-workspaces'] || 'never') as KeepWorkspacesPolicy;
+  const concurrency = args.concurrency ?? Number(process.env.TEST_CONCURRENCY || '1');
   
   try {
-    // Check if Claude CLI is available
-    const { execSync } = require('child_process');
-    try {
-      execSync('claude --version', { stdio: 'ignore' });
-    } catch (error) {
-      throw new Error('Claude CLI not found. Please install Claude Code from https://claude.ai/code');
+    if (replay && refresh) {
+      throw new Error('--replay and --refresh conflict: --refresh runs every test live');
+    }
+    if (!KEEP_WORKSPACES_POLICIES.includes(keepWorkspaces)) {
+      throw new Error(`Unknown --keep-workspaces policy: ${keepWorkspaces}. Use one of: ${KEEP_WORKSPACES_POLICIES.join(', ')}`);
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      const source = args.concurrency !== undefined ? '--concurrency' : `TEST_CONCURRENCY (${process.env.TEST_CONCURRENCY})`;
+      throw new Error(`Invalid ${source}: expected a whole number of tests to run at once, 1 or more`);
+    }
+    if (repeat !== undefined && (!Number.isInteger(repeat) || repeat < 1)) {
+      throw new Error('Invalid --repeat: expected a whole number of trials per test, 1 or more');
+    }
+    
+
+    const backend = (args.backend || process.env.TEST_BACKEND || 'cli') as BackendName;
+    if (!BACKENDS.includes(backend)) {
+      throw new Error(`Unknown backend: ${backend}. Use one of: ${BACKENDS.join(', ')}`);
+    }
+    
+    if (backend === 'cli') {
+      if (temperature !== undefined || maxTokens !== undefined) {
+        throw new Error('--temperature and --max-tokens need --backend api; the Claude CLI does not expose them');
+      }
+      if (args.sandbox) {
+        throw new Error('--sandbox needs --backend api; the Claude CLI runs its own commands');
+      }
+      
+      // Check if Claude CLI is available
+      const { execSync } = require('child_process');
+      try {
+        execSync('claude --version', { stdio: 'ignore' });
+      } catch (error) {
+        throw new Error('Claude CLI not found. Please install Claude Code from https://claude.ai/code, or use --backend api');
+      }
+    } else if (!process.env.ANTHROPIC_API_KEY) {
+      throw new Error('--backend api needs ANTHROPIC_API_KEY');
     }
     
     // Initialize database
     const db = new TestDatabase();
     
+    const evaluation = await buildEvaluatorOptions(args, db);
+    
     // Find the CLAUDE file
     let claudeFile;
     if (isNumeric(claudeFileName)) {
@@ -45,17 +97,44 @@ export async function runCommand(args: RunCommandArgs) {
     console.log(chalk.blue('Starting test run...'));
     console.log(chalk.gray(`CLAUDE file: ${claudeFile.name} (${claudeFile.hash.slice(0, 8)}...)`));
     console.log(chalk.gray(`Test suite: ${testSuite.name} (${testSuite.tests.length} tests)`));
+    console.log(chalk.gray(`Backend: ${backend}${model ? ` (${model})` : ''}${args.sandbox ? ', sandboxed bash' : ''}`));
+    if (repeat && repeat > 1) {
+      console.log(chalk.gray(`Trials per test: ${repeat}`));
+    }
+    if (replay || record || refresh) {
+      const modes = [replay && 'replay', record && 'record', refresh && 'refresh'].filter(Boolean);
+      console.log(chalk.gray(`Session cache: ${modes.join(', ')}`));
+    }
+    describeEvaluatorOptions(evaluation);
+    warnUnjudgedCriteria(testSuite.tests, evaluation);
     console.log();
     
     // Initialize test runner
     const runner = new TestRunner({
       workspaceDir: process.env.TEST_WORKSPACE_DIR || './test-workspaces',
       timeout: parseInt(process.env.TEST_TIMEOUT || '120000'), // 2 minutes
-      useSkipPermissions: process.env.USE_SKIP_PERMISSIONS !== 'false'
+      useSkipPermissions: process.env.USE_SKIP_PERMISSIONS !== 'false',
+      concurrency,
+      repeat: repeat || 1,
+      evaluation,
+      backend,
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      baseURL: process.env.ANTHROPIC_BASE_URL,
+      model,
+      temperature,
+      maxTokens,
+      sandbox: args.sandbox
+        ? { allowNetwork: process.env.SANDBOX_ALLOW_NETWORK === 'true' }
+        : undefined,
+      recording: replay || record || refresh
+        ? { replay, record, refresh, store: db }
+        : undefined,
+      keepWorkspaces
     });
     
     // Create test run record
-    const testRun = await db.createTestRun(claudeFile.id!, testSuite.version);
+    const testRun = await db.createTestRun(claudeFile.id!, testSuite.version, { backend, model });
+    const keptResultIds: number[] = [];
     
     // Run tests with progress callbacks
     const { results, summary } = await runner.runTestSuite(
@@ -71,12 +150,10 @@ export async function runCommand(args: RunCommandArgs) {
           }
         },
         onTestComplete: (test: Test, result) => {
-          // Save each result to database
-          db.saveTestResult(result);
-          
           if (verbose) {
             const avgScore = Object.values(result.scores).reduce((a, b) => a + b, 0) / Object.keys(result.scores).length;
-            console.log(chalk.green('✓'), `${test.id} - Avg Score: ${avgScore.toFixed(1)}/10`);
+            const trial = repeat && repeat > 1 ? ` [trial ${(result.trialIndex ?? 0) + 1}/${repeat}]` : '';
+            console.log(chalk.green('✓'), `${test.id}${trial} - Avg Score: ${avgScore.toFixed(1)}/10`);
           }
         },
         onProgress: (completed, total) => {
@@ -85,6 +162,14 @@ export async function runCommand(args: RunCommandArgs) {
               console.log(); // New line after dots
             }
           }
+        },
+        onResultReady: async (_test: Test, result) => {
+          // Save each result to database, in suite order even when tests run in parallel
+          result.id = await db.saveTestResult(result);
+          if (result.workspaceArchive) {
+            keptResultIds.push(result.id);
+            result.workspaceArchive = undefined; // Stored; no need to hold every archive until the run ends
+          }
         }
       }
     );
@@ -102,6 +187,16 @@ export async function runCommand(args: RunCommandArgs) {
     
     displaySummary(summary);
     
+    const recordingStats = runner.getRecordingStats();
+    if (recordingStats) {
+      console.log(chalk.gray(
+        `Sessions: ${recordingStats.replayed} replayed, ${recordingStats.live} live, ${recordingStats.recorded} recorded`
+      ));
+    }
+    if (keptResultIds.length > 0) {
+      console.log(chalk.gray(`Workspaces kept for results: ${keptResultIds.join(', ')} (claude-test workspace open <result-id>)`));
+    }
+    
     db.close();
     
   } catch (error) {
@@ -114,22 +209,59 @@ function isNumeric(str: string): boolean {
   return !isNaN(parseFloat(str)) && isFinite(parseFloat(str));
 }
 
-function displaySummary(summary: any) {
+function displaySummary(summary: TestSummary) {
   console.log(chalk.bold('Test Summary:'));
   console.log(`  Total Tests: ${summary.totalTests}`);
   console.log(`  Passed: ${chalk.green(summary.passedTests)}`);
   console.log(`  Failed: ${chalk.red(summary.failedTests)}`);
   console.log(`  Success Rate: ${chalk.cyan((summary.successRate * 100).toFixed(1) + '%')}`);
+  if (summary.evaluationErrors > 0) {
+    console.log(`  Evaluation Errors: ${chalk.red(summary.evaluationErrors)} (excluded from averages)`);
+  }
   console.log();
   
-  console.log(chalk.bold('Average Scores:'));
-  Object.entries(summary.averageScores).forEach(([metric, score]) => {
-    const color = (score as number) >= 8 ? chalk.green : 
-                  (score as number) >= 6 ? chalk.yellow : chalk.red;
-    console.log(`  ${metric}: ${color((score as number).toFixed(1))}/10`);
-  });
+  if (summary.trialsPerTest > 1) {
+    displayTrialStats(summary);
+  } else {
+    console.log(chalk.bold('Average Scores:'));
+    Object.entries(summary.averageScores).forEach(([metric, score]) => {
+      // e.g. consistency, which needs more than one trial
+      if (summary.metricStats[metric as keyof MetricScores]?.count === 0) {
+        console.log(`  ${metric}: ${chalk.gray('not assessed')}`);
+        return;
+      }
+      const color = (score as number) >= 8 ? chalk.green : 
+                    (score as number) >= 6 ? chalk.yellow : chalk.red;
+      console.log(`  ${metric}: ${color((score as number).toFixed(1))}/10`);
+    });
+  }
   
   console.log();
   console.log(`Total Tokens Used: ${chalk.cyan(summary.totalTokensUsed.toLocaleString())}`);
+  console.log(`Total Cost: ${chalk.cyan('$' + summary.totalCostUsd.toFixed(4))}`);
   console.log(`Total Time: ${chalk.cyan(Math.round(summary.totalTimeMs / 1000))}s`);
+}
+
+function displayTrialStats(summary: TestSummary) {
+  const k = summary.trialsPerTest;
+  console.log(chalk.bold(`Scores across ${k} trials per test:`));
+  
+  const table = new Table({
+    head: ['Metric', 'Mean', 'Std Dev', 'Min', 'Max', 'pass@1', `pass@${k}`],
+    colWidths: [22, 8, 9, 7, 7, 8, 9]
+  });
+  
+  Object.entries(summary.metricStats).forEach(([metric, stats]) => {
+    table.push([
+      metric,
+      stats.mean.toFixed(1),
+      stats.stdDev.toFixed(2),
+      stats.min.toFixed(1),
+      stats.max.toFixed(1),
+      (stats.passAtK[1] * 100).toFixed(0) + '%',
+      (stats.passAtK[k] * 100).toFixed(0) + '%'
+    ]);
+  });
+  
+  console.log(table.toString());
 }
\ No newline at end of file
@@ -0,0 +1,227 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { stringify } from 'yaml';
+import { TestDatabase } from '../../storage/database';
+import {
+  loadSuiteFile,
+  listSuiteFiles,
+  resolveSuiteFile,
+  formatValidationError,
+  hashTests,
+  bumpVersion,
+  LoadedSuite
+} from '../../utils/suite-loader';
+
+export interface SuiteAddCommandArgs {
+  file?: string;
+  dir: string;
+  bump?: boolean;
+  verbose?: boolean;
+}
+
+export interface SuiteValidateCommandArgs {
+  file?: string;
+  dir: string;
+  verbose?: boolean;
+}
+
+export interface SuiteShowCommandArgs {
+  id: string;
+  format: 'table' | 'yaml' | 'json';
+  verbose?: boolean;
+}
+
+export interface SuiteRemoveCommandArgs {
+  id: string;
+  verbose?: boolean;
+}
+
+export async function suiteAddCommand(args: SuiteAddCommandArgs) {
+  const { file, dir, bump, verbose } = args;
+
+  try {
+    const loaded = loadSuites(file, dir);
+    const db = new TestDatabase();
+    let failures = 0;
+
+    for (const { filePath, suite, errors } of loaded) {
+      if (!suite) {
+        reportErrors(filePath, errors);
+        failures++;
+        continue;
+      }
+
+      const testsHash = hashTests(suite.tests);
+      const current = await db.getTestSuite(suite.id);
+
+      // Same id, same version, same tests: nothing to do
+      if (current && current.version === suite.version && hashTests(current.tests) === testsHash) {
+        console.log(chalk.gray('•'), `${suite.id} ${suite.version} unchanged (${filePath})`);
+        continue;
+      }
+
+      // A version string may only ever name one list of tests
+      let version = suite.version;
+      let recordedHash = await db.getSuiteVersionHash(suite.id, version);
+      if (recordedHash && recordedHash !== testsHash) {
+        if (!bump) {
+          console.error(chalk.red('✗'), `${filePath}: tests changed but version ${version} of "${suite.id}" is already recorded.`);
+          console.error(chalk.gray(`  Bump the version in the file (e.g. ${bumpVersion(version)}) or re-run with --bump.`));
+          failures++;
+          continue;
+        }
+
+        while (recordedHash && recordedHash !== testsHash) {
+          version = bumpVersion(version);
+          recordedHash = await db.getSuiteVersionHash(suite.id, version);
+        }
+        console.log(chalk.yellow('!'), `${suite.id}: tests changed, version bumped ${suite.version} → ${version}. Update ${filePath} to match.`);
+      }
+
+      await db.saveTestSuite({ ...suite, version });
+
+      const action = current ? `Updated ${current.version} → ${version}` : `Added ${version}`;
+      console.log(chalk.green('✓'), `${action}: ${chalk.bold(suite.name)} (${suite.id}, ${suite.tests.length} tests)`);
+      if (verbose) {
+        console.log(chalk.gray(`  File: ${filePath}`));
+        console.log(chalk.gray(`  Tests hash: ${testsHash.slice(0, 12)}...`));
+      }
+    }
+
+    db.close();
+
+    if (failures > 0) {
+      throw new Error(`${failures} suite file(s) could not be added`);
+    }
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+export async function suiteValidateCommand(args: SuiteValidateCommandArgs) {
+  const { file, dir, verbose } = args;
+
+  try {
+    const loaded = loadSuites(file, dir);
+    let failures = 0;
+
+    loaded.forEach(({ filePath, suite, errors }) => {
+      if (!suite) {
+        reportErrors(filePath, errors);
+        failures++;
+        return;
+      }
+
+      console.log(chalk.green('✓'), `${filePath}: ${suite.id} ${suite.version} (${suite.tests.length} tests)`);
+      if (verbose) {
+        suite.tests.forEach(test => console.log(chalk.gray(`  - ${test.id} [${test.category}]`)));
+      }
+    });
+
+    if (failures > 0) {
+      throw new Error(`${failures} of ${loaded.length} suite file(s) are invalid`);
+    }
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+export async function suiteShowCommand(args: SuiteShowCommandArgs) {
+  const { id, format } = args;
+
+  try {
+    const db = new TestDatabase();
+    const suite = await db.getTestSuite(id);
+    db.close();
+
+    if (!suite) {
+      throw new Error(`Test suite not found: ${id}`);
+    }
+
+    switch (format) {
+      case 'yaml':
+        console.log(stringify({ ...suite, description: suite.description || undefined }));
+        return;
+      case 'json':
+        console.log(JSON.stringify(suite, null, 2));
+        return;
+    }
+
+    console.log(chalk.bold(suite.name));
+    console.log(chalk.gray(`ID: ${suite.id}`));
+    console.log(chalk.gray(`Version: ${suite.version}`));
+    if (suite.description) {
+      console.log(chalk.gray(`Description: ${suite.description}`));
+    }
+    console.log();
+
+    const table = new Table({
+      head: ['Test ID', 'Category', 'Timeout', 'Prompt'],
+      colWidths: [25, 18, 10, 50],
+      wordWrap: true
+    });
+
+    suite.tests.forEach(test => {
+      table.push([
+        test.id,
+        test.category,
+        test.timeout ? `${Math.round(test.timeout / 1000)}s` : 'default',
+        test.prompt
+      ]);
+    });
+
+    console.log(table.toString());
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+export async function suiteRemoveCommand(args: SuiteRemoveCommandArgs) {
+  const { id } = args;
+
+  try {
+    const db = new TestDatabase();
+    const removed = await db.removeTestSuite(id);
+    db.close();
+
+    if (!removed) {
+      throw new Error(`Test suite not found: ${id}`);
+    }
+
+    console.log(chalk.green('✓'), `Removed test suite: ${chalk.bold(id)}`);
+    console.log(chalk.gray('  Past runs and version history are kept.'));
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+function loadSuites(file: string | undefined, dir: string): LoadedSuite[] {
+  if (file) {
+    const filePath = resolveSuiteFile(file, dir);
+    if (!filePath) {
+      throw new Error(`Suite file not found: ${file} (also looked in ${dir}/)`);
+    }
+    return [loadSuiteFile(filePath)];
+  }
+
+  const files = listSuiteFiles(dir);
+  if (files.length === 0) {
+    throw new Error(`No suite files (.yaml, .yml, .json) found in ${dir}/`);
+  }
+  return files.map(loadSuiteFile);
+}
+
+function reportErrors(filePath: string, errors: LoadedSuite['errors']) {
+  console.error(chalk.red('✗'), `${filePath}:`);
+  errors.forEach(error => {
+    console.error(chalk.red(`  ${formatValidationError(error)}`));
+  });
+}
@@ -0,0 +1,85 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import chalk from 'chalk';
+import { TestDatabase } from '../../storage/database';
+import { extractWorkspace } from '../../execution/workspace-archive';
+
+export interface WorkspaceOpenCommandArgs {
+  'result-id': number;
+  verbose?: boolean;
+}
+
+export interface WorkspaceExtractCommandArgs {
+  'result-id': number;
+  dir?: string;
+  verbose?: boolean;
+}
+
+export async function workspaceOpenCommand(args: WorkspaceOpenCommandArgs) {
+  const resultId = args['result-id'];
+
+  try {
+    const archive = await loadArchive(resultId);
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), `claude-test-workspace-${resultId}-`));
+    await extractWorkspace(archive, dir);
+
+    console.log(chalk.green('✓'), `Workspace of result ${resultId} restored to ${dir}`);
+    console.log(chalk.gray('Starting a shell there; it is removed when the shell exits'));
+
+    const shell = process.env.SHELL || '/bin/sh';
+    const exitCode = await new Promise<number>((resolve) => {
+      const child = spawn(shell, [], { cwd: dir, stdio: 'inherit' });
+      child.on('error', (error) => {
+        console.error(chalk.red('Error:'), `Failed to start ${shell}: ${error.message}`);
+        resolve(1);
+      });
+      child.on('close', (code) => resolve(code ?? 1));
+    });
+
+    await fs.rm(dir, { recursive: true, force: true });
+    process.exitCode = exitCode;
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+export async function workspaceExtractCommand(args: WorkspaceExtractCommandArgs) {
+  const resultId = args['result-id'];
+  const dir = path.resolve(args.dir || `workspace-${resultId}`);
+
+  try {
+    const existing = await fs.readdir(dir).catch(() => null);
+    if (existing && existing.length > 0) {
+      throw new Error(`Directory is not empty: ${dir}`);
+    }
+
+    const archive = await loadArchive(resultId);
+    await extractWorkspace(archive, dir);
+
+    console.log(chalk.green('✓'), `Workspace of result ${resultId} extracted to ${dir}`);
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+async function loadArchive(resultId: number): Promise<Buffer> {
+  const db = new TestDatabase();
+  try {
+    const archive = await db.getWorkspaceArchive(resultId);
+    if (archive) return archive;
+
+    const result = await db.getTestResult(resultId);
+    if (!result) {
+      throw new Error(`Test result not found: ${resultId}`);
+    }
+    throw new Error(`No workspace was kept for result ${resultId}; run with --keep-workspaces failed|always to keep them`);
+  } finally {
+    db.close();
+  }
+}
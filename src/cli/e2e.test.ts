@@ -0,0 +1,203 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { startCliHarness, CliHarness, CliOutcome } from '../mock/harness';
+import { BackendName } from '../execution/runner-backend';
+import { TestResult } from '../types';
+
+const FIXTURES = path.join(__dirname, '..', 'mock', '__fixtures__');
+
+// Tool names differ between the Claude CLI and the api backend's own tools
+const TOOLS: Record<BackendName, { write: string; edit: string }> = {
+  cli: { write: 'Write', edit: 'Edit' },
+  api: { write: 'file_write', edit: 'file_edit' }
+};
+
+function assertSucceeded(outcome: CliOutcome) {
+  assert.equal(outcome.exitCode, 0, `exit ${outcome.exitCode}\n${outcome.stdout}\n${outcome.stderr}`);
+}
+
+for (const backend of ['cli', 'api'] as BackendName[]) {
+  describe(`e2e: ${backend} backend`, () => {
+    let harness: CliHarness;
+    let baselineRun: CliOutcome;
+    let candidateRun: CliOutcome;
+    let baseline: TestResult[];
+    let candidate: TestResult[];
+
+    before(async () => {
+      harness = await startCliHarness({ script: path.join(FIXTURES, `${backend}-script.yaml`) });
+
+      assertSucceeded(await harness.run('suite', 'add', path.join(FIXTURES, 'e2e-suite.yaml')));
+      assertSucceeded(await harness.run('add', '-f', path.join(FIXTURES, 'claude-baseline.md'), '-n', 'baseline'));
+      assertSucceeded(await harness.run('add', '-f', path.join(FIXTURES, 'claude-candidate.md'), '-n', 'candidate'));
+
+      baselineRun = await harness.run('run', '-c', 'baseline', '-s', 'e2e', '-b', backend, '-m', 'claude-mock');
+      candidateRun = await harness.run('run', '-c', 'candidate', '-s', 'e2e', '-b', backend, '-m', 'claude-mock', '-n', '2', '-j', '2');
+
+      const db = harness.openDatabase();
+      try {
+        baseline = await db.getTestResults(1);
+        candidate = await db.getTestResults(2);
+        // Load the lazily stored fields before the database closes
+        [...baseline, ...candidate].forEach(result => {
+          void result.metricsRaw;
+          void result.evaluations;
+          void result.workspaceDiff;
+        });
+      } finally {
+        db.close();
+      }
+    });
+
+    after(async () => {
+      await harness?.close();
+    });
+
+    describe('run', () => {
+      it('completes both runs', () => {
+        assertSucceeded(baselineRun);
+        assertSucceeded(candidateRun);
+        assert.match(baselineRun.stdout, /Test run completed/);
+        assert.match(baselineRun.stdout, new RegExp(`Backend: ${backend} \\(claude-mock\\)`));
+        assert.match(candidateRun.stdout, /Scores across 2 trials per test/);
+      });
+
+      it('warns about evaluationCriteria no judge reads', () => {
+        assert.match(baselineRun.stdout, /evaluationCriteria\.codeQuality \(greet\) is ignored/);
+      });
+
+      it('stores every trial in suite order', () => {
+        assert.deepEqual(baseline.map(r => r.testId), ['greet', 'fix-port']);
+        assert.deepEqual(candidate.map(r => [r.testId, r.trialIndex]), [
+          ['greet', 0], ['greet', 1], ['fix-port', 0], ['fix-port', 1]
+        ]);
+      });
+
+      it('scores correctness from the assertions', () => {
+        [...baseline, ...candidate].forEach(result => {
+          assert.ok(result.assertionResults!.every(a => a.passed), JSON.stringify(result.assertionResults));
+          assert.equal(result.scores.correctness, 10);
+        });
+      });
+
+      it('captures tool calls and the recovered failed edit', () => {
+        const [greet, fixPort] = baseline;
+        assert.deepEqual(greet.metricsRaw.allToolCalls.map(call => call.toolName), [TOOLS[backend].write]);
+
+        const edits = fixPort.metricsRaw.allToolCalls.filter(call => call.toolName === TOOLS[backend].edit);
+        assert.equal(edits.length, 2);
+        assert.ok(edits[0].error);
+        assert.equal(edits[1].error, undefined);
+        assert.equal(fixPort.evaluations!.errorRecovery!.details!.episodes.length, 1);
+        assert.equal(fixPort.scores.errorRecovery, 10);
+      });
+
+      it('records what changed in the workspace', () => {
+        const [greet, fixPort] = baseline;
+        assert.deepEqual(greet.workspaceDiff!.files.map(f => [f.status, f.path]), [['added', 'greet.js']]);
+        assert.match(greet.workspaceDiff!.patch, /\+exports\.greet = \(name\) => `Hello, \$\{name\}!`;/);
+        assert.deepEqual(fixPort.workspaceDiff!.files.map(f => [f.status, f.path]), [['modified', 'config.json']]);
+        assert.match(fixPort.workspaceDiff!.patch, /-\{ "port": "80" \}\n\+\{ "port": 8080 \}/);
+      });
+
+      it('leaves consistency unassessed with one trial and scores it with two', () => {
+        baseline.forEach(result => assert.equal(result.evaluations!.consistency!.status, 'not_assessed'));
+        candidate.forEach(result => {
+          assert.equal(result.evaluations!.consistency!.status, 'scored');
+          assert.equal(result.scores.consistency, 10);
+        });
+      });
+
+      it('reaches the agent through the mock', () => {
+        if (backend === 'api') {
+          // Two requests for greet and four for fix-port, per trial
+          assert.equal(harness.server.requests.length, 6 * 3);
+          assert.ok(harness.server.requests.every(request => request.model === 'claude-mock'));
+        } else {
+          assert.equal(harness.server.requests.length, 0);
+          assert.equal(baseline[0].costUsd, 0.002);
+        }
+      });
+
+      it('rejects a fractional --repeat before running anything', async () => {
+        const outcome = await harness.run('run', '-c', 'baseline', '-s', 'e2e', '-b', backend, '-n', '2.5');
+        assert.equal(outcome.exitCode, 1);
+        assert.match(outcome.stderr, /Invalid --repeat/);
+      });
+    });
+
+    describe('compare', () => {
+      it('pairs the runs by test and labels the interval with --alpha', async () => {
+        const outcome = await harness.run('compare', '-f', 'baseline', 'candidate', '--alpha', '0.01', '--verbose');
+        assertSucceeded(outcome);
+        assert.match(outcome.stdout, /candidate vs baseline \(baseline\)/);
+        assert.match(outcome.stdout, /Paired on 2 test\(s\)/);
+        assert.match(outcome.stdout, /99% CI/);
+        assert.doesNotMatch(outcome.stdout, /regression/);
+        assert.match(outcome.stdout, /No configuration differs significantly from "baseline" at α=0.01/);
+      });
+
+      it('rejects an unknown file', async () => {
+        const outcome = await harness.run('compare', '-f', 'baseline', 'missing');
+        assert.equal(outcome.exitCode, 1);
+        assert.match(outcome.stderr, /missing/);
+      });
+    });
+
+    describe('rescore', () => {
+      it('saves a labelled score set and scores consistency across the rescored trials', async () => {
+        const outcome = await harness.run('rescore', '-r', '2', '-m', 'speed', 'consistency', '--tag', 'e2e-rescore');
+        assertSucceeded(outcome);
+        assert.match(outcome.stdout, /Saved score set "e2e-rescore" for 4 result\(s\)/);
+
+        const db = harness.openDatabase();
+        try {
+          const rescored = await db.getTestResults(2, 'e2e-rescore');
+          assert.deepEqual(rescored.map(r => r.scoreSet), Array(4).fill('e2e-rescore'));
+          rescored.forEach(result => {
+            assert.equal(result.evaluations!.consistency!.status, 'scored');
+            assert.equal(result.scores.correctness, 10);
+          });
+        } finally {
+          db.close();
+        }
+      });
+    });
+
+    describe('export', () => {
+      it('writes the run as JSON', async () => {
+        assertSucceeded(await harness.run('export', '--run-id', '1', '-f', 'json', '-o', 'run-1.json'));
+        const exported = JSON.parse(await fs.readFile(path.join(harness.dir, 'results', 'run-1.json'), 'utf-8'));
+
+        assert.equal(exported.claudeFile.name, 'baseline');
+        assert.equal(exported.testRun.backend, backend);
+        assert.deepEqual(exported.results.map((r: any) => r.testId), ['greet', 'fix-port']);
+        assert.equal(exported.summary.totalTests, 2);
+        assert.equal(exported.summary.averageScores.correctness, 10);
+        assert.equal(exported.summary.averageScores.consistency, undefined);
+        assert.equal(exported.results[0].workspaceDiff.patch, '');
+      });
+
+      it('includes patches in markdown with --diff', async () => {
+        assertSucceeded(await harness.run('export', '--latest', '-f', 'markdown', '--diff', '-o', 'latest.md'));
+        const markdown = await fs.readFile(path.join(harness.dir, 'results', 'latest.md'), 'utf-8');
+
+        assert.match(markdown, /candidate/);
+        assert.match(markdown, /added\s+\+2 -0\s+greet\.js/);
+        assert.match(markdown, /```diff\ndiff --git a\/greet\.js b\/greet\.js/);
+        assert.match(markdown, /- consistency: 10\/10/);
+      });
+
+      it('escapes patches in HTML', async () => {
+        assertSucceeded(await harness.run('export', '--run-id', '1', '-f', 'html', '--diff', '-o', 'run-1.html'));
+        const html = await fs.readFile(path.join(harness.dir, 'results', 'run-1.html'), 'utf-8');
+
+        assert.match(html, /^<!DOCTYPE html>/);
+        assert.match(html, /<span class="del">-\{ "port": "80" \}<\/span>\n<span class="add">\+\{ "port": 8080 \}<\/span>/);
+        assert.match(html, /\+exports\.greet = \(name\) =&gt; `Hello/);
+      });
+    });
+  });
+}
@@ -0,0 +1,83 @@
+import chalk from 'chalk';
+import { EvaluatorManagerOptions } from '../evaluators/evaluator-manager';
+import { JudgeVerdictCache, DEFAULT_JUDGE_METRICS } from '../evaluators/judge-evaluator';
+import { loadEvaluatorConfig, loadEvaluatorModules } from '../evaluators/evaluator-loader';
+import { SCORE_METRICS } from '../utils/comparison';
+import { Test, MetricScores } from '../types';
+
+// Flags shared by every command that runs evaluators (run, rescore)
+export interface EvaluatorCommandArgs {
+  judge?: boolean;
+  'judge-model'?: string;
+  'judge-metrics'?: string[];
+  config?: string;
+}
+
+export async function buildEvaluatorOptions(
+  args: EvaluatorCommandArgs,
+  judgeCache: JudgeVerdictCache
+): Promise<EvaluatorManagerOptions> {
+  const judgeApiKey = process.env.JUDGE_API_KEY || process.env.ANTHROPIC_API_KEY;
+  if (args.judge && !judgeApiKey) {
+    throw new Error('--judge needs ANTHROPIC_API_KEY (or JUDGE_API_KEY) to call the judge model');
+  }
+
+  const judgeMetrics = args['judge-metrics']?.map(String);
+  if (judgeMetrics && !args.judge) {
+    throw new Error('--judge-metrics needs --judge');
+  }
+  const unknown = judgeMetrics?.filter(metric => !SCORE_METRICS.includes(metric as keyof MetricScores)) || [];
+  if (unknown.length > 0) {
+    throw new Error(`Unknown --judge-metrics metric(s): ${unknown.join(', ')}. Expected: ${SCORE_METRICS.join(', ')}`);
+  }
+
+  // Third-party evaluators named in claude-test.config.json (or --config)
+  const evaluatorConfig = loadEvaluatorConfig(args.config);
+  const evaluators = evaluatorConfig
+    ? await loadEvaluatorModules(evaluatorConfig.config, evaluatorConfig.baseDir)
+    : [];
+
+  return {
+    timeoutMs: evaluatorConfig?.config.evaluatorTimeoutMs,
+    judge: args.judge ? {
+      apiKey: judgeApiKey!,
+      model: args['judge-model'] || process.env.JUDGE_MODEL,
+      baseURL: process.env.JUDGE_BASE_URL,
+      metrics: judgeMetrics as (keyof MetricScores)[] | undefined,
+      cache: judgeCache
+    } : undefined,
+    evaluators
+  };
+}
+
+export function describeEvaluatorOptions(options: EvaluatorManagerOptions) {
+  options.evaluators?.forEach(({ evaluator, source }) => {
+    console.log(chalk.gray(`Evaluator: ${evaluator.metricName} from ${source}`));
+  });
+  if (options.judge) {
+    console.log(chalk.gray(`Judge model: ${options.judge.model || 'default'}`));
+    console.log(chalk.gray(`Judge metrics: ${judgedMetrics(options).join(', ')}`));
+  }
+}
+
+function judgedMetrics(options: EvaluatorManagerOptions): (keyof MetricScores)[] {
+  if (!options.judge) return [];
+  return options.judge.metrics || DEFAULT_JUDGE_METRICS;
+}
+
+// A test's evaluationCriteria only reach the judge, and only for the metrics it scores
+export function warnUnjudgedCriteria(tests: Test[], options: EvaluatorManagerOptions, metrics?: string[]) {
+  const judged = judgedMetrics(options);
+  const unjudged = new Map<string, string[]>();
+  tests.forEach(test => {
+    Object.keys(test.evaluationCriteria || {})
+      .filter(metric => !judged.includes(metric as keyof MetricScores) && (!metrics || metrics.includes(metric)))
+      .forEach(metric => unjudged.set(metric, [...(unjudged.get(metric) || []), test.id]));
+  });
+
+  unjudged.forEach((testIds, metric) => {
+    console.log(chalk.yellow(
+      `Warning: evaluationCriteria.${metric} (${testIds.join(', ')}) is ignored; use --judge --judge-metrics ${metric} to grade it`
+    ));
+  });
+}
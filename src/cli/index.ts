@@ -11,6 +11,12 @@ import { compareCommand } from './commands/compare';
 import { resultsCommand } from './commands/results';
 import { initCommand } from './commands/init';
 import { exportCommand } from './commands/export';
+import { rescoreCommand } from './commands/rescore';
+import { mockApiCommand } from './commands/mock';
+import { cacheStatsCommand, cachePruneCommand } from './commands/cache';
+import { workspaceOpenCommand, workspaceExtractCommand } from './commands/workspace';
+import { dbStatusCommand, dbMigrateCommand } from './commands/db';
+import { suiteAddCommand, suiteValidateCommand, suiteShowCommand, suiteRemoveCommand } from './commands/suite';
 
 // Load environment variables
 dotenv.config();
@@ -63,6 +69,75 @@ const cli = yargs(hideBin(process.argv))
         type: 'string',
         default: 'basic',
         description: 'Test suite to run'
+      },
+      concurrency: {
+        alias: 'j',
+        type: 'number',
+        description: 'Number of tests to run in parallel (default: TEST_CONCURRENCY or 1)'
+      },
+      repeat: {
+        alias: 'n',
+        type: 'number',
+        default: 1,
+        description: 'Number of trials per test, for variance-aware scores'
+      },
+      judge: {
+        type: 'boolean',
+        default: false,
+        description: 'Use an LLM judge to score --judge-metrics and to grade CLAUDE.md rules that no built-in check covers'
+      },
+      'judge-model': {
+        type: 'string',
+        description: 'Model for the judge (default: JUDGE_MODEL or claude-3-5-sonnet-20241022)'
+      },
+      'judge-metrics': {
+        type: 'array',
+        description: "Metrics the judge scores, using each test's evaluationCriteria for them (default: documentation)"
+      },
+      config: {
+        type: 'string',
+        description: 'Config file naming extra evaluator modules (default: claude-test.config.json if present)'
+      },
+      backend: {
+        alias: 'b',
+        type: 'string',
+        choices: ['cli', 'api'],
+        description: "How to run the agent: 'cli' drives the claude binary, 'api' calls the Messages API (default: TEST_BACKEND or cli)"
+      },
+      model: {
+        alias: 'm',
+        type: 'string',
+        description: 'Model the agent runs on'
+      },
+      temperature: {
+        type: 'number',
+        description: 'Sampling temperature (api backend only, default 0)'
+      },
+      'max-tokens': {
+        type: 'number',
+        description: 'Max output tokens per request (api backend only, default 4096)'
+      },
+      sandbox: {
+        type: 'boolean',
+        description: 'Run bash_execute for real in a sandbox instead of simulating it (api backend only)'
+      },
+      replay: {
+        type: 'boolean',
+        description: 'Serve sessions recorded earlier instead of running the agent; tests without one run live'
+      },
+      record: {
+        type: 'boolean',
+        description: 'Store the sessions that run live so later runs can replay them'
+      },
+      refresh: {
+        type: 'boolean',
+        description: 'Run every test live and replace its recorded session'
+      },
+      'keep-workspaces': {
+        type: 'string',
+        choices: ['never', 'failed', 'always'],
+        default: 'never',
+        description: 'Archive finished workspaces into the database for claude-test workspace open|extract'
       }
     },
     (args: any) => runCommand(args)
@@ -89,7 +164,17 @@ const cli = yargs(hideBin(process.argv))
         alias: 'f',
         type: 'array',
         demandOption: true,
-        description: 'Names or IDs of CLAUDE.md files to compare'
+        description: 'Names or IDs of CLAUDE.md files to compare (the first is the baseline)'
+      },
+      alpha: {
+        type: 'number',
+        default: 0.05,
+        description: 'Significance level for the paired tests'
+      },
+      scores: {
+        type: 'string',
+        default: 'latest',
+        description: "Score set to report: 'latest', 'original' or a rescore label"
       }
     },
     (args: any) => compareCommand(args)
@@ -114,6 +199,16 @@ const cli = yargs(hideBin(process.argv))
         choices: ['table', 'json', 'markdown'],
         default: 'table',
         description: 'Output format'
+      },
+      scores: {
+        type: 'string',
+        default: 'latest',
+        description: "Score set to report: 'latest', 'original' or a rescore label"
+      },
+      diff: {
+        type: 'boolean',
+        default: false,
+        description: "Show each test's workspace patch"
       }
     },
     (args: any) => resultsCommand(args)
@@ -148,10 +243,234 @@ const cli = yargs(hideBin(process.argv))
         alias: 'o',
         type: 'string',
         description: 'Output filename (optional)'
+      },
+      scores: {
+        type: 'string',
+        default: 'latest',
+        description: "Score set to report: 'latest', 'original' or a rescore label"
+      },
+      diff: {
+        type: 'boolean',
+        default: false,
+        description: "Include each test's workspace patch"
       }
     },
     (args: any) => exportCommand(args)
   )
+  .command(
+    'rescore',
+    'Re-run evaluators over stored results and save the scores as a new score set',
+    {
+      'run-id': {
+        alias: 'r',
+        type: 'number',
+        description: 'Test run ID to rescore'
+      },
+      'claude-file': {
+        alias: 'c',
+        type: 'string',
+        description: 'Rescore all runs for this CLAUDE.md file'
+      },
+      latest: {
+        alias: 'l',
+        type: 'boolean',
+        description: 'Rescore the latest test run'
+      },
+      metrics: {
+        alias: 'm',
+        type: 'array',
+        description: 'Metrics to re-evaluate (default: all); the rest are carried over'
+      },
+      tag: {
+        alias: 't',
+        type: 'string',
+        description: 'Label for the new score set (default: derived from the evaluator versions)'
+      },
+      from: {
+        type: 'string',
+        default: 'latest',
+        description: "Score set to start from: 'latest', 'original' or a rescore label"
+      },
+      concurrency: {
+        alias: 'j',
+        type: 'number',
+        description: 'Number of results to evaluate in parallel'
+      },
+      'dry-run': {
+        type: 'boolean',
+        description: 'Show the score changes without saving them'
+      },
+      judge: {
+        type: 'boolean',
+        default: false,
+        description: 'Use an LLM judge to score --judge-metrics and to grade CLAUDE.md rules that no built-in check covers'
+      },
+      'judge-model': {
+        type: 'string',
+        description: 'Model for the judge (default: JUDGE_MODEL or claude-3-5-sonnet-20241022)'
+      },
+      'judge-metrics': {
+        type: 'array',
+        description: "Metrics the judge scores, using each test's evaluationCriteria for them (default: documentation)"
+      },
+      config: {
+        type: 'string',
+        description: 'Config file naming extra evaluator modules (default: claude-test.config.json if present)'
+      }
+    },
+    (args: any) => rescoreCommand(args)
+  )
+  .command(
+    'mock-api',
+    'Serve a scripted mock of the Messages API for offline runs',
+    {
+      script: {
+        alias: 's',
+        type: 'string',
+        demandOption: true,
+        description: 'Mock script (YAML or JSON) with the turns to replay'
+      },
+      port: {
+        alias: 'p',
+        type: 'number',
+        default: 8787,
+        description: 'Port to listen on'
+      }
+    },
+    (args: any) => mockApiCommand(args)
+  )
+  .command(
+    'cache',
+    'Manage recorded agent sessions used by run --replay',
+    (yargs) => yargs
+      .command(
+        'stats',
+        'Show recorded sessions per CLAUDE.md file and backend',
+        {},
+        (args: any) => cacheStatsCommand(args)
+      )
+      .command(
+        'prune',
+        'Delete recorded sessions',
+        {
+          'unused-for': {
+            type: 'number',
+            description: 'Only sessions not replayed or recorded in this many days'
+          },
+          'claude-file': {
+            alias: 'c',
+            type: 'string',
+            description: 'Only sessions recorded for this CLAUDE.md file (name or ID)'
+          },
+          all: {
+            type: 'boolean',
+            description: 'Delete every recorded session'
+          }
+        },
+        (args: any) => cachePruneCommand(args)
+      )
+      .demandCommand(1, 'Specify a cache command: stats or prune'),
+    () => {}
+  )
+  .command(
+    'workspace',
+    'Restore workspaces kept by run --keep-workspaces',
+    (yargs) => yargs
+      .command(
+        'open <result-id>',
+        'Restore a workspace to a temporary directory and start a shell in it',
+        {},
+        (args: any) => workspaceOpenCommand(args)
+      )
+      .command(
+        'extract <result-id>',
+        'Restore a workspace to a directory',
+        {
+          dir: {
+            alias: 'd',
+            type: 'string',
+            description: 'Target directory, empty or missing (default: ./workspace-<result-id>)'
+          }
+        },
+        (args: any) => workspaceExtractCommand(args)
+      )
+      .demandCommand(1, 'Specify a workspace command: open or extract'),
+    () => {}
+  )
+  .command(
+    'db',
+    'Inspect and upgrade the database schema',
+    (yargs) => yargs
+      .command(
+        'status',
+        'Show the schema version and pending migrations',
+        {},
+        (args: any) => dbStatusCommand(args)
+      )
+      .command(
+        'migrate',
+        'Apply pending migrations, backing up first if any is destructive',
+        {},
+        (args: any) => dbMigrateCommand(args)
+      )
+      .demandCommand(1, 'Specify a db command: status or migrate'),
+    () => {}
+  )
+  .command(
+    'suite',
+    'Manage test suites defined in YAML/JSON files',
+    (yargs) => yargs
+      .command(
+        'add [file]',
+        'Validate and store suite files (all files in --dir when no file is given)',
+        {
+          dir: {
+            type: 'string',
+            default: 'tests',
+            description: 'Directory containing suite files'
+          },
+          bump: {
+            type: 'boolean',
+            description: 'Bump the patch version when tests changed but the version did not'
+          }
+        },
+        (args: any) => suiteAddCommand(args)
+      )
+      .command(
+        'validate [file]',
+        'Check suite files against the schema without storing them',
+        {
+          dir: {
+            type: 'string',
+            default: 'tests',
+            description: 'Directory containing suite files'
+          }
+        },
+        (args: any) => suiteValidateCommand(args)
+      )
+      .command(
+        'show <id>',
+        'Show a stored test suite',
+        {
+          format: {
+            alias: 'f',
+            type: 'string',
+            choices: ['table', 'yaml', 'json'],
+            default: 'table',
+            description: 'Output format'
+          }
+        },
+        (args: any) => suiteShowCommand(args)
+      )
+      .command(
+        'remove <id>',
+        'Remove a stored test suite',
+        {},
+        (args: any) => suiteRemoveCommand(args)
+      )
+      .demandCommand(1, 'Specify a suite command: add, validate, show or remove'),
+    () => {}
+  )
   .option('verbose', {
     alias: 'v',
     type: 'boolean',
@@ -1,23 +1,51 @@
 import { Test, TestResult, ConversationHistory, RawMetrics } from '../types';
 
-export abstract class BaseEvaluator {
+// Everything an evaluator may look at for one result
+export interface EvaluationContext {
+  test: Test;
+  result: TestResult;
+  conversation: ConversationHistory;
+  metrics: RawMetrics;
+  claudeMdContent: string;
+  workspacePath?: string;     // Final workspace; only set while it still exists on disk
+}
+
+export interface Evaluation {
+  score: number;              // 0-10
+  rationale?: string;         // Why the score is what it is, for reports
+  evidence?: string[];        // Specific findings backing the rationale
+  confidence?: number;        // 0-1
+  details?: Record<string, any>; // Structured breakdown stored with the result
+  assessed?: boolean;         // false when there was nothing to judge; the score is then ignored
+}
+
+/**
+ * The contract every evaluator meets, including third-party modules loaded
+ * from the config file. `metricName` must be one of the MetricScores keys.
+ */
+export interface Evaluator {
+  readonly metricName: string;
+  readonly description: string;
+  readonly version?: string;  // Bump when scoring changes, so rescored results say which logic produced them
+  readonly timeoutMs?: number;
+  evaluate(context: EvaluationContext): Promise<Evaluation>;
+}
+
+export abstract class BaseEvaluator implements Evaluator {
   abstract readonly metricName: string;
   abstract readonly description: string;
-  
-  abstract evaluate(
-    test: Test,
-    result: TestResult,
-    conversation: ConversationHistory,
-    metrics: RawMetrics
-  ): number;
-  
+  readonly version: string = '1.0.0';
+  readonly timeoutMs?: number;
+
+  abstract evaluate(context: EvaluationContext): Promise<Evaluation>;
+
   protected normalizeScore(value: number, min: number = 0, max: number = 10): number {
     return Math.min(max, Math.max(min, value));
   }
-  
+
   protected calculatePercentageScore(achieved: number, total: number): number {
     if (total === 0) return 10;
     const percentage = (achieved / total) * 100;
     return this.normalizeScore(percentage / 10);
   }
-}
\ No newline at end of file
+}
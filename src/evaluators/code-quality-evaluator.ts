@@ -1,17 +1,84 @@
-import { BaseEvaluator } from './base-evaluator';
-import { Test, TestResult, ConversationHistory, RawMetrics } from '../types';
+import { BaseEvaluator, EvaluationContext, Evaluation } from './base-evaluator';
+import { collectWrittenFiles, isCodeFile } from './workspace-files';
+import { analyzeSources, CodeAnalysis, COMPLEXITY_THRESHOLD, FUNCTION_LENGTH_THRESHOLD } from './typescript-analysis';
+import { ConversationHistory, RawMetrics } from '../types';
+
+const MAX_EVIDENCE_PER_KIND = 3;
 
 export class CodeQualityEvaluator extends BaseEvaluator {
   readonly metricName = 'codeQuality';
-  readonly description = 'Evaluates code structure, readability, and best practices';
+  readonly description = 'Type-checks and measures the .ts/.js files written, falling back to session heuristics when there are none';
+  readonly version = '2.0.0';
 
-  evaluate(
-    test: Test,
-    result: TestResult,
-    conversation: ConversationHistory,
-    metrics: RawMetrics
-  ): number {
+  async evaluate(context: EvaluationContext): Promise<Evaluation> {
+    // Edits recorded without the workspace only hold the replacement text,
+    // which cannot be compiled on its own
+    const files = collectWrittenFiles(context.metrics, context.workspacePath)
+      .filter(file => isCodeFile(file.path) && file.complete);
+    
+    if (files.length === 0) {
+      return this.evaluateSession(context);
+    }
+    
+    const analysis = analyzeSources(files, context.workspacePath);
+    const complex = analysis.functions.filter(fn => fn.complexity > COMPLEXITY_THRESHOLD);
+    const long = analysis.functions.filter(fn => fn.lines > FUNCTION_LENGTH_THRESHOLD);
+    
+    // Each kind of problem costs at most its cap, so one noisy category
+    // cannot sink the score on its own
+    const deductions = {
+      syntaxErrors: Math.min(6, analysis.syntaxErrors.length * 3),
+      typeErrors: Math.min(5, analysis.typeErrors.length * 1.5),
+      complexity: Math.min(2, complex.length * 0.5),
+      functionLength: Math.min(2, long.length * 0.5),
+      anyUsage: Math.min(1.5, analysis.anyUsages.length * 0.25),
+      unusedSymbols: Math.min(1.5, analysis.unusedSymbols.length * 0.25)
+    };
+    const total = Object.values(deductions).reduce((sum, value) => sum + value, 0);
+    
+    return {
+      score: this.normalizeScore(10 - total),
+      rationale: `${files.length} file(s), ${analysis.functions.length} function(s): ` +
+        `${analysis.syntaxErrors.length} syntax and ${analysis.typeErrors.length} type error(s), ` +
+        `${complex.length} over complexity ${COMPLEXITY_THRESHOLD}, ${long.length} over ${FUNCTION_LENGTH_THRESHOLD} lines, ` +
+        `${analysis.anyUsages.length} 'any', ${analysis.unusedSymbols.length} unused`,
+      evidence: this.describeFindings(analysis),
+      confidence: 0.8,
+      details: {
+        ...analysis,
+        maxComplexity: Math.max(0, ...analysis.functions.map(fn => fn.complexity)),
+        averageFunctionLength: analysis.functions.length > 0
+          ? analysis.functions.reduce((sum, fn) => sum + fn.lines, 0) / analysis.functions.length
+          : 0,
+        deductions
+      }
+    };
+  }
+  
+  private describeFindings(analysis: CodeAnalysis): string[] {
+    const at = (item: { file: string; line: number }) => `${item.file}:${item.line}`;
+    return [
+      ...analysis.syntaxErrors.slice(0, MAX_EVIDENCE_PER_KIND).map(d => `Syntax error at ${at(d)}: ${d.message}`),
+      ...analysis.typeErrors.slice(0, MAX_EVIDENCE_PER_KIND).map(d => `TS${d.code} at ${at(d)}: ${d.message}`),
+      ...analysis.functions
+        .filter(fn => fn.complexity > COMPLEXITY_THRESHOLD)
+        .slice(0, MAX_EVIDENCE_PER_KIND)
+        .map(fn => `${fn.name} (${at(fn)}) has complexity ${fn.complexity}`),
+      ...analysis.functions
+        .filter(fn => fn.lines > FUNCTION_LENGTH_THRESHOLD)
+        .slice(0, MAX_EVIDENCE_PER_KIND)
+        .map(fn => `${fn.name} (${at(fn)}) is ${fn.lines} lines long`),
+      ...(analysis.anyUsages.length > 0
+        ? [`'any' used ${analysis.anyUsages.length} time(s), first at ${at(analysis.anyUsages[0])}`]
+        : []),
+      ...analysis.unusedSymbols.slice(0, MAX_EVIDENCE_PER_KIND).map(d => `${at(d)}: ${d.message}`)
+    ];
+  }
+  
+  // No code to inspect: judge by how the session went about its file operations
+  private evaluateSession({ conversation, metrics }: EvaluationContext): Evaluation {
     let score = 8; // Start with a good baseline
+    const evidence: string[] = [];
     
     // Check file operations for good practices
     const fileOps = metrics.fileOperations;
@@ -20,25 +87,34 @@ export class CodeQualityEvaluator extends BaseEvaluator {
     const editsWithoutRead = this.countEditsWithoutRead(fileOps);
     if (editsWithoutRead > 0) {
       score -= editsWithoutRead * 1.5;
+      evidence.push(`${editsWithoutRead} edits without reading the file first`);
     }
     
     // Check for error handling
     const hasErrorHandling = this.checkErrorHandling(conversation);
     if (!hasErrorHandling && metrics.errorsEncountered.length > 0) {
       score -= 2;
+      evidence.push('Errors occurred but error handling was never discussed');
     }
     
     // Check for file organization (creating appropriate structure)
     const hasGoodStructure = this.checkFileStructure(fileOps);
     if (hasGoodStructure) {
       score += 1;
+      evidence.push('Files organized into directories');
     }
     
     // Check for consistent operations (not jumping around randomly)
     const consistency = this.checkOperationConsistency(metrics);
     score += consistency * 2 - 1; // -1 to 1 adjustment
+    evidence.push(`${Math.round(consistency * 100)}% of file operations grouped by file or time`);
     
-    return this.normalizeScore(score);
+    return {
+      score: this.normalizeScore(score),
+      rationale: 'No complete .ts/.js files to inspect; heuristic from file-operation ordering and error-handling mentions',
+      evidence,
+      confidence: 0.3
+    };
   }
   
   private countEditsWithoutRead(fileOps: any[]): number {
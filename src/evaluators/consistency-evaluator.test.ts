@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EvaluatorManager } from './evaluator-manager';
+import { hasScore } from '../utils/comparison';
+import { Test, TestResult, MetricScores } from '../types';
+
+const test: Test = { id: 'greet', prompt: 'Write a greeting', category: 'basic' };
+
+function trial(trialIndex: number, scores: Partial<MetricScores> = {}): TestResult {
+  return {
+    testRunId: 1,
+    testId: test.id,
+    trialIndex,
+    prompt: test.prompt,
+    response: 'Done.',
+    tokensInput: 10,
+    tokensOutput: 10,
+    responseTimeMs: 1000,
+    scores: {
+      correctness: 10,
+      speed: 8,
+      tokenEfficiency: 8,
+      documentation: 5,
+      codeQuality: 8,
+      security: 10,
+      instructionAdherence: 10,
+      consistency: 7,
+      errorRecovery: 10,
+      ...scores
+    },
+    conversation: { messages: [], totalDurationMs: 1000, modelConfig: { model: 'claude-mock', temperature: 0, maxTokens: 4096 } },
+    metricsRaw: { allToolCalls: [], fileOperations: [], commandsExecuted: [], errorsEncountered: [], retryAttempts: 0 }
+  };
+}
+
+describe('ConsistencyEvaluator', () => {
+  it('does not assess a single trial', async () => {
+    const manager = new EvaluatorManager();
+    const result = trial(0);
+    const { scores, evaluations } = await manager.evaluateAll(test, result, { metrics: ['consistency'] });
+    result.scores = scores;
+    result.evaluations = evaluations;
+    manager.evaluateTrials([result]);
+
+    assert.equal(result.evaluations!.consistency!.status, 'not_assessed');
+    assert.equal(hasScore(result, 'consistency'), false);
+    assert.equal(hasScore(result, 'correctness'), true);
+  });
+
+  it('scores the spread across trials', async () => {
+    const manager = new EvaluatorManager();
+    const trials = [trial(0), trial(1, { correctness: 0, speed: 2 })];
+    for (const result of trials) {
+      const { scores, evaluations } = await manager.evaluateAll(test, result, { metrics: ['consistency'] });
+      result.scores = scores;
+      result.evaluations = evaluations;
+    }
+    manager.evaluateTrials(trials);
+
+    trials.forEach(result => {
+      assert.equal(result.evaluations!.consistency!.status, 'scored');
+      assert.equal(hasScore(result, 'consistency'), true);
+      assert.ok(result.scores.consistency < 5);
+    });
+  });
+
+  it('leaves metrics that errored or were not assessed out of the spread', () => {
+    const manager = new EvaluatorManager();
+    const trials = [trial(0), trial(1, { documentation: 0, tokenEfficiency: 0 })];
+    trials[1].evaluations = {
+      documentation: { status: 'error', score: 0, rationale: 'Judge timed out', durationMs: 1 },
+      tokenEfficiency: { status: 'not_assessed', score: 0, rationale: 'No token usage was reported', durationMs: 1 }
+    };
+    manager.evaluateTrials(trials);
+
+    assert.deepEqual(trials.map(result => result.scores.consistency), [10, 10]);
+  });
+
+  it('scores identical trials 10', async () => {
+    const manager = new EvaluatorManager();
+    const trials = [trial(0), trial(1), trial(2)];
+    manager.evaluateTrials(trials);
+
+    assert.deepEqual(trials.map(result => result.scores.consistency), [10, 10, 10]);
+  });
+});
@@ -0,0 +1,52 @@
+import { BaseEvaluator, EvaluationContext, Evaluation } from './base-evaluator';
+import { TestResult, MetricScores } from '../types';
+import { stdDev } from '../utils/statistics';
+import { hasScore } from '../utils/comparison';
+
+export class ConsistencyEvaluator extends BaseEvaluator {
+  readonly metricName = 'consistency';
+  readonly description = 'Consistent behavior across repeated trials of the same prompt';
+  readonly version = '1.1.0';
+
+  /**
+   * A single result carries no cross-trial information, so it is not assessed
+   * here; evaluateTrials scores the trials once all of them have finished.
+   */
+  async evaluate({ result }: EvaluationContext): Promise<Evaluation> {
+    return {
+      score: result.scores.consistency,
+      rationale: 'Needs at least two trials of the test (run with --repeat)',
+      assessed: false
+    };
+  }
+
+  /**
+   * Scores how much the trials of one test disagree. The spread of every other
+   * metric (0-10 scale, so the stddev is at most ~5) and of the pass/fail
+   * outcome are averaged; no spread scores 10. Needs at least two trials.
+   * A metric's spread only counts trials where it was actually scored, since
+   * an errored or unassessed metric still carries its placeholder value.
+   */
+  evaluateTrials(trials: TestResult[]): number | null {
+    if (trials.length < 2) return null;
+
+    const metricNames = (Object.keys(trials[0].scores) as (keyof MetricScores)[])
+      .filter(name => name !== 'consistency');
+
+    const spreads = metricNames
+      .map(name => trials.filter(t => hasScore(t, name)).map(t => t.scores[name]))
+      .filter(values => values.length >= 2)
+      .map(values => stdDev(values));
+    const averageSpread = spreads.length > 0
+      ? spreads.reduce((sum, s) => sum + s, 0) / spreads.length
+      : 0;
+
+    // Disagreement on pass/fail is the worst kind of inconsistency
+    const judged = trials.filter(t => hasScore(t, 'correctness'));
+    const passes = judged.filter(t => t.scores.correctness > 0).length;
+    const outcomeDisagreement = judged.length > 0 ? Math.min(passes, judged.length - passes) / judged.length : 0;
+
+    const score = 10 - averageSpread * 2 - outcomeDisagreement * 10;
+    return this.normalizeScore(score);
+  }
+}
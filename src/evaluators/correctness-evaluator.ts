@@ -1,33 +1,43 @@
-import { BaseEvaluator } from './base-evaluator';
-import { Test, TestResult, ConversationHistory, RawMetrics } from '../types';
+import { BaseEvaluator, EvaluationContext, Evaluation } from './base-evaluator';
 
 export class CorrectnessEvaluator extends BaseEvaluator {
   readonly metricName = 'correctness';
   readonly description = 'Evaluates if the output correctly solves the problem';
 
-  evaluate(
-    test: Test,
-    result: TestResult,
-    conversation: ConversationHistory,
-    metrics: RawMetrics
-  ): number {
+  async evaluate({ test, result, metrics }: EvaluationContext): Promise<Evaluation> {
+    // Executable post-conditions are the ground truth when a test declares them
+    if (result.assertionResults && result.assertionResults.length > 0) {
+      const failed = result.assertionResults.filter(a => !a.passed);
+      const passed = result.assertionResults.length - failed.length;
+      return {
+        score: this.calculatePercentageScore(passed, result.assertionResults.length),
+        rationale: `${passed}/${result.assertionResults.length} assertions passed`,
+        evidence: failed.map(a => `${a.assertion.type} failed: ${a.output.split('\n')[0]}`),
+        confidence: 1
+      };
+    }
+    
     let score = 10;
+    const evidence: string[] = [];
     
     // Check for errors
     if (metrics.errorsEncountered.length > 0) {
       const unrecoveredErrors = metrics.errorsEncountered.filter(e => !e.recovered);
       score -= unrecoveredErrors.length * 2;
       score -= (metrics.errorsEncountered.length - unrecoveredErrors.length) * 0.5;
+      evidence.push(`${metrics.errorsEncountered.length} errors (${unrecoveredErrors.length} unrecovered)`);
     }
     
     // Check for retry attempts
     if (metrics.retryAttempts > 0) {
       score -= metrics.retryAttempts * 0.5;
+      evidence.push(`${metrics.retryAttempts} retries`);
     }
     
     // Check if response is empty or error message
     if (!result.response || result.response.includes('Test failed:')) {
       score = 0;
+      evidence.push('Empty or failed response');
     }
     
     // Check for expected behavior if defined
@@ -37,9 +47,15 @@ export class CorrectnessEvaluator extends BaseEvaluator {
       const responseKeywords = this.extractKeywords(result.response);
       const matchRate = this.calculateKeywordMatch(keywords, responseKeywords);
       score = Math.min(score, matchRate * 10);
+      evidence.push(`${Math.round(matchRate * 100)}% of expected-behavior keywords in response`);
     }
     
-    return this.normalizeScore(score);
+    return {
+      score: this.normalizeScore(score),
+      rationale: 'Heuristic: errors, retries and keyword overlap with the expected behavior',
+      evidence,
+      confidence: 0.3
+    };
   }
   
   private extractKeywords(text: string): string[] {
@@ -0,0 +1,66 @@
+import { BaseEvaluator, EvaluationContext, Evaluation } from './base-evaluator';
+import { findFailureEpisodes, FailureEpisode } from '../utils/error-recovery';
+import { median } from '../utils/statistics';
+
+const MAX_EVIDENCE = 8;
+
+// Recoveries taking more calls than this start to cost points
+const EXPECTED_STEPS_TO_RECOVER = 2;
+
+/**
+ * Finds episodes where a tool call or command failed and checks whether the
+ * agent later reached the same goal. The score is the recovery rate, less up
+ * to two points when recoveries took many attempts.
+ */
+export class ErrorRecoveryEvaluator extends BaseEvaluator {
+  readonly metricName = 'errorRecovery';
+  readonly description = 'Share of failed tool calls and commands the agent later recovered from, and how quickly';
+
+  async evaluate({ metrics }: EvaluationContext): Promise<Evaluation> {
+    const episodes = findFailureEpisodes(metrics);
+
+    if (episodes.length === 0) {
+      return {
+        score: 10,
+        rationale: 'No tool call or command failed',
+        confidence: metrics.allToolCalls.length > 0 || metrics.commandsExecuted.length > 0 ? 0.6 : 0.2,
+        details: { episodes }
+      };
+    }
+
+    const recovered = episodes.filter(episode => episode.recovered);
+    const injected = episodes.filter(episode => episode.injected);
+    const steps = recovered.map(episode => episode.stepsToRecover!);
+    const times = recovered.filter(episode => episode.recoveryMs !== undefined).map(episode => episode.recoveryMs!);
+    const medianSteps = steps.length > 0 ? median(steps) : 0;
+    const slowPenalty = Math.min(2, Math.max(0, medianSteps - EXPECTED_STEPS_TO_RECOVER) * 0.5);
+
+    return {
+      score: this.normalizeScore((recovered.length / episodes.length) * 10 - slowPenalty),
+      rationale: `Recovered from ${recovered.length} of ${episodes.length} failure(s)` +
+        (injected.length > 0 ? ` (${injected.length} injected, ${injected.filter(e => e.recovered).length} of them recovered)` : '') +
+        (recovered.length > 0 ? `, median ${medianSteps} call(s)` : '') +
+        (times.length > 0 ? ` / ${(median(times) / 1000).toFixed(1)}s to recover` : ''),
+      evidence: episodes.slice(0, MAX_EVIDENCE).map(describeEpisode),
+      confidence: 0.7,
+      details: {
+        episodes,
+        recoveryRate: recovered.length / episodes.length,
+        injectedRecoveryRate: injected.length > 0
+          ? injected.filter(episode => episode.recovered).length / injected.length
+          : undefined,
+        medianStepsToRecover: medianSteps,
+        medianRecoveryMs: times.length > 0 ? median(times) : undefined
+      }
+    };
+  }
+}
+
+function describeEpisode(episode: FailureEpisode): string {
+  const target = episode.target.length > 60 ? `${episode.target.slice(0, 59)}…` : episode.target;
+  const tries = episode.attempts > 1 ? ` (${episode.attempts} failed attempts)` : '';
+  const cause = episode.injected ? `injected ${episode.category}` : episode.category;
+  return episode.recovered
+    ? `${episode.tool} ${target}: ${cause}, recovered after ${episode.stepsToRecover} call(s)${tries}`
+    : `${episode.tool} ${target}: ${cause}, never recovered${tries}`;
+}
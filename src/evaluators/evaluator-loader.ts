@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Evaluator } from './base-evaluator';
+import { SCORE_METRICS } from '../utils/comparison';
+
+export const DEFAULT_CONFIG_FILE = 'claude-test.config.json';
+
+/**
+ * claude-test.config.json:
+ *
+ *   {
+ *     "evaluatorTimeoutMs": 60000,
+ *     "evaluators": [
+ *       "./evaluators/docs-evaluator.js",
+ *       { "module": "claude-test-eslint", "timeoutMs": 120000, "options": { "strict": true } }
+ *     ]
+ *   }
+ *
+ * A module exports (as default or module.exports) an evaluator object, an
+ * evaluator class, a factory function taking `options`, or an array of these.
+ */
+export interface EvaluatorConfig {
+  evaluatorTimeoutMs?: number;
+  evaluators?: (string | EvaluatorModuleEntry)[];
+}
+
+export interface EvaluatorModuleEntry {
+  module: string;             // Relative to the config file, or a package name
+  timeoutMs?: number;
+  options?: any;
+}
+
+export interface LoadedEvaluator {
+  evaluator: Evaluator;
+  timeoutMs?: number;
+  source: string;
+}
+
+/**
+ * Reads the config file. An explicitly named file must exist; the default
+ * one is optional.
+ */
+export function loadEvaluatorConfig(configPath?: string): { config: EvaluatorConfig; baseDir: string } | null {
+  const filePath = path.resolve(configPath || DEFAULT_CONFIG_FILE);
+
+  if (!fs.existsSync(filePath)) {
+    if (configPath) {
+      throw new Error(`Config file not found: ${configPath}`);
+    }
+    return null;
+  }
+
+  let config: EvaluatorConfig;
+  try {
+    config = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid config file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (config.evaluators !== undefined && !Array.isArray(config.evaluators)) {
+    throw new Error(`${filePath}: "evaluators" must be a list of module paths`);
+  }
+
+  return { config, baseDir: path.dirname(filePath) };
+}
+
+export async function loadEvaluatorModules(config: EvaluatorConfig, baseDir: string): Promise<LoadedEvaluator[]> {
+  const loaded: LoadedEvaluator[] = [];
+
+  for (const entry of config.evaluators || []) {
+    const { module, timeoutMs, options } = typeof entry === 'string' ? { module: entry } as EvaluatorModuleEntry : entry;
+    if (typeof module !== 'string' || module.length === 0) {
+      throw new Error(`Evaluator entry must name a module: ${JSON.stringify(entry)}`);
+    }
+
+    const modulePath = module.startsWith('.') || path.isAbsolute(module)
+      ? path.resolve(baseDir, module)
+      : require.resolve(module, { paths: [baseDir] });
+
+    let exported: any;
+    try {
+      exported = require(modulePath);
+    } catch (error) {
+      throw new Error(`Failed to load evaluator module ${module}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const candidates = await instantiate(exported?.default ?? exported, options);
+    if (candidates.length === 0) {
+      throw new Error(`Evaluator module ${module} does not export any evaluators`);
+    }
+
+    candidates.forEach(evaluator => {
+      validateEvaluator(evaluator, module);
+      loaded.push({ evaluator, timeoutMs, source: module });
+    });
+  }
+
+  return loaded;
+}
+
+async function instantiate(exported: any, options: any): Promise<any[]> {
+  if (Array.isArray(exported)) {
+    const nested = await Promise.all(exported.map(item => instantiate(item, options)));
+    return nested.flat();
+  }
+
+  if (typeof exported === 'function') {
+    // Classes have evaluate() on the prototype; anything else is a factory
+    const instance = typeof exported.prototype?.evaluate === 'function'
+      ? new exported(options)
+      : await exported(options);
+    return instantiate(instance, options);
+  }
+
+  return exported && typeof exported === 'object' ? [exported] : [];
+}
+
+function validateEvaluator(evaluator: any, module: string) {
+  if (!SCORE_METRICS.includes(evaluator.metricName)) {
+    throw new Error(`Evaluator from ${module} has unknown metricName "${evaluator.metricName}" (expected one of: ${SCORE_METRICS.join(', ')})`);
+  }
+  if (typeof evaluator.evaluate !== 'function') {
+    throw new Error(`Evaluator for ${evaluator.metricName} from ${module} has no evaluate() function`);
+  }
+  if (typeof evaluator.description !== 'string') {
+    throw new Error(`Evaluator for ${evaluator.metricName} from ${module} needs a description`);
+  }
+}
@@ -1,15 +1,52 @@
-import { BaseEvaluator } from './base-evaluator';
+import { BaseEvaluator, Evaluator, EvaluationContext, Evaluation } from './base-evaluator';
 import { CorrectnessEvaluator } from './correctness-evaluator';
 import { SpeedEvaluator } from './speed-evaluator';
 import { TokenEfficiencyEvaluator } from './token-efficiency-evaluator';
 import { CodeQualityEvaluator } from './code-quality-evaluator';
-import { Test, TestResult, MetricScores, ConversationHistory, RawMetrics } from '../types';
+import { ConsistencyEvaluator } from './consistency-evaluator';
+import { InstructionAdherenceEvaluator } from './instruction-adherence-evaluator';
+import { SecurityEvaluator } from './security-evaluator';
+import { ErrorRecoveryEvaluator } from './error-recovery-evaluator';
+import { JudgeClient, JudgeConfig, JudgeEvaluator, DEFAULT_JUDGE_METRICS } from './judge-evaluator';
+import { LoadedEvaluator } from './evaluator-loader';
+import { Test, TestResult, MetricScores, MetricEvaluation, MetricEvaluations } from '../types';
+
+export const DEFAULT_EVALUATOR_TIMEOUT_MS = 60000;
+
+export interface EvaluatorManagerOptions {
+  timeoutMs?: number;             // Default per-evaluator timeout
+  judge?: JudgeConfig;            // Score some metrics with an LLM judge instead of heuristics
+  evaluators?: LoadedEvaluator[]; // Third-party evaluators from the config file, registered last
+}
+
+export interface EvaluateOptions {
+  claudeMdContent?: string;
+  workspacePath?: string;
+  metrics?: string[];             // Only re-run these; other scores are kept as they are
+}
 
 export class EvaluatorManager {
-  private evaluators: Map<string, BaseEvaluator> = new Map();
+  private evaluators: Map<string, Evaluator> = new Map();
+  private timeouts: Map<string, number> = new Map();
+  
+  private defaultTimeoutMs: number;
   
-  constructor() {
+  constructor(options: EvaluatorManagerOptions = {}) {
+    this.defaultTimeoutMs = options.timeoutMs ?? DEFAULT_EVALUATOR_TIMEOUT_MS;
     this.registerDefaultEvaluators();
+    
+    if (options.judge) {
+      const client = new JudgeClient(options.judge);
+      // Rules without a deterministic check are graded by the judge
+      this.registerEvaluator(new InstructionAdherenceEvaluator({ client, cache: options.judge.cache }));
+      (options.judge.metrics || DEFAULT_JUDGE_METRICS).forEach(metric => {
+        this.registerEvaluator(new JudgeEvaluator(metric, client, options.judge!.cache));
+      });
+    }
+    
+    options.evaluators?.forEach(({ evaluator, timeoutMs }) => {
+      this.registerEvaluator(evaluator, { timeoutMs });
+    });
   }
   
   private registerDefaultEvaluators() {
@@ -17,40 +54,156 @@ export class EvaluatorManager {
     this.registerEvaluator(new SpeedEvaluator());
     this.registerEvaluator(new TokenEfficiencyEvaluator());
     this.registerEvaluator(new CodeQualityEvaluator());
+    this.registerEvaluator(new ConsistencyEvaluator());
+    this.registerEvaluator(new InstructionAdherenceEvaluator());
+    this.registerEvaluator(new SecurityEvaluator());
+    this.registerEvaluator(new ErrorRecoveryEvaluator());
     
     // Add placeholder evaluators for remaining metrics
     this.registerEvaluator(new PlaceholderEvaluator('documentation', 'Quality of explanations and comments'));
-    this.registerEvaluator(new PlaceholderEvaluator('security', 'Security best practices'));
-    this.registerEvaluator(new PlaceholderEvaluator('instructionAdherence', 'Following CLAUDE.md instructions'));
-    this.registerEvaluator(new PlaceholderEvaluator('consistency', 'Consistent behavior across similar prompts'));
-    this.registerEvaluator(new PlaceholderEvaluator('errorRecovery', 'Ability to handle and recover from errors'));
   }
   
-  registerEvaluator(evaluator: BaseEvaluator) {
+  // Replaces any evaluator already registered for the same metric
+  registerEvaluator(evaluator: Evaluator, options: { timeoutMs?: number } = {}) {
     this.evaluators.set(evaluator.metricName, evaluator);
+    
+    const timeoutMs = options.timeoutMs ?? evaluator.timeoutMs;
+    if (timeoutMs !== undefined) {
+      this.timeouts.set(evaluator.metricName, timeoutMs);
+    } else {
+      this.timeouts.delete(evaluator.metricName);
+    }
   }
   
+  /**
+   * Runs every evaluator concurrently. An evaluator that throws or exceeds its
+   * timeout is reported with status 'error' and leaves that score unchanged,
+   * rather than substituting a made-up value.
+   */
   async evaluateAll(
     test: Test,
-    result: TestResult
-  ): Promise<MetricScores> {
-    const scores: any = {};
+    result: TestResult,
+    options: EvaluateOptions = {}
+  ): Promise<{ scores: MetricScores; evaluations: MetricEvaluations }> {
+    const context: EvaluationContext = {
+      test,
+      result,
+      conversation: result.conversation,
+      metrics: result.metricsRaw,
+      claudeMdContent: options.claudeMdContent || '',
+      workspacePath: options.workspacePath
+    };
+    
+    const selected = Array.from(this.evaluators.entries())
+      .filter(([metricName]) => !options.metrics || options.metrics.includes(metricName));
+    
+    const outcomes = await Promise.all(
+      selected.map(async ([metricName, evaluator]) =>
+        [metricName, await this.runEvaluator(metricName, evaluator, context)] as const
+      )
+    );
+    
+    const scores: any = { ...result.scores };
+    const evaluations: MetricEvaluations = { ...result.evaluations };
+    outcomes.forEach(([metricName, evaluation]) => {
+      scores[metricName] = evaluation.score;
+      evaluations[metricName as keyof MetricScores] = evaluation;
+    });
+    
+    return { scores: scores as MetricScores, evaluations };
+  }
+  
+  private async runEvaluator(
+    metricName: string,
+    evaluator: Evaluator,
+    context: EvaluationContext
+  ): Promise<MetricEvaluation> {
+    const startTime = Date.now();
+    const timeoutMs = this.timeouts.get(metricName) ?? this.defaultTimeoutMs;
+    let timeoutId: NodeJS.Timeout | undefined;
+    
+    try {
+      const evaluation: Evaluation = await Promise.race([
+        evaluator.evaluate(context),
+        new Promise<never>((_, reject) => {
+          timeoutId = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+        })
+      ]);
+      
+      if (evaluation?.assessed === false) {
+        return {
+          status: 'not_assessed',
+          score: context.result.scores[metricName as keyof MetricScores],
+          rationale: evaluation.rationale,
+          durationMs: Date.now() - startTime
+        };
+      }
+      
+      if (typeof evaluation?.score !== 'number' || !Number.isFinite(evaluation.score)) {
+        throw new Error(`Evaluator returned an invalid score: ${JSON.stringify(evaluation?.score)}`);
+      }
+      
+      return {
+        status: 'scored',
+        score: Math.min(10, Math.max(0, evaluation.score)),
+        rationale: evaluation.rationale,
+        evidence: evaluation.evidence,
+        confidence: evaluation.confidence,
+        details: evaluation.details,
+        durationMs: Date.now() - startTime
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error evaluating ${metricName} for ${context.test.id}: ${message}`);
+      
+      return {
+        status: 'error',
+        score: context.result.scores[metricName as keyof MetricScores],
+        error: message,
+        durationMs: Date.now() - startTime
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+  
+  /**
+   * Applies cross-trial metrics to every trial of a single test. Currently that
+   * is consistency, which is left untouched when fewer than two trials exist.
+   */
+  evaluateTrials(trials: TestResult[]): void {
+    const evaluator = this.evaluators.get('consistency');
+    if (!(evaluator instanceof ConsistencyEvaluator)) return;
+    
+    const score = evaluator.evaluateTrials(trials);
+    if (score === null) return;
+    
+    trials.forEach(trial => {
+      trial.scores.consistency = score;
+      trial.evaluations = {
+        ...trial.evaluations,
+        consistency: {
+          status: 'scored',
+          score,
+          rationale: `Spread of scores and outcomes across ${trials.length} trials`,
+          confidence: Math.min(1, (trials.length - 1) / 4),
+          durationMs: 0
+        }
+      };
+    });
+  }
+  
+  // Version of the evaluator behind each metric, to tag rescored results with
+  getEvaluatorVersions(metrics?: string[]): Record<string, string> {
+    const versions: Record<string, string> = {};
     
     for (const [metricName, evaluator] of this.evaluators) {
-      try {
-        scores[metricName] = evaluator.evaluate(
-          test,
-          result,
-          result.conversation,
-          result.metricsRaw
-        );
-      } catch (error) {
-        console.error(`Error evaluating ${metricName}:`, error);
-        scores[metricName] = 5; // Default middle score on error
+      if (!metrics || metrics.includes(metricName)) {
+        versions[metricName] = evaluator.version || 'unversioned';
       }
     }
     
-    return scores as MetricScores;
+    return versions;
   }
   
   getEvaluatorDescriptions(): Record<string, string> {
@@ -73,12 +226,7 @@ class PlaceholderEvaluator extends BaseEvaluator {
     super();
   }
   
-  evaluate(
-    test: Test,
-    result: TestResult,
-    conversation: ConversationHistory,
-    metrics: RawMetrics
-  ): number {
+  async evaluate({ result, metrics }: EvaluationContext): Promise<Evaluation> {
     // Basic heuristic scoring
     let score = 7; // Start with decent baseline
     
@@ -94,6 +242,10 @@ class PlaceholderEvaluator extends BaseEvaluator {
       score += 1;
     }
     
-    return this.normalizeScore(score);
+    return {
+      score: this.normalizeScore(score),
+      rationale: 'Placeholder heuristic based on errors and response length',
+      confidence: 0.1
+    };
   }
-}
\ No newline at end of file
+}
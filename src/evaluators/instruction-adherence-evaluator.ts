@@ -0,0 +1,527 @@
+import Anthropic from '@anthropic-ai/sdk';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { BaseEvaluator, EvaluationContext, Evaluation } from './base-evaluator';
+import { JudgeClient, JudgeVerdictCache, section, formatTranscript, formatFileChanges } from './judge-evaluator';
+import { scanFile } from './security-evaluator';
+import { WrittenFile, collectWrittenFiles, isCodeFile, isTypeScriptFile, lineAt } from './workspace-files';
+import { RawMetrics, TestResult } from '../types';
+
+const MAX_LOCATIONS = 5;
+
+// One bullet of the CLAUDE.md under test
+export interface ClaudeMdRule {
+  id: string;                 // `L<line>`, stable while the file is unchanged
+  line: number;
+  section: string;            // Nearest heading above the bullet
+  text: string;
+}
+
+export type RuleStatus = 'followed' | 'violated' | 'not-applicable' | 'unknown';
+
+export interface RuleVerdict {
+  ruleId: string;
+  line: number;
+  section: string;
+  rule: string;
+  status: RuleStatus;
+  method: 'check' | 'judge' | 'none';
+  check?: string;             // Name of the deterministic check that decided it
+  evidence?: string;
+}
+
+// How often one rule was obeyed across a set of results
+export interface RuleCompliance {
+  ruleId: string;
+  line: number;
+  rule: string;
+  followed: number;
+  violated: number;
+  notApplicable: number;
+  unknown: number;
+}
+
+interface CheckInput {
+  files: WrittenFile[];
+  metrics: RawMetrics;
+}
+
+interface CheckOutcome {
+  status: Exclude<RuleStatus, 'unknown'>;
+  evidence: string;
+}
+
+interface RuleCheck {
+  name: string;
+  matches: RegExp;
+  check(input: CheckInput): CheckOutcome | null;   // null: this session gives no way to decide
+}
+
+const RULES_TOOL: Anthropic.Tool = {
+  name: 'record_rule_verdicts',
+  description: 'Record whether the agent followed each CLAUDE.md rule',
+  input_schema: {
+    type: 'object',
+    properties: {
+      verdicts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Rule id as given, e.g. L12' },
+            status: { type: 'string', enum: ['followed', 'violated', 'not-applicable'] },
+            evidence: { type: 'string', description: 'One sentence citing the transcript or files' }
+          },
+          required: ['id', 'status', 'evidence']
+        }
+      }
+    },
+    required: ['verdicts']
+  }
+};
+
+/**
+ * Splits a CLAUDE.md into its bullet and numbered-list items, each tagged
+ * with the heading it sits under. Code blocks are skipped.
+ */
+export function parseClaudeMdRules(content: string): ClaudeMdRule[] {
+  const rules: ClaudeMdRule[] = [];
+  let currentSection = '';
+  let inCodeBlock = false;
+
+  content.split('\n').forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      return;
+    }
+    if (inCodeBlock) return;
+
+    const heading = line.match(/^#{1,6}\s+(.+)$/);
+    if (heading) {
+      currentSection = heading[1].trim();
+      return;
+    }
+
+    const item = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.+)$/);
+    if (!item) return;
+
+    const text = item[1].replace(/\*\*|__|`/g, '').replace(/\s+/g, ' ').trim();
+    if (text.length < 3) return;
+
+    rules.push({ id: `L${index + 1}`, line: index + 1, section: currentSection, text });
+  });
+
+  return rules;
+}
+
+/**
+ * Checks the session against each rule in the CLAUDE.md. Rules that match
+ * one of the built-in checks (tool-call order, patterns in written files,
+ * commands run) are decided deterministically; the rest go to the judge in a
+ * single request when one is configured. The score is the share of
+ * applicable rules that were followed.
+ */
+export class InstructionAdherenceEvaluator extends BaseEvaluator {
+  readonly metricName = 'instructionAdherence';
+  readonly description = 'Checks each CLAUDE.md rule against the session';
+  readonly version: string;
+  readonly timeoutMs?: number;
+
+  constructor(private judge?: { client: JudgeClient; cache?: JudgeVerdictCache }) {
+    super();
+    this.version = judge ? `1.0.0+judge/${judge.client.model}` : '1.0.0';
+    this.timeoutMs = judge ? 120000 : undefined;
+  }
+
+  async evaluate({ test, result, metrics, claudeMdContent, workspacePath }: EvaluationContext): Promise<Evaluation> {
+    const rules = parseClaudeMdRules(claudeMdContent);
+    if (rules.length === 0) {
+      return {
+        score: 10,
+        rationale: 'CLAUDE.md has no list items to check',
+        confidence: 0.2,
+        details: { rules: [] }
+      };
+    }
+
+    const input: CheckInput = { files: collectWrittenFiles(metrics, workspacePath), metrics };
+    const verdicts = rules.map(rule => checkRule(rule, input));
+
+    const undecided = verdicts.filter(verdict => verdict.status === 'unknown');
+    if (undecided.length > 0 && this.judge) {
+      const content = [
+        section('Task prompt', test.prompt),
+        section('Rules', undecided.map(v => `${v.ruleId}: ${v.section ? `[${v.section}] ` : ''}${v.rule}`).join('\n')),
+        section('Transcript', formatTranscript(result.conversation, metrics)),
+        section('File changes', formatFileChanges(metrics, result.workspaceDiff)),
+        section('Final response', result.response)
+      ].join('\n\n');
+      const judged = await this.judgeRules(content);
+
+      undecided.forEach(verdict => {
+        const answer = judged.find(item => item?.id === verdict.ruleId);
+        if (answer && ['followed', 'violated', 'not-applicable'].includes(answer.status)) {
+          verdict.status = answer.status;
+          verdict.method = 'judge';
+          verdict.evidence = String(answer.evidence ?? '').trim();
+        }
+      });
+    }
+
+    const followed = verdicts.filter(v => v.status === 'followed').length;
+    const violated = verdicts.filter(v => v.status === 'violated').length;
+    const unknown = verdicts.filter(v => v.status === 'unknown').length;
+    const byCheck = verdicts.filter(v => v.method === 'check').length;
+    const byJudge = verdicts.filter(v => v.method === 'judge').length;
+
+    if (followed + violated === 0 && unknown > 0) {
+      throw new Error(
+        `None of the ${rules.length} CLAUDE.md rules could be checked for this session` +
+        (this.judge ? '' : '; run with --judge to grade rules without a built-in check')
+      );
+    }
+
+    return {
+      score: this.calculatePercentageScore(followed, followed + violated),
+      rationale: followed + violated === 0
+        ? 'No CLAUDE.md rule applied to this session'
+        : `${followed} of ${followed + violated} applicable CLAUDE.md rules followed ` +
+          `(${byCheck} decided by checks, ${byJudge} by the judge, ${unknown} not assessed)`,
+      evidence: verdicts
+        .filter(v => v.status === 'violated')
+        .map(v => `Line ${v.line} "${v.rule}": ${v.evidence}`),
+      confidence: Math.round(((byCheck + 0.6 * byJudge) / verdicts.length) * 100) / 100,
+      details: { rules: verdicts }
+    };
+  }
+
+  private async judgeRules(content: string): Promise<any[]> {
+    const { client, cache } = this.judge!;
+    const system = [
+      'You are checking whether an AI coding agent obeyed specific rules from the CLAUDE.md it was given.',
+      'For each rule decide "followed", "violated", or "not-applicable" when the session gave no occasion to apply it. Use only the evidence provided.',
+      `Call ${RULES_TOOL.name} with one entry per rule id.`
+    ].join('\n\n');
+
+    const key = crypto.createHash('sha256')
+      .update(JSON.stringify([client.model, this.metricName, RULES_TOOL.name, system, content]))
+      .digest('hex');
+
+    const cached = await cache?.getJudgeVerdict(key);
+    if (cached?.details) {
+      return cached.details.verdicts;
+    }
+
+    const answer = await client.requestToolInput(system, content, RULES_TOOL);
+    if (!Array.isArray(answer?.verdicts)) {
+      throw new Error('Judge returned no rule verdicts');
+    }
+
+    const followed = answer.verdicts.filter((item: any) => item?.status === 'followed').length;
+    const violated = answer.verdicts.filter((item: any) => item?.status === 'violated').length;
+    await cache?.saveJudgeVerdict(key, this.metricName, client.model, {
+      score: this.calculatePercentageScore(followed, followed + violated),
+      rationale: `${answer.verdicts.length} rule verdicts`,
+      details: { verdicts: answer.verdicts }
+    });
+
+    return answer.verdicts;
+  }
+}
+
+/**
+ * Tallies the stored per-rule verdicts of several results, in CLAUDE.md line
+ * order. Results scored before rules were tracked are skipped.
+ */
+export function summarizeRuleCompliance(results: TestResult[]): RuleCompliance[] {
+  const byRule = new Map<string, RuleCompliance>();
+
+  results.forEach(result => {
+    const verdicts: RuleVerdict[] = result.evaluations?.instructionAdherence?.details?.rules || [];
+    verdicts.forEach(verdict => {
+      const key = `${verdict.line}:${verdict.rule}`;
+      const entry = byRule.get(key) || {
+        ruleId: verdict.ruleId,
+        line: verdict.line,
+        rule: verdict.rule,
+        followed: 0,
+        violated: 0,
+        notApplicable: 0,
+        unknown: 0
+      };
+      if (verdict.status === 'followed') entry.followed++;
+      else if (verdict.status === 'violated') entry.violated++;
+      else if (verdict.status === 'not-applicable') entry.notApplicable++;
+      else entry.unknown++;
+      byRule.set(key, entry);
+    });
+  });
+
+  return Array.from(byRule.values()).sort((a, b) => a.line - b.line);
+}
+
+function checkRule(rule: ClaudeMdRule, input: CheckInput): RuleVerdict {
+  const verdict: RuleVerdict = {
+    ruleId: rule.id,
+    line: rule.line,
+    section: rule.section,
+    rule: rule.text,
+    status: 'unknown',
+    method: 'none'
+  };
+
+  const ruleCheck = RULE_CHECKS.find(candidate => candidate.matches.test(rule.text));
+  const outcome = ruleCheck?.check(input);
+  if (ruleCheck && outcome) {
+    verdict.status = outcome.status;
+    verdict.method = 'check';
+    verdict.check = ruleCheck.name;
+    verdict.evidence = outcome.evidence;
+  }
+
+  return verdict;
+}
+
+// First match wins, so more specific patterns come first
+const RULE_CHECKS: RuleCheck[] = [
+  {
+    name: 'read-before-edit',
+    matches: /\bread\b.*\bbefore\b|\bread first\b/i,
+    check: ({ metrics }) => {
+      const read = new Set<string>();
+      const unread = new Set<string>();
+      let edits = 0;
+
+      [...metrics.fileOperations]
+        .filter(op => op.success)
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .forEach(op => {
+          if (op.type === 'read') {
+            read.add(op.path);
+          } else if (op.type === 'edit') {
+            edits++;
+            if (!read.has(op.path)) unread.add(op.path);
+          }
+        });
+
+      if (edits === 0) return { status: 'not-applicable', evidence: 'No existing files were edited' };
+      return unread.size > 0
+        ? { status: 'violated', evidence: `Edited without reading first: ${formatList([...unread].map(p => path.basename(p)))}` }
+        : { status: 'followed', evidence: `All ${edits} edit(s) were preceded by a read of the file` };
+    }
+  },
+  {
+    name: 'typescript-strict',
+    matches: /\bstrict (mode|type[- ]?checking)\b/i,
+    check: ({ files }) => {
+      const suppressions = findMatches(files.filter(f => isTypeScriptFile(f.path)), /@ts-(nocheck|ignore)\b/g);
+      if (suppressions.length > 0) {
+        return { status: 'violated', evidence: `Type checking suppressed at ${formatList(suppressions)}` };
+      }
+
+      const tsconfig = files.find(f => path.basename(f.path) === 'tsconfig.json' && f.complete);
+      if (!tsconfig) return null;
+      const strict = parseJsonLoosely(tsconfig.content)?.compilerOptions?.strict;
+      return strict === true
+        ? { status: 'followed', evidence: `${tsconfig.path} enables "strict"` }
+        : { status: 'violated', evidence: `${tsconfig.path} does not enable "strict"` };
+    }
+  },
+  {
+    name: 'no-any',
+    matches: /\b(avoid|no|never use|don't use|do not use)\s+(the\s+)?['"]?any['"]?(\s+type)?\b/i,
+    check: ({ files }) => {
+      const tsFiles = files.filter(f => isTypeScriptFile(f.path));
+      if (tsFiles.length === 0) return { status: 'not-applicable', evidence: 'No TypeScript files written' };
+      const uses = findMatches(tsFiles, /:\s*any\b|\bas\s+any\b|<any>|\bany\[\]/g);
+      return uses.length > 0
+        ? { status: 'violated', evidence: `'any' used at ${formatList(uses)}` }
+        : { status: 'followed', evidence: `No 'any' in ${tsFiles.length} TypeScript file(s)` };
+    }
+  },
+  {
+    name: 'prefer-interfaces',
+    matches: /\binterfaces? over type/i,
+    check: ({ files }) => {
+      const tsFiles = files.filter(f => isTypeScriptFile(f.path));
+      const aliases = findMatches(tsFiles, /^\s*(?:export\s+)?type\s+\w+(?:<[^>]*>)?\s*=\s*\{/gm);
+      if (aliases.length > 0) {
+        return { status: 'violated', evidence: `Object type alias at ${formatList(aliases)}` };
+      }
+      return findMatches(tsFiles, /\binterface\s+\w+/g).length > 0
+        ? { status: 'followed', evidence: 'Object shapes declared as interfaces' }
+        : { status: 'not-applicable', evidence: 'No object types declared' };
+    }
+  },
+  {
+    name: 'use-typescript',
+    matches: /\b(use|write (code )?in) typescript\b|\btypescript only\b/i,
+    check: ({ files }) => {
+      const code = files.filter(f => isCodeFile(f.path));
+      const javascript = code.filter(f => !isTypeScriptFile(f.path) && !/\.config\.[cm]?js$/.test(f.path));
+      if (javascript.length > 0) {
+        return { status: 'violated', evidence: `JavaScript written: ${formatList(javascript.map(f => f.path))}` };
+      }
+      return code.length > 0
+        ? { status: 'followed', evidence: `${code.length} TypeScript file(s) written` }
+        : { status: 'not-applicable', evidence: 'No code files written' };
+    }
+  },
+  {
+    name: 'write-tests',
+    matches: /\b(write|add|include)\b.*\btests?\b|\btest[- ]driven\b|\btdd\b/i,
+    check: ({ files }) => {
+      const tests = files.filter(f => isTestFile(f.path));
+      const source = files.filter(f => isCodeFile(f.path) && !isTestFile(f.path));
+      if (tests.length > 0) {
+        return { status: 'followed', evidence: `Tests written: ${formatList(tests.map(f => f.path))}` };
+      }
+      return source.length > 0
+        ? { status: 'violated', evidence: `Wrote ${formatList(source.map(f => f.path))} without any test file` }
+        : { status: 'not-applicable', evidence: 'No code files written' };
+    }
+  },
+  {
+    name: 'run-tests',
+    matches: /\brun\b.*\b(tests?|lint(er)?|type[- ]?check)\b/i,
+    check: ({ files, metrics }) => {
+      if (!files.some(f => isCodeFile(f.path))) {
+        return { status: 'not-applicable', evidence: 'No code files changed' };
+      }
+      const ran = metrics.commandsExecuted.find(command =>
+        /\b(npm|yarn|pnpm|bun)\s+(run\s+)?(test|lint|check|typecheck)\b|\b(jest|vitest|mocha|pytest|tsc|eslint)\b|\b(go|cargo) test\b/
+          .test(command.command)
+      );
+      return ran
+        ? { status: 'followed', evidence: `Ran \`${ran.command}\`` }
+        : { status: 'violated', evidence: 'Changed code without running tests, lint or a type-check' };
+    }
+  },
+  {
+    name: 'prefer-const',
+    matches: /\bprefer const\b|\bconst over let\b|\b(avoid|no) var\b/i,
+    check: ({ files }) => {
+      const code = files.filter(f => isCodeFile(f.path));
+      if (code.length === 0) return { status: 'not-applicable', evidence: 'No code files written' };
+      const found = [
+        ...findMatches(code, /\bvar\s+[A-Za-z_$]/g).map(location => `var at ${location}`),
+        ...code.filter(f => f.complete).flatMap(findUnreassignedLets)
+      ];
+      return found.length > 0
+        ? { status: 'violated', evidence: formatList(found) }
+        : { status: 'followed', evidence: `No avoidable let/var in ${code.length} file(s)` };
+    }
+  },
+  {
+    name: 'async-await',
+    matches: /\basync\s*\/\s*await\b|\bprefer async\b/i,
+    check: ({ files }) => {
+      const code = files.filter(f => isCodeFile(f.path));
+      const chains = findMatches(code, /\.then\s*\(/g);
+      if (chains.length > 0) {
+        return { status: 'violated', evidence: `Promise chain at ${formatList(chains)}` };
+      }
+      return findMatches(code, /\bawait\b/g).length > 0
+        ? { status: 'followed', evidence: 'Asynchronous code uses await' }
+        : { status: 'not-applicable', evidence: 'No asynchronous code written' };
+    }
+  },
+  {
+    name: 'no-console',
+    matches: /\bconsole\.log\b|\b(no|avoid) console\b|\bdebug (logs|statements)\b/i,
+    check: ({ files }) => {
+      const code = files.filter(f => isCodeFile(f.path) && !isTestFile(f.path));
+      if (code.length === 0) return { status: 'not-applicable', evidence: 'No code files written' };
+      const logs = findMatches(code, /\bconsole\.log\s*\(/g);
+      return logs.length > 0
+        ? { status: 'violated', evidence: `console.log at ${formatList(logs)}` }
+        : { status: 'followed', evidence: 'No console.log in written code' };
+    }
+  },
+  {
+    name: 'jsdoc',
+    matches: /\bjsdoc\b|\bdoc comments?\b|\bdocstrings?\b/i,
+    check: ({ files }) => {
+      const exported: string[] = [];
+      const undocumented: string[] = [];
+
+      files.filter(f => isCodeFile(f.path) && f.complete).forEach(file => {
+        const lines = file.content.split('\n');
+        lines.forEach((line, index) => {
+          const declaration = line.match(/^export\s+(?:default\s+)?(?:async\s+)?(?:function\*?|class)\s+(\w+)/);
+          if (!declaration) return;
+          exported.push(declaration[1]);
+          const previous = lines.slice(0, index).reverse().find(l => l.trim() !== '');
+          if (!previous?.trim().endsWith('*/')) {
+            undocumented.push(`${declaration[1]} (${file.path}:${index + 1})`);
+          }
+        });
+      });
+
+      if (exported.length === 0) return { status: 'not-applicable', evidence: 'No exported functions or classes written' };
+      return undocumented.length > 0
+        ? { status: 'violated', evidence: `Missing doc comment: ${formatList(undocumented)}` }
+        : { status: 'followed', evidence: `All ${exported.length} exported declaration(s) documented` };
+    }
+  },
+  {
+    name: 'no-secrets',
+    matches: /\bsecrets?\b|\bcredentials?\b|\bapi[\s_-]?keys?\b|\bpasswords?\b/i,
+    check: ({ files }) => {
+      if (files.length === 0) return { status: 'not-applicable', evidence: 'No files written' };
+      const secrets = files
+        .flatMap(scanFile)
+        .filter(finding => finding.rule === 'hardcoded-credential' || finding.rule === 'private-key')
+        .map(finding => `${finding.file}:${finding.line}`);
+      return secrets.length > 0
+        ? { status: 'violated', evidence: `Hard-coded credential at ${formatList(secrets)}` }
+        : { status: 'followed', evidence: `No hard-coded credentials in ${files.length} file(s)` };
+    }
+  }
+];
+
+function findMatches(files: WrittenFile[], pattern: RegExp): string[] {
+  const locations: string[] = [];
+  files.forEach(file => {
+    for (const match of file.content.matchAll(pattern)) {
+      locations.push(`${file.path}:${lineAt(file.content, match.index!)}`);
+    }
+  });
+  return locations;
+}
+
+// `let` bindings with an initializer that are never assigned again
+function findUnreassignedLets(file: WrittenFile): string[] {
+  const found: string[] = [];
+
+  for (const declaration of file.content.matchAll(/\blet\s+([A-Za-z_$][\w$]*)\s*(?::[^=;\n]+)?=(?!=)/g)) {
+    const name = declaration[1].replace(/\$/g, '\\$');
+    const rest = file.content.slice(declaration.index! + declaration[0].length);
+    const reassigned = new RegExp(
+      `(?<![\\w$.])${name}\\s*(?:[-+*/%&|^]|\\*\\*|<<|>>>?|\\?\\?|&&|\\|\\|)?=(?![=>])|(?:\\+\\+|--)${name}\\b|(?<![\\w$.])${name}\\s*(?:\\+\\+|--)`
+    );
+    if (!reassigned.test(rest)) {
+      found.push(`let ${declaration[1]} never reassigned (${file.path}:${lineAt(file.content, declaration.index!)})`);
+    }
+  }
+
+  return found;
+}
+
+function isTestFile(filePath: string): boolean {
+  return /(\.|_)(test|spec)\.[a-z]+$|(^|\/)(__tests__|tests?)\//i.test(filePath);
+}
+
+function parseJsonLoosely(content: string): any {
+  try {
+    return JSON.parse(content.replace(/^\s*\/\/.*$/gm, '').replace(/,(\s*[}\]])/g, '$1'));
+  } catch {
+    return null;
+  }
+}
+
+function formatList(items: string[]): string {
+  return items.length > MAX_LOCATIONS
+    ? `${items.slice(0, MAX_LOCATIONS).join(', ')} and ${items.length - MAX_LOCATIONS} more`
+    : items.join(', ');
+}
@@ -0,0 +1,187 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { JudgeClient, JudgeEvaluator, JudgeVerdict, JudgeVerdictCache } from './judge-evaluator';
+import { EvaluationContext } from './base-evaluator';
+import { EvaluatorManager } from './evaluator-manager';
+import { startMockMessagesServer, MockMessagesServer } from '../mock/messages-server';
+import { parseMockScript } from '../mock/script';
+import { Test, TestResult, WorkspaceDiff } from '../types';
+
+const PATCH = [
+  'diff --git a/src/greet.ts b/src/greet.ts',
+  '--- a/src/greet.ts',
+  '+++ b/src/greet.ts',
+  '@@ -1 +1,2 @@',
+  "-export const greet = () => 'hi';",
+  '+// Greets the user by name',
+  "+export const greet = (name: string) => `hello ${name}`;",
+  ''
+].join('\n');
+
+const script = parseMockScript({
+  sessions: [
+    {
+      match: 'invalid-score',
+      turns: [{ content: [{ type: 'tool_use', name: 'record_score', input: { score: 12, rationale: 'Off the scale' } }] }]
+    },
+    {
+      match: 'text-verdict',
+      turns: [{ content: [{ type: 'text', text: 'Verdict: {"score": 6, "rationale": "Thin comments"}' }] }]
+    },
+    {
+      turns: [{ content: [{ type: 'tool_use', name: 'record_score', input: { score: 8, rationale: 'Clear comment on the change' } }] }]
+    }
+  ]
+});
+
+function context(prompt: string, workspaceDiff?: WorkspaceDiff): EvaluationContext {
+  const test: Test = { id: 'greet', prompt, category: 'basic' };
+  const result: TestResult = {
+    testRunId: 1,
+    testId: test.id,
+    prompt,
+    response: 'Greeting now takes a name.',
+    tokensInput: 10,
+    tokensOutput: 10,
+    responseTimeMs: 1000,
+    scores: {
+      correctness: 10,
+      speed: 8,
+      tokenEfficiency: 8,
+      documentation: 5,
+      codeQuality: 8,
+      security: 10,
+      instructionAdherence: 10,
+      consistency: 7,
+      errorRecovery: 10
+    },
+    conversation: { messages: [], totalDurationMs: 1000, modelConfig: { model: 'claude-mock', temperature: 0, maxTokens: 4096 } },
+    metricsRaw: {
+      allToolCalls: [],
+      fileOperations: [
+        { type: 'write', path: 'src/greet.ts', content: 'export const greet = () => 1;', timestamp: 1, success: true },
+        { type: 'edit', path: 'src/greet.ts', content: "'hello'", timestamp: 2, success: true }
+      ],
+      commandsExecuted: [],
+      errorsEncountered: [],
+      retryAttempts: 0
+    },
+    workspaceDiff
+  };
+  return { test, result, conversation: result.conversation, metrics: result.metricsRaw, claudeMdContent: '- Comment every change' };
+}
+
+class MemoryCache implements JudgeVerdictCache {
+  verdicts = new Map<string, JudgeVerdict>();
+
+  async getJudgeVerdict(key: string) {
+    return this.verdicts.get(key) || null;
+  }
+
+  async saveJudgeVerdict(key: string, _metric: string, _model: string, verdict: JudgeVerdict) {
+    this.verdicts.set(key, verdict);
+  }
+}
+
+describe('JudgeEvaluator against a mock Messages API', () => {
+  let server: MockMessagesServer;
+  let client: JudgeClient;
+
+  before(async () => {
+    server = await startMockMessagesServer(script);
+    client = new JudgeClient({ apiKey: 'mock', baseURL: server.url, model: 'claude-judge-mock' });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('grades one metric with a forced record_score call', async () => {
+    const evaluation = await new JudgeEvaluator('documentation', client).evaluate(context('Greet by name'));
+    const request = server.requests.at(-1);
+
+    assert.deepEqual(evaluation, { score: 8, rationale: 'Clear comment on the change' });
+    assert.equal(request.model, 'claude-judge-mock');
+    assert.equal(request.temperature, 0);
+    assert.deepEqual(request.tool_choice, { type: 'tool', name: 'record_score' });
+    assert.match(request.system, /single metric: documentation/);
+    assert.match(request.messages[0].content, /<CLAUDE.md given to the agent>\n- Comment every change/);
+  });
+
+  it("adds the test's criteria for the judged metric to the rubric", async () => {
+    const criteria = context('Greet by name with criteria');
+    criteria.test.evaluationCriteria = {
+      documentation: 'Must say why greet now takes a name',
+      codeQuality: 'Prefer arrow functions'
+    };
+    await new JudgeEvaluator('documentation', client).evaluate(criteria);
+    const { system } = server.requests.at(-1);
+
+    assert.match(system, /Test-specific criteria: Must say why greet now takes a name/);
+    assert.doesNotMatch(system, /arrow functions/);
+  });
+
+  it('judges the metrics it is configured for', async () => {
+    const manager = new EvaluatorManager({
+      judge: { apiKey: 'mock', baseURL: server.url, model: 'claude-judge-mock', metrics: ['codeQuality'] }
+    });
+    const criteria = context('Greet by name, judged for code quality');
+    criteria.test.evaluationCriteria = { codeQuality: 'Prefer arrow functions' };
+
+    const { scores, evaluations } = await manager.evaluateAll(criteria.test, criteria.result, { metrics: ['codeQuality'] });
+    const { system } = server.requests.at(-1);
+
+    assert.match(system, /single metric: codeQuality/);
+    assert.match(system, /Test-specific criteria: Prefer arrow functions/);
+    assert.equal(scores.codeQuality, 8);
+    assert.equal(evaluations.codeQuality!.rationale, 'Clear comment on the change');
+  });
+
+  it('shows the workspace patch as the file changes', async () => {
+    const diff: WorkspaceDiff = {
+      files: [
+        { path: 'src/greet.ts', status: 'modified', insertions: 2, deletions: 1 },
+        { path: 'logo.png', status: 'added', binary: true, insertions: 0, deletions: 0 }
+      ],
+      patch: PATCH
+    };
+    await new JudgeEvaluator('documentation', client).evaluate(context('Greet by name with a patch', diff));
+    const content: string = server.requests.at(-1).messages[0].content;
+
+    assert.ok(content.includes(`<File changes>\n${PATCH.trimEnd()}\n\n--- logo.png (added, binary)\n</File changes>`));
+    assert.ok(!content.includes('(wrote)'));
+  });
+
+  it('falls back to the write log without a workspace diff', async () => {
+    await new JudgeEvaluator('documentation', client).evaluate(context('Greet by name from the log'));
+    const content: string = server.requests.at(-1).messages[0].content;
+
+    assert.match(content, /--- src\/greet.ts \(wrote\)\nexport const greet = \(\) => 1;/);
+    assert.match(content, /--- src\/greet.ts \(edited \(new text\)\)\n'hello'/);
+  });
+
+  it('reuses cached verdicts for an unchanged session', async () => {
+    const cache = new MemoryCache();
+    const evaluator = new JudgeEvaluator('documentation', client, cache);
+    const before = server.requests.length;
+
+    await evaluator.evaluate(context('Greet by name, cached'));
+    const again = await evaluator.evaluate(context('Greet by name, cached'));
+
+    assert.equal(server.requests.length, before + 1);
+    assert.equal(cache.verdicts.size, 1);
+    assert.equal(again.score, 8);
+  });
+
+  it('reads a JSON verdict answered as text', async () => {
+    const evaluation = await new JudgeEvaluator('documentation', client).evaluate(context('text-verdict'));
+    assert.deepEqual(evaluation, { score: 6, rationale: 'Thin comments' });
+  });
+
+  it('rejects a score outside 0-10', async () => {
+    await assert.rejects(
+      new JudgeEvaluator('documentation', client).evaluate(context('invalid-score')),
+      /Judge returned an invalid score: 12/
+    );
+  });
+});
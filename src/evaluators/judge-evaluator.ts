@@ -0,0 +1,246 @@
+import Anthropic from '@anthropic-ai/sdk';
+import * as crypto from 'crypto';
+import { BaseEvaluator, EvaluationContext, Evaluation } from './base-evaluator';
+import { isReadOnlyOperation } from './workspace-files';
+import { ConversationHistory, RawMetrics, MetricScores, FileOperation, WorkspaceDiff } from '../types';
+
+const MAX_SECTION_LENGTH = 20000;
+const MAX_TOOL_OUTPUT_LENGTH = 500;
+
+export interface JudgeConfig {
+  apiKey: string;
+  model?: string;
+  baseURL?: string;                 // e.g. a local mock of the Messages API
+  maxTokens?: number;
+  metrics?: (keyof MetricScores)[]; // Metrics the judge replaces; defaults to DEFAULT_JUDGE_METRICS
+  cache?: JudgeVerdictCache;
+}
+
+export interface JudgeVerdict {
+  score: number;
+  rationale: string;
+  details?: Record<string, any>;    // Structured answers, e.g. one verdict per CLAUDE.md rule
+}
+
+// Verdicts keyed by a hash of everything the judge was shown, so re-scoring
+// unchanged results never calls the model again
+export interface JudgeVerdictCache {
+  getJudgeVerdict(key: string): Promise<JudgeVerdict | null>;
+  saveJudgeVerdict(key: string, metric: string, model: string, verdict: JudgeVerdict): Promise<void>;
+}
+
+// The metrics that otherwise only have response-length heuristics.
+// instructionAdherence keeps its rule checks and asks the judge only about
+// rules no check covers; security and errorRecovery are computed from the session.
+export const DEFAULT_JUDGE_METRICS: (keyof MetricScores)[] = [
+  'documentation'
+];
+
+const DEFAULT_RUBRICS: Record<keyof MetricScores, string> = {
+  correctness: 'Did the agent fully accomplish the task? 10 = complete and correct, 5 = partially done or with notable bugs, 0 = not attempted or wrong.',
+  speed: 'Did the agent reach the result directly, without needless detours or repeated work? 10 = direct, 0 = mostly wasted effort.',
+  tokenEfficiency: 'Were the responses and tool calls concise for what the task needed? 10 = nothing superfluous, 0 = mostly padding or redundant reads.',
+  documentation: 'Are the explanation to the user and the comments in written code clear, accurate and proportionate? 10 = clear and useful, 5 = thin or partly misleading, 0 = none or wrong.',
+  codeQuality: 'Is the written code idiomatic, readable and robust, with sensible error handling? 10 = production ready, 0 = broken or unmaintainable.',
+  security: 'Did the agent avoid hard-coded secrets, injection risks, unsafe commands and writes outside the project, and fix security issues it was asked about? 10 = no concerns, 0 = introduced or ignored serious vulnerabilities.',
+  instructionAdherence: 'Did the agent follow the instructions in CLAUDE.md (style, process, constraints)? 10 = every applicable instruction followed, 5 = some ignored, 0 = disregarded.',
+  consistency: 'Is the behavior coherent: does the final answer match what was actually done in the transcript? 10 = fully consistent, 0 = contradicts its own actions.',
+  errorRecovery: 'When a tool call or command failed, did the agent notice, diagnose and recover? 10 = every failure handled well (or none occurred), 0 = failures ignored or left broken.'
+};
+
+const VERDICT_TOOL: Anthropic.Tool = {
+  name: 'record_score',
+  description: 'Record the score for the metric being judged',
+  input_schema: {
+    type: 'object',
+    properties: {
+      score: { type: 'number', description: 'Score from 0 to 10' },
+      rationale: { type: 'string', description: 'One or two sentences explaining the score, citing the transcript or files' }
+    },
+    required: ['score', 'rationale']
+  }
+};
+
+export class JudgeClient {
+  private client: Anthropic;
+  readonly model: string;
+  private maxTokens: number;
+
+  constructor(config: JudgeConfig) {
+    this.model = config.model || 'claude-3-5-sonnet-20241022';
+    this.maxTokens = config.maxTokens || 1024;
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL
+    });
+  }
+
+  async requestVerdict(system: string, content: string): Promise<JudgeVerdict> {
+    return parseVerdict(await this.requestToolInput(system, content, VERDICT_TOOL));
+  }
+
+  // Forces the model to answer by calling `tool` and returns the tool input
+  async requestToolInput(system: string, content: string, tool: Anthropic.Tool): Promise<any> {
+    const response = await this.client.messages.create({
+      model: this.model,
+      system,
+      messages: [{ role: 'user', content }],
+      max_tokens: this.maxTokens,
+      temperature: 0,
+      tools: [tool],
+      tool_choice: { type: 'tool', name: tool.name }
+    });
+
+    const toolUse = response.content.find(block => block.type === 'tool_use');
+    if (toolUse) {
+      return (toolUse as any).input;
+    }
+
+    // Endpoints that ignore tool_choice may still answer with the JSON as text
+    const text = response.content.filter(block => block.type === 'text').map(block => (block as any).text).join('');
+    const json = text.match(/\{[\s\S]*\}/);
+    if (!json) {
+      throw new Error(`Judge returned no verdict: ${text.slice(0, 200)}`);
+    }
+    return JSON.parse(json[0]);
+  }
+}
+
+/**
+ * Scores one metric by asking a model to grade the session against a rubric:
+ * the metric's default rubric plus the test's `evaluationCriteria` entry for
+ * that metric, if any.
+ */
+export class JudgeEvaluator extends BaseEvaluator {
+  readonly description: string;
+  readonly version: string;
+  readonly timeoutMs = 120000;
+
+  constructor(
+    public readonly metricName: keyof MetricScores,
+    private client: JudgeClient,
+    private cache?: JudgeVerdictCache
+  ) {
+    super();
+    this.description = `LLM judge (${client.model}): ${DEFAULT_RUBRICS[metricName]}`;
+    this.version = `judge-1.1.0/${client.model}`;
+  }
+
+  async evaluate({ test, result, claudeMdContent }: EvaluationContext): Promise<Evaluation> {
+    const rubric = [
+      DEFAULT_RUBRICS[this.metricName],
+      test.evaluationCriteria?.[this.metricName]
+        ? `Test-specific criteria: ${test.evaluationCriteria[this.metricName]}`
+        : ''
+    ].filter(Boolean).join('\n\n');
+
+    const system = [
+      `You are grading an AI coding agent on a single metric: ${this.metricName}.`,
+      `Rubric:\n${rubric}`,
+      'Judge only this metric, using only the evidence provided. Call record_score with an integer or half-point score from 0 to 10 and a short rationale.'
+    ].join('\n\n');
+
+    const content = [
+      section('Task prompt', test.prompt),
+      test.expectedBehavior ? section('Expected behavior', test.expectedBehavior) : '',
+      section('CLAUDE.md given to the agent', claudeMdContent || '(empty)'),
+      section('Transcript', formatTranscript(result.conversation, result.metricsRaw)),
+      section('File changes', formatFileChanges(result.metricsRaw, result.workspaceDiff)),
+      section('Final response', result.response)
+    ].filter(Boolean).join('\n\n');
+
+    const key = crypto.createHash('sha256')
+      .update(JSON.stringify([this.client.model, this.metricName, system, content]))
+      .digest('hex');
+
+    let verdict = await this.cache?.getJudgeVerdict(key);
+    if (!verdict) {
+      verdict = await this.client.requestVerdict(system, content);
+      await this.cache?.saveJudgeVerdict(key, this.metricName, this.client.model, verdict);
+    }
+
+    return { score: verdict.score, rationale: verdict.rationale };
+  }
+}
+
+function parseVerdict(input: any): JudgeVerdict {
+  const score = Number(input?.score);
+  if (!Number.isFinite(score) || score < 0 || score > 10) {
+    throw new Error(`Judge returned an invalid score: ${JSON.stringify(input?.score)}`);
+  }
+  return {
+    score,
+    rationale: String(input?.rationale ?? '').trim()
+  };
+}
+
+export function section(title: string, body: string): string {
+  return `<${title}>\n${truncateMiddle(body, MAX_SECTION_LENGTH)}\n</${title}>`;
+}
+
+export function formatTranscript(conversation: ConversationHistory, metrics: RawMetrics): string {
+  const lines: string[] = [];
+
+  conversation.messages.forEach(message => {
+    if (message.content) {
+      lines.push(`[${message.role}] ${message.content}`);
+    }
+    message.toolCalls?.forEach(call => {
+      const outcome = call.error
+        ? `ERROR: ${call.error}`
+        : truncateMiddle(typeof call.result === 'string' ? call.result : JSON.stringify(call.result ?? ''), MAX_TOOL_OUTPUT_LENGTH);
+      lines.push(`[tool] ${call.toolName} ${truncateMiddle(JSON.stringify(call.parameters), MAX_TOOL_OUTPUT_LENGTH)}\n  → ${outcome}`);
+    });
+  });
+
+  // CLI sessions report commands separately from the tool calls
+  if (lines.length === 0 && metrics.commandsExecuted.length > 0) {
+    metrics.commandsExecuted.forEach(command => {
+      lines.push(`[command] ${command.command} (exit ${command.exitCode})\n  → ${truncateMiddle(command.output, MAX_TOOL_OUTPUT_LENGTH)}`);
+    });
+  }
+
+  return lines.join('\n') || '(no transcript captured)';
+}
+
+/**
+ * What the agent changed: the workspace's before/after patch when the result
+ * has one, otherwise the log of write operations (which repeats a file once
+ * per edit and misses changes made by shell commands).
+ */
+export function formatFileChanges(metrics: RawMetrics, diff?: WorkspaceDiff): string {
+  if (diff) {
+    if (diff.files.length === 0) return '(no files changed)';
+    const binary = diff.files
+      .filter(file => file.binary)
+      .map(file => `--- ${file.path} (${file.status}, binary)`);
+    return [diff.patch.trimEnd(), ...binary].filter(Boolean).join('\n\n');
+  }
+
+  const changes = metrics.fileOperations.filter(op => !isReadOnlyOperation(op) && op.success);
+  if (changes.length === 0) return '(no files changed)';
+
+  return changes.map(op => {
+    const label = describeChange(op);
+    return op.content !== undefined
+      ? `--- ${op.path} (${label})\n${op.content}`
+      : `--- ${op.path} (${label})`;
+  }).join('\n\n');
+}
+
+function describeChange(op: FileOperation): string {
+  switch (op.type) {
+    case 'write': return 'wrote';
+    case 'edit': return 'edited (new text)';
+    case 'mkdir': return 'created directory';
+    case 'rename': return `moved from ${op.from}`;
+    case 'copy': return `copied from ${op.from}`;
+    default: return 'deleted';
+  }
+}
+
+function truncateMiddle(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const half = Math.floor(maxLength / 2);
+  return `${text.slice(0, half)}\n[... ${text.length - maxLength} chars omitted ...]\n${text.slice(-half)}`;
+}
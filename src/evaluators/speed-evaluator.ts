@@ -1,5 +1,4 @@
-import { BaseEvaluator } from './base-evaluator';
-import { Test, TestResult, ConversationHistory, RawMetrics } from '../types';
+import { BaseEvaluator, EvaluationContext, Evaluation } from './base-evaluator';
 
 export class SpeedEvaluator extends BaseEvaluator {
   readonly metricName = 'speed';
@@ -12,23 +11,19 @@ export class SpeedEvaluator extends BaseEvaluator {
     slow: 20000       // < 20 seconds
   };
 
-  evaluate(
-    test: Test,
-    result: TestResult,
-    conversation: ConversationHistory,
-    metrics: RawMetrics
-  ): number {
+  async evaluate({ result }: EvaluationContext): Promise<Evaluation> {
     const responseTime = result.responseTimeMs;
+    const rationale = `Completed in ${(responseTime / 1000).toFixed(1)}s`;
     
-    if (responseTime <= this.benchmarks.excellent) return 10;
-    if (responseTime <= this.benchmarks.good) return 8;
-    if (responseTime <= this.benchmarks.acceptable) return 6;
-    if (responseTime <= this.benchmarks.slow) return 4;
+    if (responseTime <= this.benchmarks.excellent) return { score: 10, rationale, confidence: 1 };
+    if (responseTime <= this.benchmarks.good) return { score: 8, rationale, confidence: 1 };
+    if (responseTime <= this.benchmarks.acceptable) return { score: 6, rationale, confidence: 1 };
+    if (responseTime <= this.benchmarks.slow) return { score: 4, rationale, confidence: 1 };
     
     // For very slow responses, calculate score based on how much over 20s
     const overSlowBy = responseTime - this.benchmarks.slow;
     const penalty = Math.floor(overSlowBy / 10000); // -1 point per 10 seconds over
     
-    return this.normalizeScore(3 - penalty);
+    return { score: this.normalizeScore(3 - penalty), rationale, confidence: 1 };
   }
 }
\ No newline at end of file
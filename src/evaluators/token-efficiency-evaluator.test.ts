@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EvaluatorManager } from './evaluator-manager';
+import { Test, TestResult } from '../types';
+
+const test: Test = { id: 'greet', prompt: 'Write a greeting', category: 'basic' };
+
+function result(usage: Partial<TestResult>): TestResult {
+  return {
+    testRunId: 1,
+    testId: test.id,
+    prompt: test.prompt,
+    response: 'Done.',
+    tokensInput: 0,
+    tokensOutput: 0,
+    responseTimeMs: 1000,
+    scores: {
+      correctness: 10,
+      speed: 8,
+      tokenEfficiency: 8,
+      documentation: 5,
+      codeQuality: 8,
+      security: 10,
+      instructionAdherence: 10,
+      consistency: 7,
+      errorRecovery: 10
+    },
+    conversation: { messages: [], totalDurationMs: 1000, modelConfig: { model: 'claude-code', temperature: 0, maxTokens: 0 } },
+    metricsRaw: { allToolCalls: [], fileOperations: [], commandsExecuted: [], errorsEncountered: [], retryAttempts: 0 },
+    ...usage
+  };
+}
+
+async function tokenEfficiency(usage: Partial<TestResult>) {
+  const { evaluations } = await new EvaluatorManager().evaluateAll(test, result(usage), { metrics: ['tokenEfficiency'] });
+  return evaluations.tokenEfficiency!;
+}
+
+describe('TokenEfficiencyEvaluator', () => {
+  it('weights cache reads as billed, so a cached system prompt is not a size penalty', async () => {
+    // A short CLI session: most of the context is the CLI's cached system prompt
+    const evaluation = await tokenEfficiency({ tokensInput: 600, tokensCacheRead: 20000, tokensOutput: 900 });
+
+    assert.equal(evaluation.status, 'scored');
+    assert.match(evaluation.rationale!, /^3500 billed-equivalent tokens/);
+    assert.ok(evaluation.evidence!.includes('Total usage score 9'), JSON.stringify(evaluation.evidence));
+  });
+
+  it('tells a long session from a short one with the same cached prompt', async () => {
+    const short = await tokenEfficiency({ tokensInput: 600, tokensCacheRead: 20000, tokensOutput: 900 });
+    const long = await tokenEfficiency({ tokensInput: 9000, tokensCacheRead: 20000, tokensCacheCreation: 4000, tokensOutput: 3000 });
+
+    assert.ok(long.score < short.score, `${long.score} < ${short.score}`);
+  });
+
+  it('does not assess a session that reported no usage', async () => {
+    const evaluation = await tokenEfficiency({ tokensInput: 0, tokensOutput: 0 });
+
+    assert.equal(evaluation.status, 'not_assessed');
+    assert.equal(evaluation.score, 8);
+    assert.doesNotMatch(evaluation.rationale!, /NaN|Infinity/);
+  });
+});
@@ -1,20 +1,29 @@
-import { BaseEvaluator } from './base-evaluator';
-import { Test, TestResult, ConversationHistory, RawMetrics } from '../types';
+import { BaseEvaluator, EvaluationContext, Evaluation } from './base-evaluator';
+import { ConversationHistory } from '../types';
+
+// Cached prompt tokens weighted as they are billed against uncached input.
+// Without this a CLI session's cached system prompt alone would exceed the
+// usage thresholds and every result would get the same penalty.
+const CACHE_WRITE_WEIGHT = 1.25;
+const CACHE_READ_WEIGHT = 0.1;
 
 export class TokenEfficiencyEvaluator extends BaseEvaluator {
   readonly metricName = 'tokenEfficiency';
   readonly description = 'Evaluates token usage optimization';
+  readonly version = '1.1.0';
 
-  evaluate(
-    test: Test,
-    result: TestResult,
-    conversation: ConversationHistory,
-    metrics: RawMetrics
-  ): number {
-    const inputTokens = result.tokensInput;
+  async evaluate({ result, conversation }: EvaluationContext): Promise<Evaluation> {
+    // A session that ended without reporting usage (crash, timeout) records zero
+    if (result.tokensInput + (result.tokensCacheCreation || 0) + (result.tokensCacheRead || 0) === 0) {
+      return { score: result.scores.tokenEfficiency, rationale: 'No token usage was reported', assessed: false };
+    }
+    
+    const inputTokens = result.tokensInput +
+      (result.tokensCacheCreation || 0) * CACHE_WRITE_WEIGHT +
+      (result.tokensCacheRead || 0) * CACHE_READ_WEIGHT;
     const outputTokens = result.tokensOutput;
     const thinkingTokens = result.tokensThinking || 0;
-    const totalTokens = inputTokens + outputTokens + thinkingTokens;
+    const totalTokens = Math.round(inputTokens + outputTokens + thinkingTokens);
     
     // Calculate output/input ratio
     const outputRatio = outputTokens / inputTokens;
@@ -49,7 +58,16 @@ export class TokenEfficiencyEvaluator extends BaseEvaluator {
     // Average the three scores
     const finalScore = (ratioScore + totalScore + wasteScore) / 3;
     
-    return this.normalizeScore(finalScore);
+    return {
+      score: this.normalizeScore(finalScore),
+      rationale: `${totalTokens} billed-equivalent tokens, output/input ratio ${outputRatio.toFixed(2)}, ${duplicateTools} duplicate tool calls`,
+      evidence: [
+        `Ratio score ${ratioScore}`,
+        `Total usage score ${totalScore}`,
+        `Waste score ${wasteScore}`
+      ],
+      confidence: 0.5
+    };
   }
   
   private countDuplicateToolCalls(conversation: ConversationHistory): number {
@@ -0,0 +1,237 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { WrittenFile, isTypeScriptFile } from './workspace-files';
+
+// Beyond these a function counts as complex or long
+export const COMPLEXITY_THRESHOLD = 10;
+export const FUNCTION_LENGTH_THRESHOLD = 50;
+
+// Stands in for the workspace once it has been removed
+const VIRTUAL_ROOT = '/__workspace__';
+
+// Missing dependencies and @types packages say nothing about the agent's code
+const IGNORED_DIAGNOSTICS = new Set([2307, 2792, 7016, 2580, 2581, 2582, 2591, 2592, 2593]);
+
+// Reported as errors once noUnusedLocals/noUnusedParameters are on
+const UNUSED_DIAGNOSTICS = new Set([6133, 6138, 6192, 6196, 6198, 6199, 6205]);
+
+export interface CodeDiagnostic {
+  file: string;
+  line: number;
+  code: number;
+  message: string;
+}
+
+export interface FunctionStats {
+  name: string;
+  file: string;
+  line: number;
+  lines: number;
+  complexity: number;
+}
+
+export interface CodeAnalysis {
+  files: string[];
+  syntaxErrors: CodeDiagnostic[];
+  typeErrors: CodeDiagnostic[];
+  unusedSymbols: CodeDiagnostic[];
+  functions: FunctionStats[];
+  anyUsages: { file: string; line: number }[];
+}
+
+/**
+ * Type-checks the given .ts/.js files with the compiler API and measures each
+ * function. Runs entirely in-process. When the workspace still exists, its
+ * tsconfig.json and the files the agent did not touch are used to resolve
+ * imports; otherwise only the given files are visible.
+ */
+export function analyzeSources(files: WrittenFile[], workspacePath?: string): CodeAnalysis {
+  const root = workspacePath ? path.resolve(workspacePath) : VIRTUAL_ROOT;
+  const sources = new Map(files.map(file => [path.resolve(root, file.path), file]));
+
+  const options: ts.CompilerOptions = {
+    ...readCompilerOptions(root, sources),
+    noEmit: true,
+    allowJs: true,
+    checkJs: false,
+    skipLibCheck: true,
+    noUnusedLocals: true,
+    noUnusedParameters: true
+  };
+
+  const host = ts.createCompilerHost(options, true);
+  const fileExists = host.fileExists.bind(host);
+  const readFile = host.readFile.bind(host);
+  const getSourceFile = host.getSourceFile.bind(host);
+
+  host.fileExists = fileName =>
+    sources.has(path.resolve(fileName)) || ((!!workspacePath || !isUnder(fileName, root)) && fileExists(fileName));
+  host.readFile = fileName => sources.get(path.resolve(fileName))?.content ?? readFile(fileName);
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    const source = sources.get(path.resolve(fileName));
+    return source
+      ? ts.createSourceFile(fileName, source.content, languageVersion, true)
+      : getSourceFile(fileName, languageVersion, onError, shouldCreate);
+  };
+  host.getCurrentDirectory = () => root;
+
+  const program = ts.createProgram(Array.from(sources.keys()), options, host);
+  const analysis: CodeAnalysis = {
+    files: files.map(file => file.path),
+    syntaxErrors: [],
+    typeErrors: [],
+    unusedSymbols: [],
+    functions: [],
+    anyUsages: []
+  };
+
+  for (const [fileName, file] of sources) {
+    const sourceFile = program.getSourceFile(fileName);
+    if (!sourceFile) continue;
+
+    const syntaxErrors = program.getSyntacticDiagnostics(sourceFile).map(diagnostic => toDiagnostic(file.path, diagnostic));
+    analysis.syntaxErrors.push(...syntaxErrors);
+
+    // Type errors in a file that does not parse are just noise
+    if (isTypeScriptFile(file.path) && syntaxErrors.length === 0) {
+      program.getSemanticDiagnostics(sourceFile)
+        .filter(diagnostic => !IGNORED_DIAGNOSTICS.has(diagnostic.code))
+        .forEach(diagnostic => {
+          const target = UNUSED_DIAGNOSTICS.has(diagnostic.code) ? analysis.unusedSymbols : analysis.typeErrors;
+          target.push(toDiagnostic(file.path, diagnostic));
+        });
+    }
+
+    measure(sourceFile, file.path, analysis);
+  }
+
+  return analysis;
+}
+
+function readCompilerOptions(root: string, sources: Map<string, WrittenFile>): ts.CompilerOptions {
+  const defaults: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.CommonJS,
+    moduleResolution: ts.ModuleResolutionKind.Node10,
+    esModuleInterop: true,
+    jsx: ts.JsxEmit.Preserve,
+    strict: true
+  };
+
+  const configPath = path.join(root, 'tsconfig.json');
+  const text = sources.get(configPath)?.content
+    ?? (root !== VIRTUAL_ROOT && fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : undefined);
+  if (text === undefined) return defaults;
+
+  const { config, error } = ts.parseConfigFileTextToJson(configPath, text);
+  if (error || !config) return defaults;
+
+  // Only the compiler options matter; the file list is what the agent wrote
+  const { options } = ts.convertCompilerOptionsFromJson(config.compilerOptions || {}, root);
+  return { ...defaults, ...options };
+}
+
+function measure(sourceFile: ts.SourceFile, filePath: string, analysis: CodeAnalysis) {
+  const visit = (node: ts.Node) => {
+    if (node.kind === ts.SyntaxKind.AnyKeyword) {
+      analysis.anyUsages.push({ file: filePath, line: lineOf(sourceFile, node) });
+    }
+
+    if (isFunctionWithBody(node)) {
+      const start = lineOf(sourceFile, node);
+      const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1;
+      analysis.functions.push({
+        name: functionName(node),
+        file: filePath,
+        line: start,
+        lines: end - start + 1,
+        complexity: cyclomaticComplexity(node.body!)
+      });
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+}
+
+// 1 + decision points, not counting functions nested inside
+function cyclomaticComplexity(body: ts.Node): number {
+  let complexity = 1;
+
+  const visit = (node: ts.Node) => {
+    if (isFunctionWithBody(node)) return;
+
+    switch (node.kind) {
+      case ts.SyntaxKind.IfStatement:
+      case ts.SyntaxKind.ConditionalExpression:
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.CaseClause:
+      case ts.SyntaxKind.CatchClause:
+        complexity++;
+        break;
+      case ts.SyntaxKind.BinaryExpression: {
+        const operator = (node as ts.BinaryExpression).operatorToken.kind;
+        if (operator === ts.SyntaxKind.AmpersandAmpersandToken ||
+            operator === ts.SyntaxKind.BarBarToken ||
+            operator === ts.SyntaxKind.QuestionQuestionToken) {
+          complexity++;
+        }
+        break;
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  ts.forEachChild(body, visit);
+  return complexity;
+}
+
+function isFunctionWithBody(node: ts.Node): node is ts.FunctionLikeDeclaration & { body: ts.Node } {
+  return (ts.isFunctionDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node) ||
+    ts.isConstructorDeclaration(node) ||
+    ts.isGetAccessorDeclaration(node) ||
+    ts.isSetAccessorDeclaration(node)) && !!node.body;
+}
+
+function functionName(node: ts.FunctionLikeDeclaration): string {
+  if (ts.isConstructorDeclaration(node)) return 'constructor';
+  if (node.name && (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name) || ts.isPrivateIdentifier(node.name))) {
+    return node.name.text;
+  }
+  // `const handler = () => ...`
+  if (ts.isVariableDeclaration(node.parent) && ts.isIdentifier(node.parent.name)) {
+    return node.parent.name.text;
+  }
+  return '(anonymous)';
+}
+
+function toDiagnostic(filePath: string, diagnostic: ts.Diagnostic): CodeDiagnostic {
+  const line = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start).line + 1
+    : 0;
+  return {
+    file: filePath,
+    line,
+    code: diagnostic.code,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+  };
+}
+
+function lineOf(sourceFile: ts.SourceFile, node: ts.Node): number {
+  return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+}
+
+function isUnder(fileName: string, root: string): boolean {
+  const relative = path.relative(root, path.resolve(fileName));
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
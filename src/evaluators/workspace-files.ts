@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RawMetrics, FileOperation } from '../types';
+
+const MAX_FILE_SIZE = 1024 * 1024;
+
+const READ_ONLY_OPERATIONS = new Set<FileOperation['type']>(['read', 'stat', 'glob', 'grep']);
+
+export interface WrittenFile {
+  path: string;               // Relative to the workspace when it lies inside it
+  content: string;
+  complete: boolean;          // False when only the edited fragment is known
+}
+
+/**
+ * The files the agent wrote or edited, with their final content. While the
+ * workspace still exists the content is read from disk; afterwards (e.g. when
+ * rescoring) it falls back to what the file operations recorded, which for
+ * edits is only the replacement text.
+ */
+export function collectWrittenFiles(metrics: RawMetrics, workspacePath?: string): WrittenFile[] {
+  const lastOperation = new Map<string, FileOperation>();
+  [...metrics.fileOperations]
+    .filter(op => op.success && !isReadOnlyOperation(op) && op.type !== 'mkdir' && op.path)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(op => {
+      // Whatever was known about a moved file (or a moved directory's files) moves with it
+      if (op.type === 'rename' && op.from) {
+        for (const [filePath, earlier] of [...lastOperation]) {
+          if (filePath !== op.from && !filePath.startsWith(`${op.from}/`)) continue;
+          lastOperation.delete(filePath);
+          const movedPath = op.path + filePath.slice(op.from.length);
+          lastOperation.set(movedPath, { ...earlier, path: movedPath });
+        }
+        if (op.content === undefined) return;
+      }
+      lastOperation.set(op.path, op);
+    });
+
+  const files: WrittenFile[] = [];
+
+  for (const [filePath, op] of lastOperation) {
+    if (op.type === 'delete') continue;
+
+    const onDisk = workspacePath ? readWorkspaceFile(workspacePath, filePath) : null;
+    if (onDisk) {
+      files.push(onDisk);
+    } else if (op.content !== undefined) {
+      files.push({
+        path: displayPath(workspacePath, filePath),
+        content: op.content,
+        complete: op.type === 'write' || op.type === 'rename' || op.type === 'copy'
+      });
+    }
+  }
+
+  return files;
+}
+
+// Operations that only look at files: everything else changed the workspace
+export function isReadOnlyOperation(op: FileOperation): boolean {
+  return READ_ONLY_OPERATIONS.has(op.type);
+}
+
+export function isCodeFile(filePath: string): boolean {
+  return /\.(ts|tsx|js|jsx|mjs|cjs)$/.test(filePath);
+}
+
+export function isTypeScriptFile(filePath: string): boolean {
+  return /\.(ts|tsx)$/.test(filePath) && !filePath.endsWith('.d.ts');
+}
+
+// 1-based line number of a character offset
+export function lineAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length;
+}
+
+function readWorkspaceFile(workspacePath: string, filePath: string): WrittenFile | null {
+  const root = path.resolve(workspacePath);
+  const absolute = path.resolve(root, filePath);
+  const relative = path.relative(root, absolute);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) return null;
+
+  try {
+    const stat = fs.statSync(absolute);
+    if (!stat.isFile() || stat.size > MAX_FILE_SIZE) return null;
+    return { path: relative, content: fs.readFileSync(absolute, 'utf-8'), complete: true };
+  } catch {
+    return null;
+  }
+}
+
+function displayPath(workspacePath: string | undefined, filePath: string): string {
+  if (workspacePath) {
+    const relative = path.relative(path.resolve(workspacePath), path.resolve(workspacePath, filePath));
+    if (!relative.startsWith('..')) return relative;
+  }
+  return filePath.replace(/^\.\//, '');
+}
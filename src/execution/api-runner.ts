@@ -0,0 +1,335 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import Anthropic from '@anthropic-ai/sdk';
+import { ClaudeClient, ClaudeClientConfig, DEFAULT_MODEL, DEFAULT_MAX_TOKENS } from '../api/claude-client';
+import { SandboxOptions } from '../api/sandbox';
+import { VirtualFileSystem } from '../utils/virtual-fs';
+import { Test, TestResult, ConversationHistory, RawMetrics, ErrorEvent } from '../types';
+import { runAssertions } from './assertions';
+import { listFiles } from './fixtures';
+import { isRateLimitMessage } from './claude-code-runner';
+import {
+  RunnerBackend,
+  ExecuteTestOptions,
+  workspacePathFor,
+  prepareWorkspace,
+  removeWorkspace,
+  initialScores,
+  snapshotWorkspace
+} from './runner-backend';
+import { diffWorkspace } from './workspace-diff';
+import { findFailureEpisodes, applyRecovery } from '../utils/error-recovery';
+
+export interface ClaudeApiRunnerConfig {
+  apiKey: string;
+  baseURL?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  sandbox?: SandboxOptions;   // Without it, bash_execute is simulated
+  workspaceDir?: string;
+  timeout?: number;
+}
+
+// One Messages API round trip. Only the messages added since the previous
+// request are kept; the full history can be rebuilt from the exchanges.
+interface RecordedExchange {
+  request: {
+    model: string;
+    temperature?: number;
+    maxTokens: number;
+    newMessages: Anthropic.MessageParam[];
+  };
+  response?: Anthropic.Message;
+  error?: string;
+}
+
+interface ApiRecording {
+  exchanges: RecordedExchange[];
+  durationMs: number;
+}
+
+type SessionResult = Awaited<ReturnType<ClaudeClient['executeWithClaudeFile']>> & {
+  error?: string;
+  rateLimited?: boolean;
+};
+
+/**
+ * The `api` backend: runs ClaudeClient's tool loop against the Messages API,
+ * with the agent's files in a VirtualFileSystem. The workspace still exists
+ * on disk: fixtures are loaded from it before the session and the agent's
+ * changes are written back afterwards, so assertions and evaluators see the
+ * same workspace they would with the CLI.
+ */
+export class ClaudeApiRunner implements RunnerBackend {
+  readonly name = 'api';
+  readonly modelConfig: ConversationHistory['modelConfig'];
+  private config: ClaudeApiRunnerConfig & { workspaceDir: string; timeout: number };
+
+  constructor(config: ClaudeApiRunnerConfig) {
+    this.config = {
+      ...config,
+      workspaceDir: config.workspaceDir || './test-workspaces',
+      timeout: config.timeout || 60000
+    };
+    this.modelConfig = {
+      model: config.model || DEFAULT_MODEL,
+      temperature: config.temperature ?? 0,
+      maxTokens: config.maxTokens || DEFAULT_MAX_TOKENS
+    };
+  }
+
+  async executeTest(
+    claudeMdContent: string,
+    test: Test,
+    testRunId: number,
+    options: ExecuteTestOptions = {}
+  ): Promise<TestResult> {
+    const startTime = Date.now();
+    const workspacePath = workspacePathFor(this.config.workspaceDir, test, testRunId);
+    let client: ClaudeClient | undefined;
+
+    try {
+      const fixtureHash = await prepareWorkspace(workspacePath, claudeMdContent, test);
+      const before = await snapshotWorkspace(workspacePath);
+
+      const replay = options.replay as ApiRecording | undefined;
+      const exchanges: RecordedExchange[] = [];
+
+      // One client per test: it holds the session's files and command history.
+      // Tools run against the VFS even when replaying, so the files come out the same.
+      client = new ClaudeClient({
+        apiKey: this.config.apiKey,
+        baseURL: this.config.baseURL,
+        sandbox: this.config.sandbox,
+        model: this.modelConfig.model,
+        temperature: this.modelConfig.temperature,
+        maxTokens: this.modelConfig.maxTokens,
+        interceptRequest: replay
+          ? replayExchanges(replay.exchanges)
+          : options.record ? recordExchanges(exchanges) : undefined
+      });
+      const vfs = client.getVirtualFS();
+      const initialFiles = await loadWorkspace(workspacePath, vfs);
+
+      const session = await this.runSession(client, claudeMdContent, test, startTime);
+      await syncWorkspace(vfs, workspacePath, initialFiles);
+      const after = await snapshotWorkspace(workspacePath);
+
+      if (replay) {
+        session.duration = replay.durationMs;
+        session.conversation.totalDurationMs = replay.durationMs;
+      } else if (options.record && !session.timedOut && !session.rateLimited) {
+        // A timeout depends on the clock and a rate limit on the moment, so neither would replay faithfully
+        const recording: ApiRecording = { exchanges, durationMs: session.duration };
+        options.record(recording);
+      }
+
+      // Check post-conditions against the final workspace, before cleanup
+      const assertionResults = test.assertions && test.assertions.length > 0
+        ? await runAssertions(workspacePath, test.assertions)
+        : undefined;
+
+      const result: TestResult = {
+        testRunId,
+        testId: test.id,
+        prompt: test.prompt,
+        response: session.response,
+        tokensInput: session.tokensUsed.input,
+        tokensOutput: session.tokensUsed.output,
+        tokensCacheCreation: session.tokensUsed.cacheCreation || 0,
+        tokensCacheRead: session.tokensUsed.cacheRead || 0,
+        fixtureHash,
+        assertionResults,
+        responseTimeMs: session.duration,
+        scores: initialScores(assertionResults, session.duration, !session.error && !session.timedOut),
+        conversation: {
+          ...session.conversation,
+          messages: [{
+            role: 'user',
+            content: test.prompt,
+            timestamp: startTime
+          }, ...session.conversation.messages]
+        },
+        metricsRaw: this.collectMetrics(client, session, workspacePath),
+        workspaceDiff: diffWorkspace(before, after)
+      };
+
+      await options.beforeCleanup?.(result, workspacePath);
+
+      return result;
+
+    } finally {
+      await client?.dispose();
+      await removeWorkspace(workspacePath);
+    }
+  }
+
+  // A failed API request ends the session; it is recorded like a crashed CLI process
+  private async runSession(
+    client: ClaudeClient,
+    claudeMdContent: string,
+    test: Test,
+    startTime: number
+  ): Promise<SessionResult> {
+    try {
+      return await client.executeWithClaudeFile(claudeMdContent, test.prompt, {
+        timeout: test.timeout || this.config.timeout,
+        faults: test.faults
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const status = error instanceof Anthropic.APIError ? error.status : undefined;
+      const duration = Date.now() - startTime;
+      return {
+        response: `Error calling the Messages API: ${message}`,
+        conversation: { messages: [], totalDurationMs: duration, modelConfig: this.modelConfig },
+        tokensUsed: { input: 0, output: 0 },
+        duration,
+        timedOut: false,
+        injectedFaults: [],
+        error: message,
+        rateLimited: status === 429 || status === 529 || isRateLimitMessage(message)
+      };
+    }
+  }
+
+  private collectMetrics(client: ClaudeClient, session: SessionResult, workspacePath: string): RawMetrics {
+    const toolCalls = session.conversation.messages.flatMap(message => message.toolCalls || []);
+    const root = client.getVirtualFS().getRootPath();
+
+    const errorsEncountered: ErrorEvent[] = toolCalls
+      .filter(call => call.error)
+      .map(call => ({
+        type: call.injectedFault !== undefined ? 'injected_fault' : 'tool_error',
+        message: `${call.toolName}: ${call.error}`,
+        timestamp: (call.startedAt ?? 0) + call.executionTimeMs,
+        recovered: false
+      }));
+
+    if (session.error || session.timedOut) {
+      errorsEncountered.push({
+        type: session.rateLimited ? 'rate_limit' : 'execution_error',
+        message: session.error || 'Session timed out',
+        timestamp: Date.now(),
+        recovered: false
+      });
+    }
+
+    const metrics: RawMetrics = {
+      allToolCalls: toolCalls,
+      // Reported against the real workspace, as the CLI's are
+      fileOperations: client.getVirtualFS().getFileOperations().map(op => ({
+        ...op,
+        path: toWorkspacePath(op.path, root, workspacePath),
+        ...(op.from !== undefined ? { from: toWorkspacePath(op.from, root, workspacePath) } : {})
+      })),
+      commandsExecuted: client.getCommandHistory(),
+      errorsEncountered,
+      retryAttempts: 0,
+      injectedFaults: session.injectedFaults.length > 0 ? session.injectedFaults : undefined
+    };
+
+    // Mark which tool errors the agent went on to fix
+    applyRecovery(metrics, findFailureEpisodes(metrics));
+
+    return metrics;
+  }
+}
+
+function recordExchanges(exchanges: RecordedExchange[]): ClaudeClientConfig['interceptRequest'] {
+  let sentMessages = 0;
+
+  return async (params, send) => {
+    const exchange: RecordedExchange = {
+      request: {
+        model: params.model,
+        temperature: params.temperature,
+        maxTokens: params.max_tokens,
+        newMessages: params.messages.slice(sentMessages)
+      }
+    };
+    sentMessages = params.messages.length;
+    exchanges.push(exchange);
+
+    try {
+      exchange.response = await send();
+      return exchange.response;
+    } catch (error) {
+      exchange.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+  };
+}
+
+function replayExchanges(exchanges: RecordedExchange[]): ClaudeClientConfig['interceptRequest'] {
+  let next = 0;
+
+  return async () => {
+    const exchange = exchanges[next++];
+    if (!exchange) {
+      throw new Error(`The recorded session has only ${exchanges.length} request(s)`);
+    }
+    if (exchange.error !== undefined || !exchange.response) {
+      throw new Error(exchange.error || 'Recorded request failed');
+    }
+    return exchange.response;
+  };
+}
+
+// Copies the prepared workspace into the VFS and returns what it started with
+async function loadWorkspace(workspacePath: string, vfs: VirtualFileSystem): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+
+  for (const file of await listFiles(workspacePath)) {
+    const relativePath = path.relative(workspacePath, file).split(path.sep).join('/');
+    const content = await fs.readFile(file, 'utf-8');
+    vfs.seed(relativePath, content);
+    files.set(relativePath, content);
+  }
+
+  return files;
+}
+
+// Writes changed files back to disk and removes deleted ones. Files the agent
+// wrote outside the VFS root never reach the real filesystem.
+async function syncWorkspace(
+  vfs: VirtualFileSystem,
+  workspacePath: string,
+  initialFiles: Map<string, string>
+): Promise<void> {
+  const root = vfs.getRootPath();
+  const remaining = new Set<string>();
+
+  for (const file of vfs.snapshot().values()) {
+    const relativePath = path.posix.relative(root, file.path);
+    if (relativePath.startsWith('..') || path.posix.isAbsolute(relativePath)) continue;
+
+    remaining.add(relativePath);
+    if (initialFiles.get(relativePath) === file.content) continue;
+
+    const target = path.join(workspacePath, relativePath);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, file.content);
+  }
+
+  for (const relativePath of initialFiles.keys()) {
+    if (!remaining.has(relativePath)) {
+      await fs.rm(path.join(workspacePath, relativePath), { force: true });
+    }
+  }
+
+  // Directories the agent created stay, even when empty
+  for (const dir of vfs.snapshotDirectories()) {
+    const relativePath = path.posix.relative(root, dir);
+    if (!relativePath || relativePath.startsWith('..') || path.posix.isAbsolute(relativePath)) continue;
+    await fs.mkdir(path.join(workspacePath, relativePath), { recursive: true });
+  }
+}
+
+function toWorkspacePath(filePath: string, root: string, workspacePath: string): string {
+  const relativePath = path.posix.relative(root, filePath);
+  return relativePath.startsWith('..') || path.posix.isAbsolute(relativePath)
+    ? filePath
+    : path.join(path.resolve(workspacePath), relativePath);
+}
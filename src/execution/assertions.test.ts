@@ -0,0 +1,59 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { runAssertions } from './assertions';
+
+describe('command assertions', () => {
+  let workspace: string;
+
+  before(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-test-assertions-'));
+  });
+
+  after(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  it('does not pass API keys to the command', async () => {
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-secret';
+    try {
+      const [result] = await runAssertions(workspace, [
+        { type: 'command', command: 'test -z "$ANTHROPIC_API_KEY" && test -n "$PATH"' }
+      ]);
+      assert.equal(result.passed, true, result.output);
+    } finally {
+      delete process.env.ANTHROPIC_API_KEY;
+    }
+  });
+
+  it('kills everything the command started when it times out', async () => {
+    const pidFile = path.join(workspace, 'child.pid');
+    const [result] = await runAssertions(workspace, [
+      { type: 'command', command: `sleep 30 & echo $! > ${pidFile}; wait`, timeout: 500 }
+    ]);
+
+    assert.equal(result.passed, false);
+    assert.match(result.output, /TIMEOUT after 500ms/);
+
+    const pid = parseInt(await fs.readFile(pidFile, 'utf-8'), 10);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    assert.equal(await isRunning(pid), false);
+  });
+});
+
+// A killed child whose parent is gone may linger as a zombie until init reaps it
+async function isRunning(pid: number): Promise<boolean> {
+  try {
+    const stat = await fs.readFile(`/proc/${pid}/stat`, 'utf-8');
+    return stat.slice(stat.lastIndexOf(')') + 2, stat.lastIndexOf(')') + 3) !== 'Z';
+  } catch {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import { TestAssertion, AssertionResult } from '../types';
+import { resolveInside } from './fixtures';
+
+const DEFAULT_COMMAND_TIMEOUT = 60000;
+const MAX_OUTPUT_LENGTH = 10000;
+
+// Commands run in a workspace the agent wrote, so they see only what a build
+// needs from the environment and never API keys or other secrets
+const PASSED_ENV_VARS = ['PATH', 'HOME', 'TMPDIR', 'LANG', 'LC_ALL', 'TZ'];
+
+/**
+ * Runs every assertion against the workspace in declaration order. A failing
+ * assertion never stops the rest; each one reports its own pass/fail and output.
+ */
+export async function runAssertions(
+  workspacePath: string,
+  assertions: TestAssertion[]
+): Promise<AssertionResult[]> {
+  const results: AssertionResult[] = [];
+
+  for (const assertion of assertions) {
+    const startTime = Date.now();
+    let outcome: { passed: boolean; output: string };
+
+    try {
+      outcome = await checkAssertion(workspacePath, assertion);
+    } catch (error) {
+      outcome = {
+        passed: false,
+        output: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    results.push({
+      assertion,
+      passed: outcome.passed,
+      output: truncate(outcome.output),
+      durationMs: Date.now() - startTime
+    });
+  }
+
+  return results;
+}
+
+export function describeAssertion(assertion: TestAssertion): string {
+  if (assertion.description) return assertion.description;
+
+  switch (assertion.type) {
+    case 'file-exists':
+      return `${assertion.path} exists`;
+    case 'file-contains':
+      return assertion.matches
+        ? `${assertion.path} matches /${assertion.matches}/${assertion.flags || ''}`
+        : `${assertion.path} contains "${assertion.contains}"`;
+    case 'command':
+      return `\`${assertion.command}\` exits ${assertion.exitCode ?? 0}`;
+    case 'json-path':
+      return assertion.equals === undefined
+        ? `${assertion.path} has ${assertion.query}`
+        : `${assertion.path} ${assertion.query} == ${JSON.stringify(assertion.equals)}`;
+  }
+}
+
+async function checkAssertion(
+  workspacePath: string,
+  assertion: TestAssertion
+): Promise<{ passed: boolean; output: string }> {
+  switch (assertion.type) {
+    case 'file-exists': {
+      const stat = await fs.stat(resolveInside(workspacePath, assertion.path)).catch(() => null);
+      return stat
+        ? { passed: true, output: `${assertion.path} exists (${stat.size} bytes)` }
+        : { passed: false, output: `${assertion.path} does not exist` };
+    }
+
+    case 'file-contains': {
+      const content = await readWorkspaceFile(workspacePath, assertion.path);
+      if (content === null) {
+        return { passed: false, output: `${assertion.path} does not exist` };
+      }
+
+      if (assertion.matches !== undefined) {
+        const match = new RegExp(assertion.matches, assertion.flags).exec(content);
+        return match
+          ? { passed: true, output: `Matched: ${match[0]}` }
+          : { passed: false, output: `No match for /${assertion.matches}/${assertion.flags || ''}` };
+      }
+
+      const found = content.includes(assertion.contains || '');
+      return {
+        passed: found,
+        output: found ? `Found "${assertion.contains}"` : `"${assertion.contains}" not found`
+      };
+    }
+
+    case 'command': {
+      const expected = assertion.exitCode ?? 0;
+      const { exitCode, output } = await runCommand(
+        assertion.command,
+        workspacePath,
+        assertion.timeout || DEFAULT_COMMAND_TIMEOUT
+      );
+      return {
+        passed: exitCode === expected,
+        output: `exit ${exitCode} (expected ${expected})\n${output}`
+      };
+    }
+
+    case 'json-path': {
+      const content = await readWorkspaceFile(workspacePath, assertion.path);
+      if (content === null) {
+        return { passed: false, output: `${assertion.path} does not exist` };
+      }
+
+      const { found, value } = queryJson(JSON.parse(content), assertion.query);
+      if (!found) {
+        return { passed: false, output: `${assertion.query} not found in ${assertion.path}` };
+      }
+      if (assertion.equals === undefined) {
+        return { passed: true, output: `${assertion.query} = ${JSON.stringify(value)}` };
+      }
+
+      const passed = JSON.stringify(value) === JSON.stringify(assertion.equals);
+      return {
+        passed,
+        output: `${assertion.query} = ${JSON.stringify(value)}${passed ? '' : `, expected ${JSON.stringify(assertion.equals)}`}`
+      };
+    }
+  }
+}
+
+/**
+ * Evaluates a small JSONPath subset: `$`, `.key`, `['key']` and `[index]`.
+ */
+export function queryJson(data: any, query: string): { found: boolean; value?: any } {
+  const tokens = query.replace(/^\$/, '').match(/\.[^.[\]]+|\[\d+\]|\[(['"]).*?\1\]/g) || [];
+  const consumed = tokens.join('');
+  if (consumed !== query.replace(/^\$/, '')) {
+    throw new Error(`Unsupported JSON path: ${query}`);
+  }
+
+  let current = data;
+  for (const token of tokens) {
+    const key = token.startsWith('.')
+      ? token.slice(1)
+      : /^\[\d+\]$/.test(token)
+        ? parseInt(token.slice(1, -1), 10)
+        : token.slice(2, -2);
+
+    if (current === null || typeof current !== 'object' || !(key in current)) {
+      return { found: false };
+    }
+    current = current[key as any];
+  }
+
+  return { found: true, value: current };
+}
+
+async function readWorkspaceFile(workspacePath: string, relativePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(resolveInside(workspacePath, relativePath), 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+function runCommand(
+  command: string,
+  cwd: string,
+  timeout: number
+): Promise<{ exitCode: number; output: string }> {
+  return new Promise((resolve) => {
+    const child = spawn('sh', ['-c', command], {
+      cwd,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: true, // Own process group, so the timeout takes its children down too
+      env: assertionEnv()
+    });
+
+    let output = '';
+    const append = (data: Buffer) => {
+      if (output.length < MAX_OUTPUT_LENGTH) {
+        output += data.toString();
+      }
+    };
+    child.stdout?.on('data', append);
+    child.stderr?.on('data', append);
+
+    const timeoutId = setTimeout(() => {
+      killGroup(child.pid);
+      resolve({ exitCode: 124, output: `${output}\n[TIMEOUT after ${timeout}ms]` });
+    }, timeout);
+
+    child.on('close', (code) => {
+      clearTimeout(timeoutId);
+      resolve({ exitCode: code ?? 1, output });
+    });
+
+    child.on('error', (error) => {
+      clearTimeout(timeoutId);
+      resolve({ exitCode: 127, output: error.message });
+    });
+  });
+}
+
+function assertionEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { CI: 'true', TERM: 'dumb' };
+  for (const name of PASSED_ENV_VARS) {
+    if (process.env[name] !== undefined) env[name] = process.env[name];
+  }
+  return env;
+}
+
+// Kills a child spawned with `detached: true` together with everything it started
+export function killGroup(pid: number | undefined) {
+  if (pid === undefined) return;
+  try {
+    process.kill(-pid, 'SIGKILL');
+  } catch {
+    // Already exited
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_OUTPUT_LENGTH
+    ? `${text.slice(0, MAX_OUTPUT_LENGTH)}\n[truncated ${text.length - MAX_OUTPUT_LENGTH} chars]`
+    : text;
+}
@@ -0,0 +1,137 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeRunner } from './claude-code-runner';
+import { Test, TestResult } from '../types';
+
+const MOCK_BIN = path.join(__dirname, '..', 'mock', 'bin');
+
+const script = {
+  sessions: [{
+    turns: [
+      {
+        content: [
+          { type: 'text', text: 'Writing it.' },
+          { type: 'tool_use', name: 'Write', input: { file_path: 'note.txt', content: 'hi\n' } }
+        ]
+      },
+      { delayMs: 400, content: [{ type: 'text', text: 'Done.' }] }
+    ]
+  }]
+};
+
+const test: Test = { id: 'note', prompt: 'Write note.txt', category: 'basic' };
+
+// Gaps between consecutive assistant turns, which replay should reproduce
+function turnGaps(result: TestResult): number[] {
+  const stamps = result.conversation.messages.slice(1).map(message => message.timestamp);
+  return stamps.slice(1).map((stamp, i) => stamp - stamps[i]);
+}
+
+describe('ClaudeCodeRunner replay', () => {
+  let dir: string;
+  let runner: ClaudeCodeRunner;
+  let recording: any;
+  let live: TestResult;
+  const env = { PATH: process.env.PATH, CLAUDE_MOCK_SCRIPT: process.env.CLAUDE_MOCK_SCRIPT };
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-test-replay-'));
+    const scriptPath = path.join(dir, 'script.json');
+    await fs.writeFile(scriptPath, JSON.stringify(script));
+    process.env.PATH = `${MOCK_BIN}${path.delimiter}${env.PATH}`;
+    process.env.CLAUDE_MOCK_SCRIPT = scriptPath;
+
+    runner = new ClaudeCodeRunner({ workspaceDir: path.join(dir, 'workspaces'), timeout: 60000 });
+    live = await runner.executeTest('', test, 1, { record: data => { recording = data; } });
+  });
+
+  after(async () => {
+    process.env.PATH = env.PATH;
+    if (env.CLAUDE_MOCK_SCRIPT === undefined) delete process.env.CLAUDE_MOCK_SCRIPT;
+    else process.env.CLAUDE_MOCK_SCRIPT = env.CLAUDE_MOCK_SCRIPT;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('records when each stdout line arrived', () => {
+    assert.equal(recording.lineOffsetsMs.length, recording.stdout.split('\n').length - 1);
+    assert.ok(turnGaps(live).at(-1)! >= 400, JSON.stringify(turnGaps(live)));
+  });
+
+  it('replays turns and tool calls with their recorded timing', async () => {
+    const replayed = await runner.executeTest('', test, 2, { replay: recording });
+
+    assert.equal(replayed.response, 'Done.');
+    assert.deepEqual(turnGaps(replayed), turnGaps(live));
+    assert.deepEqual(
+      replayed.metricsRaw.allToolCalls.map(call => call.executionTimeMs),
+      live.metricsRaw.allToolCalls.map(call => call.executionTimeMs)
+    );
+    assert.deepEqual(replayed.workspaceDiff!.files.map(f => f.path), ['note.txt']);
+  });
+
+  it('still replays recordings made without line offsets', async () => {
+    const { lineOffsetsMs, ...older } = recording;
+    const replayed = await runner.executeTest('', test, 3, { replay: older });
+
+    assert.equal(replayed.response, 'Done.');
+    assert.equal(replayed.metricsRaw.allToolCalls.length, 1);
+  });
+});
+
+describe('ClaudeCodeRunner timeout', () => {
+  let dir: string;
+  const env = { PATH: process.env.PATH, CLAUDE_MOCK_SCRIPT: process.env.CLAUDE_MOCK_SCRIPT };
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-test-timeout-'));
+    process.env.PATH = `${MOCK_BIN}${path.delimiter}${env.PATH}`;
+  });
+
+  after(async () => {
+    process.env.PATH = env.PATH;
+    if (env.CLAUDE_MOCK_SCRIPT === undefined) delete process.env.CLAUDE_MOCK_SCRIPT;
+    else process.env.CLAUDE_MOCK_SCRIPT = env.CLAUDE_MOCK_SCRIPT;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('ends the session once and kills the tools it started', async () => {
+    const pidFile = path.join(dir, 'child.pid');
+    const scriptPath = path.join(dir, 'script.json');
+    await fs.writeFile(scriptPath, JSON.stringify({
+      sessions: [{
+        turns: [
+          { content: [{ type: 'tool_use', name: 'Bash', input: { command: `sleep 30 > /dev/null 2>&1 & echo $! > ${pidFile}` } }] },
+          { delayMs: 30000, content: [{ type: 'text', text: 'Done.' }] }
+        ]
+      }]
+    }));
+    process.env.CLAUDE_MOCK_SCRIPT = scriptPath;
+
+    const runner = new ClaudeCodeRunner({ workspaceDir: path.join(dir, 'workspaces'), timeout: 5000 });
+    const result = await runner.executeTest('', test, 1);
+
+    assert.match(result.response, /\[TIMEOUT\]$/);
+
+    const pid = parseInt(await fs.readFile(pidFile, 'utf-8'), 10);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    assert.equal(await isRunning(pid), false);
+  });
+});
+
+// A killed child whose parent is gone may linger as a zombie until init reaps it
+async function isRunning(pid: number): Promise<boolean> {
+  try {
+    const stat = await fs.readFile(`/proc/${pid}/stat`, 'utf-8');
+    return stat.slice(stat.lastIndexOf(')') + 2, stat.lastIndexOf(')') + 3) !== 'Z';
+  } catch {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
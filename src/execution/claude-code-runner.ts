@@ -1,144 +1,265 @@
 import { spawn } from 'child_process';
-import * as fs from 'fs/promises';
-import * as path from 'path';
-import { Test, TestResult, ConversationHistory, RawMetrics, MetricScores } from '../types';
+import { Test, TestResult, ConversationHistory, RawMetrics } from '../types';
+import { ClaudeStreamParser, ParsedSession } from './stream-parser';
+import { runAssertions, killGroup } from './assertions';
+import {
+  RunnerBackend,
+  ExecuteTestOptions,
+  workspacePathFor,
+  prepareWorkspace,
+  removeWorkspace,
+  initialScores,
+  snapshotWorkspace,
+  changedFiles,
+  applyChangedFiles
+} from './runner-backend';
+import { diffWorkspace } from './workspace-diff';
+import { findFailureEpisodes, applyRecovery } from '../utils/error-recovery';
 
 export interface ClaudeCodeRunnerConfig {
   workspaceDir?: string;
   timeout?: number;
   useSkipPermissions?: boolean;
+  model?: string;             // Passed to `claude --model`; the CLI's default otherwise
 }
 
-export class ClaudeCodeRunner {
-  private config: Required<ClaudeCodeRunnerConfig>;
+// What the CLI produced for one session, plus the files it left changed
+interface CliRecording {
+  stdout: string;
+  lineOffsetsMs?: number[];   // When each stdout line arrived, from the session start; missing from older recordings
+  output: string;
+  exitCode: number;
+  durationMs: number;
+  error?: string;
+  stderr?: string;            // Missing from recordings made before it was kept
+  files: Record<string, string | null>;
+}
+
+type ExecutionResult = {
+  output: string;
+  exitCode: number;
+  duration: number;
+  error?: string;
+  session: ParsedSession;
+  stdout: string;
+  lineOffsetsMs?: number[];
+  stderr?: string;
+};
+
+// Matches the CLI's reporting of API overload (529) and rate limit (429) errors
+const RATE_LIMIT_PATTERN = /\b(429|529)\b|rate.?limit|overloaded/i;
+
+export function isRateLimitMessage(message?: string): boolean {
+  return !!message && RATE_LIMIT_PATTERN.test(message);
+}
+
+/**
+ * The `cli` backend: drives the real `claude` binary in print mode and
+ * reconstructs the session from its stream-json output.
+ */
+export class ClaudeCodeRunner implements RunnerBackend {
+  readonly name = 'cli';
+  private config: Required<Omit<ClaudeCodeRunnerConfig, 'model'>> & { model?: string };
   
   constructor(config: ClaudeCodeRunnerConfig = {}) {
     this.config = {
       workspaceDir: config.workspaceDir || './test-workspaces',
       timeout: config.timeout || 60000, // 1 minute per test
-      useSkipPermissions: config.useSkipPermissions ?? true
+      useSkipPermissions: config.useSkipPermissions ?? true,
+      model: config.model
     };
   }
 
+  get modelConfig(): ConversationHistory['modelConfig'] {
+    // The CLI does not expose temperature or max tokens
+    return { model: this.config.model || 'claude-code', temperature: 0, maxTokens: 0 };
+  }
+
   async executeTest(
     claudeMdContent: string,
     test: Test,
-    testRunId: number
+    testRunId: number,
+    options: ExecuteTestOptions = {}
   ): Promise<TestResult> {
     const startTime = Date.now();
     
-    // Create isolated workspace
-    const workspaceId = `test-${testRunId}-${test.id}-${Date.now()}`;
-    const workspacePath = path.join(this.config.workspaceDir, workspaceId);
+    if (test.faults && test.faults.length > 0) {
+      console.warn(`Test ${test.id} declares faults, which only the api backend injects; running it without them`);
+    }
+    
+    const workspacePath = workspacePathFor(this.config.workspaceDir, test, testRunId);
     
     try {
-      await fs.mkdir(workspacePath, { recursive: true });
+      const fixtureHash = await prepareWorkspace(workspacePath, claudeMdContent, test);
+      const before = await snapshotWorkspace(workspacePath);
       
-      // Write CLAUDE.md file to workspace
-      const claudeMdPath = path.join(workspacePath, 'CLAUDE.md');
-      await fs.writeFile(claudeMdPath, claudeMdContent);
+      let executionResult: ExecutionResult;
+      if (options.replay) {
+        executionResult = await this.replayClaudeCode(workspacePath, options.replay as CliRecording);
+      } else {
+        // Execute Claude Code
+        executionResult = await this.runClaudeCode(
+          workspacePath,
+          test.prompt,
+          test.timeout || this.config.timeout
+        );
+      }
+      
+      // Taken before assertions, whose commands may leave build output behind
+      const after = await snapshotWorkspace(workspacePath);
+      
+      // A timed-out session was cut short by the clock, not by the agent
+      if (options.record && !options.replay && executionResult.exitCode !== 124) {
+        const recording: CliRecording = {
+          stdout: executionResult.stdout,
+          lineOffsetsMs: executionResult.lineOffsetsMs,
+          output: executionResult.output,
+          exitCode: executionResult.exitCode,
+          durationMs: executionResult.duration,
+          error: executionResult.error,
+          stderr: executionResult.stderr,
+          files: changedFiles(before, after)
+        };
+        options.record(recording);
+      }
       
-      // Execute Claude Code
-      const executionResult = await this.runClaudeCode(
-        workspacePath,
-        test.prompt,
-        test.timeout || this.config.timeout
-      );
+      // Check post-conditions against the final workspace, before cleanup
+      const assertionResults = test.assertions && test.assertions.length > 0
+        ? await runAssertions(workspacePath, test.assertions)
+        : undefined;
       
       // Collect metrics
-      const rawMetrics = await this.collectMetrics(workspacePath, executionResult);
-      
-      // Calculate basic scores (will be enhanced by evaluators)
-      const scores: MetricScores = {
-        correctness: 7, // Will be calculated by evaluators
-        speed: executionResult.duration < 30000 ? 9 : 6,
-        tokenEfficiency: 7, // Estimated
-        documentation: 7,
-        codeQuality: 7,
-        security: 7,
-        instructionAdherence: 7,
-        consistency: 7,
-        errorRecovery: executionResult.exitCode === 0 ? 8 : 4
-      };
+      const rawMetrics = this.collectMetrics(executionResult);
+      
+      // Usage as reported by the CLI's result event. It already includes the
+      // CLI's own system prompt and prompt caching; when the run never produced
+      // a result event (timeout, crash) we record zero rather than guess.
+      const usage = executionResult.session.result?.usage || {};
       
       const result: TestResult = {
         testRunId: testRunId, // Make sure this is explicitly set
         testId: test.id,
         prompt: test.prompt,
         response: executionResult.output,
-        tokensInput: this.estimateTokens(test.prompt + claudeMdContent),
-        tokensOutput: this.estimateTokens(executionResult.output),
+        tokensInput: usage.input_tokens || 0,
+        tokensOutput: usage.output_tokens || 0,
+        tokensCacheCreation: usage.cache_creation_input_tokens || 0,
+        tokensCacheRead: usage.cache_read_input_tokens || 0,
+        costUsd: executionResult.session.result?.totalCostUsd,
+        fixtureHash,
+        assertionResults,
         responseTimeMs: executionResult.duration,
-        scores,
+        scores: initialScores(assertionResults, executionResult.duration, executionResult.exitCode === 0),
         conversation: {
           messages: [{
             role: 'user',
             content: test.prompt,
-            timestamp: startTime,
-            tokens: { input: this.estimateTokens(test.prompt), output: 0 }
-          }, {
-            role: 'assistant', 
-            content: executionResult.output,
-            timestamp: startTime + executionResult.duration,
-            tokens: { input: 0, output: this.estimateTokens(executionResult.output) }
-          }],
+            timestamp: startTime
+          }, ...executionResult.session.messages],
           totalDurationMs: executionResult.duration,
           modelConfig: {
-            model: 'claude-code',
-            temperature: 0,
-            maxTokens: 0
+            ...this.modelConfig,
+            model: executionResult.session.model || this.modelConfig.model
           }
         },
-        metricsRaw: rawMetrics
+        metricsRaw: rawMetrics,
+        stderr: executionResult.stderr || undefined,
+        workspaceDiff: diffWorkspace(before, after)
       };
       
+      await options.beforeCleanup?.(result, workspacePath);
+      
       return result;
       
     } finally {
-      // Cleanup workspace
-      try {
-        await fs.rm(workspacePath, { recursive: true, force: true });
-      } catch (error) {
-        console.warn(`Failed to cleanup workspace ${workspacePath}:`, error);
-      }
+      await removeWorkspace(workspacePath);
+    }
+  }
+
+  // Restores the files the recorded session changed and parses its stream
+  // again, each line at the offset it originally arrived so turn and tool
+  // timings come out as they were recorded
+  private async replayClaudeCode(workspacePath: string, recording: CliRecording): Promise<ExecutionResult> {
+    await applyChangedFiles(workspacePath, recording.files);
+    
+    const replayStart = Date.now();
+    const parser = new ClaudeStreamParser();
+    const offsets = recording.lineOffsetsMs;
+    if (offsets) {
+      const lines = recording.stdout.split('\n');
+      const partial = lines.pop()!;
+      lines.forEach((line, i) => parser.parseLine(line, replayStart + (offsets[i] ?? recording.durationMs)));
+      parser.push(partial);
+    } else {
+      parser.push(recording.stdout);
     }
+    
+    return {
+      output: recording.output,
+      exitCode: recording.exitCode,
+      duration: recording.durationMs,
+      error: recording.error,
+      session: parser.finish(offsets ? replayStart + recording.durationMs : undefined),
+      stdout: recording.stdout,
+      lineOffsetsMs: offsets,
+      stderr: recording.stderr
+    };
   }
 
   private async runClaudeCode(
     workspacePath: string,
     prompt: string,
     timeout: number
-  ): Promise<{
-    output: string;
-    exitCode: number;
-    duration: number;
-    error?: string;
-  }> {
+  ): Promise<ExecutionResult> {
     return new Promise((resolve) => {
       const startTime = Date.now();
+      const parser = new ClaudeStreamParser();
+      let stdout = '';
+      const lineOffsetsMs: number[] = [];
       
-      // Prepare Claude Code command
-      const args = ['--print']; // Use print mode for non-interactive execution
+      // Print mode for non-interactive execution; stream-json (which requires
+      // --verbose) exposes every assistant turn and tool call as it happens
+      const args = ['--print', '--output-format', 'stream-json', '--verbose'];
       
       if (this.config.useSkipPermissions) {
         args.push('--dangerously-skip-permissions');
       }
       
+      if (this.config.model) {
+        args.push('--model', this.config.model);
+      }
+      
       const claudeProcess = spawn('claude', args, {
         cwd: workspacePath, // Claude runs in the workspace directory
         stdio: ['pipe', 'pipe', 'pipe'],
+        detached: true, // Own process group, so a timeout also stops the tools it started
         env: process.env // Inherit environment variables for authentication
       });
       
+      // The first of timeout, exit or spawn error decides the result; the
+      // parser is finished exactly once
+      let settled = false;
+      const settle = (result: () => ExecutionResult) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutId);
+        resolve(result());
+      };
+      
       // Send prompt via stdin instead of as command argument
       claudeProcess.stdin?.write(prompt);
       claudeProcess.stdin?.end();
       
-      let output = '';
       let errorOutput = '';
       
       claudeProcess.stdout?.on('data', (data) => {
-        output += data.toString();
+        const chunk = data.toString();
+        const receivedAt = Date.now();
+        stdout += chunk;
+        for (let i = chunk.indexOf('\n'); i !== -1; i = chunk.indexOf('\n', i + 1)) {
+          lineOffsetsMs.push(receivedAt - startTime);
+        }
+        parser.push(chunk, receivedAt);
       });
       
       claudeProcess.stderr?.on('data', (data) => {
@@ -146,104 +267,84 @@ export class ClaudeCodeRunner {
       });
       
       const timeoutId = setTimeout(() => {
-        claudeProcess.kill('SIGTERM');
-        resolve({
-          output: output + '\n[TIMEOUT]',
-          exitCode: 124, // timeout exit code
-          duration: Date.now() - startTime,
-          error: 'Process timed out'
+        killGroup(claudeProcess.pid);
+        settle(() => {
+          const session = parser.finish();
+          return {
+            output: session.finalText + '\n[TIMEOUT]',
+            exitCode: 124, // timeout exit code
+            duration: Date.now() - startTime,
+            error: 'Process timed out',
+            session,
+            stdout,
+            lineOffsetsMs,
+            stderr: errorOutput
+          };
         });
       }, timeout);
       
       claudeProcess.on('close', (code) => {
-        clearTimeout(timeoutId);
-        resolve({
-          output: output || errorOutput,
-          exitCode: code || 0,
-          duration: Date.now() - startTime,
-          error: errorOutput || undefined
+        settle(() => {
+          const session = parser.finish();
+          const resultError = session.result?.isError ? session.result.result || session.result.subtype : undefined;
+          return {
+            output: session.finalText || errorOutput,
+            exitCode: code || (session.result?.isError ? 1 : 0),
+            duration: Date.now() - startTime,
+            error: errorOutput || resultError || undefined,
+            session,
+            stdout,
+            lineOffsetsMs,
+            stderr: errorOutput
+          };
         });
       });
       
       claudeProcess.on('error', (error) => {
-        clearTimeout(timeoutId);
-        resolve({
+        settle(() => ({
           output: `Error executing claude: ${error.message}`,
           exitCode: 1,
           duration: Date.now() - startTime,
-          error: error.message
-        });
+          error: error.message,
+          session: parser.finish(),
+          stdout,
+          lineOffsetsMs
+        }));
       });
     });
   }
 
-  private async collectMetrics(
-    workspacePath: string,
-    executionResult: any
-  ): Promise<RawMetrics> {
-    const fileOperations: any[] = [];
-    const commandsExecuted: any[] = [];
-    const errorsEncountered: any[] = [];
-    
-    try {
-      // Check what files were created/modified
-      const files = await this.listFilesRecursively(workspacePath);
-      files.forEach(file => {
-        if (!file.endsWith('CLAUDE.md')) {
-          fileOperations.push({
-            type: 'write',
-            path: file,
-            timestamp: Date.now(),
-            success: true
-          });
-        }
-      });
-    } catch (error) {
-      // Ignore errors in file collection
-    }
+  private collectMetrics(executionResult: {
+    exitCode: number;
+    error?: string;
+    session: ParsedSession;
+  }): RawMetrics {
+    const { session } = executionResult;
+    const errorsEncountered = [...session.errorsEncountered];
     
-    // Extract errors from output
+    // Extract errors from the process itself
     if (executionResult.error || executionResult.exitCode !== 0) {
+      const rateLimited = isRateLimitMessage(executionResult.error) ||
+        isRateLimitMessage(session.result?.isError ? session.result.result : undefined);
       errorsEncountered.push({
-        type: 'execution_error',
+        type: rateLimited ? 'rate_limit' : 'execution_error',
         message: executionResult.error || 'Process exited with non-zero code',
         timestamp: Date.now(),
         recovered: false
       });
     }
     
-    return {
-      allToolCalls: [], // Claude Code doesn't expose this
-      fileOperations,
-      commandsExecuted,
+    const metrics: RawMetrics = {
+      allToolCalls: session.toolCalls,
+      fileOperations: session.fileOperations,
+      commandsExecuted: session.commandsExecuted,
       errorsEncountered,
       retryAttempts: 0
     };
-  }
-
-  private async listFilesRecursively(dir: string): Promise<string[]> {
-    const files: string[] = [];
     
-    try {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
-        if (entry.isDirectory()) {
-          files.push(...await this.listFilesRecursively(fullPath));
-        } else {
-          files.push(fullPath);
-        }
-      }
-    } catch (error) {
-      // Ignore errors
-    }
+    // Mark which tool errors the agent went on to fix
+    applyRecovery(metrics, findFailureEpisodes(metrics));
     
-    return files;
-  }
-
-  private estimateTokens(text: string): number {
-    // Rough estimate: ~4 characters per token
-    return Math.ceil(text.length / 4);
+    return metrics;
   }
 }
\ No newline at end of file
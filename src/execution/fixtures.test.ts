@@ -0,0 +1,42 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { applyFixtures } from './fixtures';
+
+describe('applyFixtures', () => {
+  let dir: string;
+  const cwd = process.cwd();
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-test-fixtures-'));
+    await fs.mkdir(path.join(dir, 'fixture', 'src'), { recursive: true });
+    await fs.writeFile(path.join(dir, 'fixture', 'src', 'app.ts'), 'export const port = 80;\n');
+  });
+
+  after(async () => {
+    process.chdir(cwd);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('copies a fixture directory regardless of the working directory', async () => {
+    const workspace = path.join(dir, 'workspace');
+    await fs.mkdir(workspace);
+    process.chdir(os.tmpdir());
+    try {
+      await applyFixtures(workspace, { path: path.join(dir, 'fixture'), files: { 'README.md': '# App\n' } });
+    } finally {
+      process.chdir(cwd);
+    }
+
+    assert.equal(await fs.readFile(path.join(workspace, 'src', 'app.ts'), 'utf-8'), 'export const port = 80;\n');
+    assert.equal(await fs.readFile(path.join(workspace, 'README.md'), 'utf-8'), '# App\n');
+  });
+
+  it('refuses a relative fixture path', async () => {
+    const workspace = path.join(dir, 'relative');
+    await fs.mkdir(workspace);
+    await assert.rejects(applyFixtures(workspace, { path: 'fixture' }), /Fixture path is relative: fixture/);
+  });
+});
@@ -0,0 +1,106 @@
+import { spawn } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TestFixtures } from '../types';
+
+const TARBALL_PATTERN = /\.(tar|tar\.gz|tgz)$/i;
+
+/**
+ * Copies a test's fixtures into the workspace: first the fixture directory or
+ * tarball, then the inline files on top. Returns a hash of the resulting
+ * files so a result can be tied to the exact starting state it ran from.
+ */
+export async function applyFixtures(workspacePath: string, fixtures: TestFixtures): Promise<string> {
+  if (fixtures.path) {
+    // Suites store it absolute; a relative one (stored by an older version)
+    // would depend on where the runner was started
+    if (!path.isAbsolute(fixtures.path)) {
+      throw new Error(`Fixture path is relative: ${fixtures.path}. Add the suite again with 'claude-test suite add' to store it absolute`);
+    }
+    const source = fixtures.path;
+    const stat = await fs.stat(source).catch(() => null);
+
+    if (!stat) {
+      throw new Error(`Fixture not found: ${fixtures.path}`);
+    } else if (stat.isDirectory()) {
+      await fs.cp(source, workspacePath, { recursive: true });
+    } else if (TARBALL_PATTERN.test(source)) {
+      await extractTarball(source, workspacePath);
+    } else {
+      throw new Error(`Fixture must be a directory or a .tar/.tar.gz/.tgz file: ${fixtures.path}`);
+    }
+  }
+
+  for (const [relativePath, content] of Object.entries(fixtures.files || {})) {
+    const target = resolveInside(workspacePath, relativePath);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content);
+  }
+
+  return hashWorkspace(workspacePath);
+}
+
+/**
+ * Content hash of every file under `dir` (relative path + bytes, in sorted
+ * order), so the same files always hash the same regardless of mtime.
+ */
+export async function hashWorkspace(dir: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  const files = (await listFiles(dir)).sort();
+
+  for (const file of files) {
+    hash.update(path.relative(dir, file).split(path.sep).join('/'));
+    hash.update('\0');
+    hash.update(await fs.readFile(file));
+    hash.update('\0');
+  }
+
+  return hash.digest('hex');
+}
+
+// Resolves a fixture-relative path, refusing anything that escapes the workspace
+export function resolveInside(root: string, relativePath: string): string {
+  const resolvedRoot = path.resolve(root);
+  const target = path.resolve(resolvedRoot, relativePath);
+  if (path.isAbsolute(relativePath) || !target.startsWith(resolvedRoot + path.sep)) {
+    throw new Error(`Fixture path must stay inside the workspace: ${relativePath}`);
+  }
+  return target;
+}
+
+export async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(fullPath));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+function extractTarball(tarball: string, destination: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tar = spawn('tar', ['-xf', tarball, '-C', destination], { stdio: ['ignore', 'ignore', 'pipe'] });
+    let stderr = '';
+
+    tar.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    tar.on('error', (error) => reject(new Error(`Failed to run tar: ${error.message}`)));
+    tar.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Failed to extract fixture ${tarball}: ${stderr.trim() || `tar exited with ${code}`}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,130 @@
+import * as crypto from 'crypto';
+import { Test, TestResult, ConversationHistory } from '../types';
+import { RunnerBackend, ExecuteTestOptions, BackendName } from './runner-backend';
+
+export interface RecordedSession {
+  key: string;
+  backend: BackendName;
+  claudeMdHash: string;
+  testId: string;
+  suiteVersion: string;
+  model: string;
+  trialIndex: number;
+  data: unknown;              // The backend's raw session: CLI stream or API exchanges
+  sizeBytes?: number;
+  replayCount?: number;
+  createdAt?: Date;
+  lastUsedAt?: Date;
+}
+
+export interface RecordedSessionStore {
+  getRecordedSession(key: string): Promise<RecordedSession | null>;
+  saveRecordedSession(session: RecordedSession): Promise<void>;
+  markRecordedSessionReplayed(key: string): Promise<void>;
+}
+
+export interface RecordingOptions {
+  replay?: boolean;           // Serve stored sessions; misses run live
+  record?: boolean;           // Store live sessions
+  refresh?: boolean;          // Run live even when a session is stored, and replace it
+}
+
+export interface RecordingStats {
+  replayed: number;
+  recorded: number;
+  live: number;
+}
+
+/**
+ * Wraps a backend so that sessions can be served from, and saved to, a
+ * store. A session is keyed by everything that decides what the agent was
+ * asked and how: the backend, CLAUDE.md content hash, test id, suite version,
+ * model settings and trial index.
+ */
+export class RecordingRunner implements RunnerBackend {
+  private stats: RecordingStats = { replayed: 0, recorded: 0, live: 0 };
+
+  constructor(
+    private inner: RunnerBackend,
+    private store: RecordedSessionStore,
+    private options: RecordingOptions
+  ) {}
+
+  get name(): BackendName {
+    return this.inner.name;
+  }
+
+  get modelConfig(): ConversationHistory['modelConfig'] {
+    return this.inner.modelConfig;
+  }
+
+  getStats(): RecordingStats {
+    return { ...this.stats };
+  }
+
+  async executeTest(
+    claudeMdContent: string,
+    test: Test,
+    testRunId: number,
+    options: ExecuteTestOptions = {}
+  ): Promise<TestResult> {
+    const session: Omit<RecordedSession, 'data'> = {
+      key: '',
+      backend: this.inner.name,
+      claudeMdHash: crypto.createHash('sha256').update(claudeMdContent).digest('hex'),
+      testId: test.id,
+      suiteVersion: options.suiteVersion ?? '',
+      model: this.inner.modelConfig.model,
+      trialIndex: options.trialIndex ?? 0
+    };
+    session.key = recordingKey(session, this.inner.modelConfig);
+
+    if (this.options.replay && !this.options.refresh) {
+      const stored = await this.store.getRecordedSession(session.key);
+      if (stored) {
+        const result = await this.inner.executeTest(claudeMdContent, test, testRunId, { ...options, replay: stored.data });
+        await this.store.markRecordedSessionReplayed(session.key);
+        this.stats.replayed++;
+        return result;
+      }
+    }
+
+    this.stats.live++;
+    if (!this.options.record && !this.options.refresh) {
+      return this.inner.executeTest(claudeMdContent, test, testRunId, options);
+    }
+
+    let recording: unknown;
+    const result = await this.inner.executeTest(claudeMdContent, test, testRunId, {
+      ...options,
+      record: data => {
+        recording = data;
+      }
+    });
+
+    // A rate-limited attempt is about to be retried; only the retry is worth keeping
+    const rateLimited = result.metricsRaw.errorsEncountered.some(e => e.type === 'rate_limit');
+    if (recording !== undefined && !rateLimited) {
+      await this.store.saveRecordedSession({ ...session, data: recording });
+      this.stats.recorded++;
+    }
+
+    return result;
+  }
+}
+
+export function recordingKey(
+  session: Pick<RecordedSession, 'backend' | 'claudeMdHash' | 'testId' | 'suiteVersion' | 'trialIndex'>,
+  modelConfig: ConversationHistory['modelConfig']
+): string {
+  return crypto.createHash('sha256').update(JSON.stringify([
+    session.backend,
+    session.claudeMdHash,
+    session.testId,
+    session.suiteVersion,
+    modelConfig.model,
+    modelConfig.temperature,
+    modelConfig.maxTokens,
+    session.trialIndex
+  ])).digest('hex');
+}
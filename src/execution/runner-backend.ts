@@ -0,0 +1,143 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Test, TestResult, AssertionResult, ConversationHistory, MetricScores } from '../types';
+import { applyFixtures, listFiles } from './fixtures';
+
+export type BackendName = 'cli' | 'api';
+
+export const BACKENDS: BackendName[] = ['cli', 'api'];
+
+export interface ExecuteTestOptions {
+  // Called with the finished result while the workspace still exists
+  beforeCleanup?: (result: TestResult, workspacePath: string) => Promise<void>;
+  // Where the session sits in the run; part of its recording key
+  suiteVersion?: string;
+  trialIndex?: number;
+  // A recording this backend made earlier, served instead of running the agent
+  replay?: unknown;
+  // Receives the raw session once it is over, if it can be replayed later
+  record?: (recording: unknown) => void;
+}
+
+/**
+ * Runs one test against a CLAUDE.md in its own workspace. Every backend
+ * returns the same TestResult shape, so evaluation, storage and comparison
+ * do not depend on how the agent was driven.
+ */
+export interface RunnerBackend {
+  readonly name: BackendName;
+  // Reported on results the backend never produced (e.g. a test that threw)
+  readonly modelConfig: ConversationHistory['modelConfig'];
+
+  executeTest(
+    claudeMdContent: string,
+    test: Test,
+    testRunId: number,
+    options?: ExecuteTestOptions
+  ): Promise<TestResult>;
+}
+
+// Random suffix keeps concurrent workers apart
+export function workspacePathFor(workspaceDir: string, test: Test, testRunId: number): string {
+  const workspaceId = `test-${testRunId}-${test.id}-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+  return path.join(workspaceDir, workspaceId);
+}
+
+/**
+ * Creates the workspace, copies in the test's fixtures and writes CLAUDE.md
+ * last so the file under test always wins. Returns the fixture hash.
+ */
+export async function prepareWorkspace(
+  workspacePath: string,
+  claudeMdContent: string,
+  test: Test
+): Promise<string | undefined> {
+  await fs.mkdir(workspacePath, { recursive: true });
+
+  const fixtureHash = test.fixtures
+    ? await applyFixtures(workspacePath, test.fixtures)
+    : undefined;
+
+  await fs.writeFile(path.join(workspacePath, 'CLAUDE.md'), claudeMdContent);
+
+  return fixtureHash;
+}
+
+export async function removeWorkspace(workspacePath: string): Promise<void> {
+  try {
+    await fs.rm(workspacePath, { recursive: true, force: true });
+  } catch (error) {
+    console.warn(`Failed to cleanup workspace ${workspacePath}:`, error);
+  }
+}
+
+// File contents keyed by workspace-relative path (always with forward slashes)
+export type WorkspaceSnapshot = Map<string, Buffer>;
+
+// Installed dependencies and VCS internals are not part of what the agent wrote
+const UNSNAPSHOTTED_DIRS = new Set(['node_modules', '.git']);
+
+export async function snapshotWorkspace(workspacePath: string): Promise<WorkspaceSnapshot> {
+  const snapshot: WorkspaceSnapshot = new Map();
+  for (const file of await listFiles(workspacePath)) {
+    const relativePath = path.relative(workspacePath, file).split(path.sep).join('/');
+    if (UNSNAPSHOTTED_DIRS.has(relativePath.split('/')[0])) continue;
+    snapshot.set(relativePath, await fs.readFile(file));
+  }
+  return snapshot;
+}
+
+/**
+ * Files that differ between two snapshots, base64-encoded, with `null` for
+ * the ones that were deleted. Replaying these onto `before` gives `after`.
+ */
+export function changedFiles(before: WorkspaceSnapshot, after: WorkspaceSnapshot): Record<string, string | null> {
+  const changes: Record<string, string | null> = {};
+
+  for (const [relativePath, content] of after) {
+    if (!before.get(relativePath)?.equals(content)) {
+      changes[relativePath] = content.toString('base64');
+    }
+  }
+  for (const relativePath of before.keys()) {
+    if (!after.has(relativePath)) {
+      changes[relativePath] = null;
+    }
+  }
+
+  return changes;
+}
+
+export async function applyChangedFiles(workspacePath: string, changes: Record<string, string | null>): Promise<void> {
+  for (const [relativePath, content] of Object.entries(changes)) {
+    const target = path.join(workspacePath, relativePath);
+    if (content === null) {
+      await fs.rm(target, { force: true });
+    } else {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, Buffer.from(content, 'base64'));
+    }
+  }
+}
+
+// Placeholder scores until the evaluators run; correctness comes from assertions when a test has any
+export function initialScores(
+  assertionResults: AssertionResult[] | undefined,
+  durationMs: number,
+  succeeded: boolean
+): MetricScores {
+  return {
+    correctness: assertionResults
+      ? (assertionResults.filter(a => a.passed).length / assertionResults.length) * 10
+      : 7,
+    speed: durationMs < 30000 ? 9 : 6,
+    tokenEfficiency: 7,
+    documentation: 7,
+    codeQuality: 7,
+    security: 7,
+    instructionAdherence: 7,
+    consistency: 7,
+    errorRecovery: succeeded ? 8 : 4
+  };
+}
@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClaudeStreamParser, ParsedSession } from './stream-parser';
+
+const FIXTURES = path.join(__dirname, '__fixtures__', 'streams');
+const START = 1_700_000_000_000;
+
+// Replays a recorded stream one line per second, then finishes a second after the last line
+function parseFixture(name: string): ParsedSession {
+  const raw = fs.readFileSync(path.join(FIXTURES, name), 'utf-8');
+  const parser = new ClaudeStreamParser();
+  const lines = raw.split('\n');
+
+  lines.forEach((line, index) => {
+    const isLast = index === lines.length - 1;
+    parser.push(isLast ? line : `${line}\n`, START + index * 1000);
+  });
+
+  return parser.finish(START + lines.length * 1000);
+}
+
+describe('ClaudeStreamParser', () => {
+  describe('assistant turns split across events', () => {
+    const session = parseFixture('split-turns.jsonl');
+
+    it('reads the model and session from the init event', () => {
+      assert.equal(session.model, 'claude-sonnet-4-20250514');
+      assert.equal(session.sessionId, '5f0c2a9e-1b7d-4c0e-9a51-2f6c1d3e8b40');
+    });
+
+    it('merges events sharing a message id into one turn', () => {
+      assert.equal(session.messages.length, 3);
+
+      const [first, second, third] = session.messages;
+      assert.equal(first.thinking, 'The user wants a greeting module.');
+      assert.equal(first.content, 'Let me look at the existing file first.');
+      assert.deepEqual(first.toolCalls!.map(call => call.toolName), ['Read']);
+      assert.equal(first.timestamp, START + 1000);
+      assert.deepEqual(second.toolCalls!.map(call => call.toolName), ['Edit']);
+      assert.equal(third.content, 'Updated the greeting.');
+    });
+
+    it('keeps the usage of the last event of a turn', () => {
+      assert.deepEqual(session.messages[0].tokens, { input: 4, output: 88, cacheCreation: 1200, cacheRead: 0 });
+    });
+
+    it('derives file operations from Read and Edit', () => {
+      assert.deepEqual(
+        session.fileOperations.map(op => ({ type: op.type, path: op.path, content: op.content, success: op.success })),
+        [
+          { type: 'read', path: '/tmp/ws/greet.ts', content: undefined, success: true },
+          { type: 'edit', path: '/tmp/ws/greet.ts', content: "'hello'", success: true }
+        ]
+      );
+    });
+
+    it('takes the final text and totals from the result event', () => {
+      assert.equal(session.finalText, 'Updated the greeting.');
+      assert.equal(session.result!.numTurns, 5);
+      assert.equal(session.result!.totalCostUsd, 0.0123);
+      assert.equal(session.result!.usage!.output_tokens, 217);
+      assert.deepEqual(session.errorsEncountered, []);
+      assert.deepEqual(session.unparsedLines, []);
+    });
+  });
+
+  describe('tool results matched by id', () => {
+    const session = parseFixture('tool-errors.jsonl');
+    const byName = (name: string) => session.toolCalls.find(call => call.toolName === name)!;
+
+    it('pairs results that arrive out of order with their tool_use', () => {
+      assert.deepEqual(session.toolCalls.map(call => call.toolName), ['Bash', 'Read', 'Write']);
+      assert.equal(byName('Read').result, '<tool_use_error>File does not exist.</tool_use_error>');
+      assert.equal(byName('Bash').result, 'Exit code 1\nnpm ERR! Missing script: "test"');
+      assert.equal(byName('Write').result, 'File created successfully at: /tmp/ws/missing.ts');
+    });
+
+    it('times each call from its tool_use to its result', () => {
+      assert.equal(byName('Bash').startedAt, START + 1000);
+      assert.equal(byName('Bash').executionTimeMs, 3000);
+      assert.equal(byName('Read').executionTimeMs, 1000);
+      assert.equal(byName('Write').executionTimeMs, 1000);
+    });
+
+    it('records is_error results as tool errors', () => {
+      assert.equal(byName('Read').error, '<tool_use_error>File does not exist.</tool_use_error>');
+      assert.equal(byName('Bash').error, 'Exit code 1\nnpm ERR! Missing script: "test"');
+      assert.equal(byName('Write').error, undefined);
+      assert.deepEqual(session.errorsEncountered.map(error => error.message), [
+        'Read: <tool_use_error>File does not exist.</tool_use_error>',
+        'Bash: Exit code 1\nnpm ERR! Missing script: "test"'
+      ]);
+    });
+
+    it('takes the exit code of a failed command from its output', () => {
+      assert.deepEqual(session.commandsExecuted, [{
+        command: 'npm test',
+        output: 'Exit code 1\nnpm ERR! Missing script: "test"',
+        exitCode: 1,
+        timestamp: START + 1000,
+        durationMs: 3000
+      }]);
+    });
+
+    it('marks operations on failed calls unsuccessful', () => {
+      assert.deepEqual(session.fileOperations.map(op => [op.type, op.success]), [['read', false], ['write', true]]);
+    });
+
+    it('ignores results for unknown tool uses', () => {
+      assert.equal(session.toolCalls.length, 3);
+      assert.equal(session.errorsEncountered.length, 2);
+    });
+  });
+
+  describe('a stream cut off before its result', () => {
+    const session = parseFixture('truncated.jsonl');
+
+    it('has no result and falls back to the assistant text', () => {
+      assert.equal(session.result, undefined);
+      assert.equal(session.finalText, 'Starting the dev server.');
+    });
+
+    it('fails tool uses that never got a result', () => {
+      const [call] = session.toolCalls;
+      assert.equal(call.toolName, 'Bash');
+      assert.equal(call.error, 'No tool result received');
+      assert.equal(call.executionTimeMs, 2000);
+      assert.deepEqual(session.errorsEncountered.map(error => error.message), ['Bash: No tool result received']);
+    });
+
+    it('keeps the partial last line as unparsed', () => {
+      assert.equal(session.unparsedLines.length, 1);
+      assert.match(session.unparsedLines[0], /^\{"type":"assistant".*"The ser$/);
+      assert.equal(session.messages.length, 1);
+    });
+  });
+});
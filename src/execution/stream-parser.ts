@@ -0,0 +1,307 @@
+import { Message, ToolCall, FileOperation, CommandExecution, ErrorEvent } from '../types';
+
+// Shape of the final `result` event emitted by `claude --output-format stream-json`
+export interface StreamResultEvent {
+  subtype: string;
+  isError: boolean;
+  result: string;
+  durationMs: number;
+  numTurns: number;
+  sessionId?: string;
+  totalCostUsd?: number;
+  usage?: StreamUsage;
+}
+
+export interface StreamUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+export interface ParsedSession {
+  model?: string;
+  sessionId?: string;
+  messages: Message[];
+  toolCalls: ToolCall[];
+  fileOperations: FileOperation[];
+  commandsExecuted: CommandExecution[];
+  errorsEncountered: ErrorEvent[];
+  result?: StreamResultEvent;
+  finalText: string;
+  unparsedLines: string[];
+}
+
+interface PendingToolUse {
+  call: ToolCall;
+  startedAt: number;
+}
+
+/**
+ * Incrementally parses the newline-delimited JSON stream produced by
+ * `claude --print --output-format stream-json --verbose` into a conversation.
+ *
+ * The CLI emits one `assistant` event per content block, so events sharing a
+ * message id are merged into a single assistant turn. Tool results arrive as
+ * `user` events and are matched back to their tool_use by id.
+ */
+export class ClaudeStreamParser {
+  private buffer = '';
+  private model?: string;
+  private sessionId?: string;
+  private messages: Message[] = [];
+  private messagesById: Map<string, Message> = new Map();
+  private toolCalls: ToolCall[] = [];
+  private pending: Map<string, PendingToolUse> = new Map();
+  private fileOperations: FileOperation[] = [];
+  private commandsExecuted: CommandExecution[] = [];
+  private errorsEncountered: ErrorEvent[] = [];
+  private result?: StreamResultEvent;
+  private unparsedLines: string[] = [];
+
+  // Feed a raw stdout chunk; complete lines are parsed, partial lines buffered
+  push(chunk: string, receivedAt: number = Date.now()): void {
+    this.buffer += chunk;
+    let newlineIndex = this.buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      const line = this.buffer.slice(0, newlineIndex);
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      this.parseLine(line, receivedAt);
+      newlineIndex = this.buffer.indexOf('\n');
+    }
+  }
+
+  parseLine(line: string, receivedAt: number = Date.now()): void {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    let event: any;
+    try {
+      event = JSON.parse(trimmed);
+    } catch {
+      this.unparsedLines.push(trimmed);
+      return;
+    }
+
+    switch (event.type) {
+      case 'system':
+        if (event.subtype === 'init') {
+          this.model = event.model;
+          this.sessionId = event.session_id;
+        }
+        break;
+      case 'assistant':
+        this.handleAssistant(event, receivedAt);
+        break;
+      case 'user':
+        this.handleUser(event, receivedAt);
+        break;
+      case 'result':
+        this.result = {
+          subtype: event.subtype,
+          isError: !!event.is_error,
+          result: typeof event.result === 'string' ? event.result : '',
+          durationMs: event.duration_ms || 0,
+          numTurns: event.num_turns || 0,
+          sessionId: event.session_id,
+          totalCostUsd: event.total_cost_usd ?? event.cost_usd,
+          usage: event.usage
+        };
+        break;
+    }
+  }
+
+  finish(receivedAt: number = Date.now()): ParsedSession {
+    if (this.buffer.trim()) {
+      this.parseLine(this.buffer, receivedAt);
+    }
+    this.buffer = '';
+
+    // Tool uses that never got a result (e.g. the process was killed)
+    for (const [id, pending] of this.pending) {
+      pending.call.error = 'No tool result received';
+      pending.call.executionTimeMs = receivedAt - pending.startedAt;
+      this.recordToolError(pending.call, receivedAt);
+      this.pending.delete(id);
+    }
+
+    const assistantText = this.messages
+      .filter(msg => msg.role === 'assistant' && msg.content)
+      .map(msg => msg.content)
+      .join('\n');
+
+    return {
+      model: this.model,
+      sessionId: this.sessionId,
+      messages: [...this.messages],
+      toolCalls: [...this.toolCalls],
+      fileOperations: [...this.fileOperations],
+      commandsExecuted: [...this.commandsExecuted],
+      errorsEncountered: [...this.errorsEncountered],
+      result: this.result,
+      finalText: this.result?.result || assistantText,
+      unparsedLines: [...this.unparsedLines]
+    };
+  }
+
+  private handleAssistant(event: any, receivedAt: number): void {
+    const apiMessage = event.message || {};
+    const messageId: string | undefined = apiMessage.id;
+
+    let message = messageId ? this.messagesById.get(messageId) : undefined;
+    if (!message) {
+      message = {
+        role: 'assistant',
+        content: '',
+        toolCalls: [],
+        timestamp: receivedAt
+      };
+      this.messages.push(message);
+      if (messageId) {
+        this.messagesById.set(messageId, message);
+      }
+    }
+
+    if (apiMessage.usage) {
+      message.tokens = {
+        input: apiMessage.usage.input_tokens || 0,
+        output: apiMessage.usage.output_tokens || 0,
+        cacheCreation: apiMessage.usage.cache_creation_input_tokens || 0,
+        cacheRead: apiMessage.usage.cache_read_input_tokens || 0
+      };
+    }
+
+    const blocks: any[] = Array.isArray(apiMessage.content) ? apiMessage.content : [];
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'text':
+          message.content = message.content ? `${message.content}\n${block.text}` : block.text;
+          break;
+        case 'thinking':
+          message.thinking = message.thinking ? `${message.thinking}\n${block.thinking}` : block.thinking;
+          break;
+        case 'tool_use': {
+          const call: ToolCall = {
+            toolName: block.name,
+            parameters: block.input,
+            result: undefined,
+            executionTimeMs: 0,
+            startedAt: receivedAt
+          };
+          message.toolCalls!.push(call);
+          this.toolCalls.push(call);
+          this.pending.set(block.id, { call, startedAt: receivedAt });
+          break;
+        }
+      }
+    }
+  }
+
+  private handleUser(event: any, receivedAt: number): void {
+    const blocks: any[] = Array.isArray(event.message?.content) ? event.message.content : [];
+
+    for (const block of blocks) {
+      if (block.type !== 'tool_result') continue;
+
+      const pending = this.pending.get(block.tool_use_id);
+      if (!pending) continue;
+      this.pending.delete(block.tool_use_id);
+
+      const { call, startedAt } = pending;
+      const content = this.toolResultText(block.content);
+      call.result = content;
+      call.executionTimeMs = receivedAt - startedAt;
+      if (block.is_error) {
+        call.error = content || 'Tool reported an error';
+      }
+
+      this.recordSideEffects(call, startedAt);
+      if (call.error) {
+        this.recordToolError(call, receivedAt);
+      }
+    }
+  }
+
+  // Derive file operations and command executions from Claude Code's built-in tools
+  private recordSideEffects(call: ToolCall, timestamp: number): void {
+    const input = call.parameters || {};
+    const success = !call.error;
+
+    switch (call.toolName) {
+      case 'Read':
+        this.fileOperations.push({ type: 'read', path: input.file_path, timestamp, success });
+        break;
+      case 'Write':
+        this.fileOperations.push({
+          type: 'write',
+          path: input.file_path,
+          content: input.content,
+          timestamp,
+          success
+        });
+        break;
+      case 'Edit':
+        this.fileOperations.push({
+          type: 'edit',
+          path: input.file_path,
+          content: input.new_string,
+          timestamp,
+          success
+        });
+        break;
+      case 'MultiEdit':
+        this.fileOperations.push({
+          type: 'edit',
+          path: input.file_path,
+          content: Array.isArray(input.edits) ? input.edits.map((e: any) => e.new_string).join('\n') : undefined,
+          timestamp,
+          success
+        });
+        break;
+      case 'NotebookEdit':
+        this.fileOperations.push({
+          type: 'edit',
+          path: input.notebook_path,
+          content: input.new_source,
+          timestamp,
+          success
+        });
+        break;
+      case 'Bash':
+        this.commandsExecuted.push({
+          command: input.command,
+          output: typeof call.result === 'string' ? call.result : '',
+          exitCode: this.extractExitCode(call),
+          timestamp,
+          durationMs: call.executionTimeMs
+        });
+        break;
+    }
+  }
+
+  private recordToolError(call: ToolCall, timestamp: number): void {
+    this.errorsEncountered.push({
+      type: 'tool_error',
+      message: `${call.toolName}: ${call.error}`,
+      timestamp,
+      recovered: false
+    });
+  }
+
+  private extractExitCode(call: ToolCall): number {
+    if (!call.error) return 0;
+    const match = /exit code[:\s]+(\d+)/i.exec(call.error);
+    return match ? parseInt(match[1], 10) : 1;
+  }
+
+  private toolResultText(content: any): string {
+    if (typeof content === 'string') return content;
+    if (Array.isArray(content)) {
+      return content
+        .filter(part => part && part.type === 'text')
+        .map(part => part.text)
+        .join('\n');
+    }
+    return content === undefined || content === null ? '' : JSON.stringify(content);
+  }
+}
@@ -0,0 +1,62 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import { TestResult } from '../types';
+
+export type KeepWorkspacesPolicy = 'never' | 'failed' | 'always';
+
+export const KEEP_WORKSPACES_POLICIES: KeepWorkspacesPolicy[] = ['never', 'failed', 'always'];
+
+// A failed result is one the summary counts as failed, or one that broke a post-condition
+export function shouldKeepWorkspace(policy: KeepWorkspacesPolicy, result: TestResult): boolean {
+  if (policy === 'always') return true;
+  if (policy === 'never') return false;
+  return result.scores.correctness === 0 || !!result.assertionResults?.some(a => !a.passed);
+}
+
+// The whole workspace as a gzipped tarball, paths relative to its root
+export function archiveWorkspace(workspacePath: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const tar = spawn('tar', ['-czf', '-', '-C', workspacePath, '.'], { stdio: ['ignore', 'pipe', 'pipe'] });
+    const chunks: Buffer[] = [];
+    let stderr = '';
+
+    tar.stdout?.on('data', (data: Buffer) => chunks.push(data));
+    tar.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    tar.on('error', (error) => reject(new Error(`Failed to run tar: ${error.message}`)));
+    tar.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(chunks));
+      } else {
+        reject(new Error(`Failed to archive workspace ${workspacePath}: ${stderr.trim() || `tar exited with ${code}`}`));
+      }
+    });
+  });
+}
+
+// Restores an archive from `archiveWorkspace`, creating the destination if needed
+export async function extractWorkspace(archive: Buffer, destination: string): Promise<void> {
+  await fs.mkdir(destination, { recursive: true });
+
+  return new Promise((resolve, reject) => {
+    const tar = spawn('tar', ['-xzf', '-', '-C', destination], { stdio: ['pipe', 'ignore', 'pipe'] });
+    let stderr = '';
+
+    tar.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    tar.on('error', (error) => reject(new Error(`Failed to run tar: ${error.message}`)));
+    tar.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Failed to extract workspace: ${stderr.trim() || `tar exited with ${code}`}`));
+      }
+    });
+
+    tar.stdin?.end(archive);
+  });
+}
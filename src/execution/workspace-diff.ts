@@ -0,0 +1,74 @@
+import { WorkspaceDiff, WorkspaceFileChange } from '../types';
+import { WorkspaceSnapshot } from './runner-backend';
+import { splitLines, diffLines, unifiedHunks } from '../utils/diff';
+
+// Larger files are reported as changed without a line diff
+const MAX_DIFF_FILE_SIZE = 512 * 1024;
+
+/**
+ * Added, modified and deleted files between two snapshots of a workspace,
+ * with a git-style unified patch that `git apply` accepts in the workspace
+ * the first snapshot was taken of.
+ */
+export function diffWorkspace(before: WorkspaceSnapshot, after: WorkspaceSnapshot): WorkspaceDiff {
+  const paths = [...new Set([...before.keys(), ...after.keys()])].sort();
+  const files: WorkspaceFileChange[] = [];
+  const patches: string[] = [];
+
+  for (const filePath of paths) {
+    const oldContent = before.get(filePath);
+    const newContent = after.get(filePath);
+    if (oldContent && newContent && oldContent.equals(newContent)) continue;
+
+    const status: WorkspaceFileChange['status'] = !oldContent ? 'added' : !newContent ? 'deleted' : 'modified';
+    const header = [
+      `diff --git a/${filePath} b/${filePath}`,
+      ...(status === 'added' ? ['new file mode 100644'] : []),
+      ...(status === 'deleted' ? ['deleted file mode 100644'] : [])
+    ];
+
+    if (!isDiffable(oldContent) || !isDiffable(newContent)) {
+      files.push({ path: filePath, status, binary: true, insertions: 0, deletions: 0 });
+      patches.push([
+        ...header,
+        `Binary files ${oldContent ? `a/${filePath}` : '/dev/null'} and ${newContent ? `b/${filePath}` : '/dev/null'} differ`
+      ].join('\n') + '\n');
+      continue;
+    }
+
+    const oldText = oldContent?.toString('utf-8') ?? '';
+    const newText = newContent?.toString('utf-8') ?? '';
+    const ops = diffLines(splitLines(oldText), splitLines(newText));
+    files.push({
+      path: filePath,
+      status,
+      insertions: ops.filter(op => op.type === 'insert').length,
+      deletions: ops.filter(op => op.type === 'delete').length
+    });
+
+    const hunks = unifiedHunks(ops);
+    patches.push([
+      ...header,
+      ...(hunks ? [
+        `--- ${oldContent ? `a/${filePath}` : '/dev/null'}`,
+        `+++ ${newContent ? `b/${filePath}` : '/dev/null'}`
+      ] : [])
+    ].join('\n') + '\n' + hunks);
+  }
+
+  return { files, patch: patches.join('') };
+}
+
+// One line per file, e.g. "+12 -3  src/index.ts"
+export function summarizeWorkspaceDiff(diff: WorkspaceDiff): string[] {
+  return diff.files.map(file => {
+    const counts = file.binary ? 'binary' : `+${file.insertions} -${file.deletions}`;
+    return `${file.status.padEnd(8)} ${counts.padEnd(12)} ${file.path}`;
+  });
+}
+
+function isDiffable(content: Buffer | undefined): boolean {
+  if (!content) return true;
+  if (content.length > MAX_DIFF_FILE_SIZE || content.includes(0)) return false;
+  return Buffer.from(content.toString('utf-8'), 'utf-8').equals(content);
+}
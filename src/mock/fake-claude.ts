@@ -0,0 +1,234 @@
+import { spawnSync } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  MockUsage,
+  DEFAULT_MOCK_MODEL,
+  loadMockScript,
+  findSession,
+  sessionSteps,
+  responseContent,
+  toApiBlock,
+  errorType,
+  errorMessage,
+  sleep
+} from './script';
+
+// Launched through bin/claude. Speaks enough of `claude --print
+// --output-format stream-json --verbose` for ClaudeCodeRunner: the prompt
+// comes on stdin, the session replays CLAUDE_MOCK_SCRIPT, and the built-in
+// file tools and Bash really run in the working directory.
+
+const BASH_TIMEOUT_MS = 120000;
+
+interface ToolOutcome {
+  content: string;
+  isError: boolean;
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  if (args.includes('--version')) {
+    process.stdout.write('0.0.0-mock (Claude Code)\n');
+    return 0;
+  }
+
+  const scriptPath = process.env.CLAUDE_MOCK_SCRIPT;
+  if (!scriptPath) {
+    process.stderr.write('CLAUDE_MOCK_SCRIPT is not set; point it at a mock script\n');
+    return 1;
+  }
+
+  const script = loadMockScript(scriptPath);
+  const prompt = fs.readFileSync(0, 'utf-8');
+  const session = findSession(script, prompt);
+  if (!session) {
+    process.stderr.write(`No mock session matches the prompt: ${prompt.slice(0, 80)}\n`);
+    return 1;
+  }
+
+  const modelIndex = args.indexOf('--model');
+  const model = (modelIndex !== -1 && args[modelIndex + 1]) || session.model || DEFAULT_MOCK_MODEL;
+  const sessionId = crypto.randomUUID();
+  const startTime = Date.now();
+  const usage: Required<MockUsage> = {
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0
+  };
+  let lastText = '';
+  let numTurns = 0;
+
+  emit({ type: 'system', subtype: 'init', model, session_id: sessionId, cwd: process.cwd() });
+
+  const steps = sessionSteps(session);
+  for (let stepIndex = 0; stepIndex < steps.length; stepIndex++) {
+    const step = steps[stepIndex];
+
+    // The CLI retries an error turn that gives way; one that never does ends the session
+    for (const { turn } of step.errors) {
+      if (turn.delayMs) await sleep(turn.delayMs);
+      if (turn.times === undefined) {
+        const error = turn.error!;
+        const body = JSON.stringify({ type: 'error', error: { type: errorType(error), message: errorMessage(error) } });
+        emitResult({
+          subtype: 'success',
+          isError: true,
+          result: `API Error: ${error.status} ${body}`,
+          startTime,
+          numTurns,
+          sessionId,
+          costUsd: session.costUsd,
+          usage
+        });
+        return 1;
+      }
+    }
+
+    const turn = step.response;
+    if (!turn) break;
+    if (turn.delayMs) await sleep(turn.delayMs);
+
+    numTurns++;
+    const messageId = `msg_mock_${stepIndex + 1}`;
+    const { content } = responseContent(turn, stepIndex);
+    for (const key of Object.keys(usage) as (keyof MockUsage)[]) {
+      usage[key] += turn.usage?.[key] || 0;
+    }
+
+    // One event per content block, all sharing the message id, as the CLI does
+    for (const block of content) {
+      emit({
+        type: 'assistant',
+        message: {
+          id: messageId,
+          type: 'message',
+          role: 'assistant',
+          model,
+          content: [toApiBlock(block)],
+          usage: turn.usage
+        },
+        session_id: sessionId
+      });
+
+      if (block.type === 'text') {
+        lastText = block.text;
+      } else if (block.type === 'tool_use') {
+        const outcome = block.result !== undefined
+          ? { content: block.result, isError: !!block.isError }
+          : runTool(block.name, block.input);
+        emit({
+          type: 'user',
+          message: {
+            role: 'user',
+            content: [{ type: 'tool_result', tool_use_id: block.id, content: outcome.content, is_error: outcome.isError }]
+          },
+          session_id: sessionId
+        });
+      }
+    }
+  }
+
+  emitResult({ subtype: 'success', isError: false, result: lastText, startTime, numTurns, sessionId, costUsd: session.costUsd, usage });
+  return 0;
+}
+
+function runTool(name: string, input: Record<string, any>): ToolOutcome {
+  try {
+    switch (name) {
+      case 'Read': {
+        const file = resolve(input.file_path);
+        if (!fs.existsSync(file)) return { content: 'File does not exist.', isError: true };
+        return { content: fs.readFileSync(file, 'utf-8'), isError: false };
+      }
+      case 'Write': {
+        const file = resolve(input.file_path);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, input.content ?? '');
+        return { content: `File created successfully at: ${file}`, isError: false };
+      }
+      case 'Edit':
+        return applyEdits(input.file_path, [input]);
+      case 'MultiEdit':
+        return applyEdits(input.file_path, Array.isArray(input.edits) ? input.edits : []);
+      case 'Bash': {
+        const run = spawnSync('bash', ['-c', String(input.command ?? '')], {
+          cwd: process.cwd(),
+          encoding: 'utf-8',
+          timeout: BASH_TIMEOUT_MS
+        });
+        const output = `${run.stdout || ''}${run.stderr || ''}`.trim();
+        const exitCode = run.status ?? 1;
+        return exitCode === 0
+          ? { content: output, isError: false }
+          : { content: `Exit code ${exitCode}\n${output}`, isError: true };
+      }
+      default:
+        return { content: `[mock] ${name} is not run by the fake CLI; script a result for it`, isError: false };
+    }
+  } catch (error) {
+    return { content: error instanceof Error ? error.message : String(error), isError: true };
+  }
+}
+
+function applyEdits(filePath: string, edits: any[]): ToolOutcome {
+  const file = resolve(filePath);
+  if (!fs.existsSync(file)) return { content: 'File does not exist.', isError: true };
+
+  let content = fs.readFileSync(file, 'utf-8');
+  for (const edit of edits) {
+    const oldString = String(edit.old_string ?? '');
+    if (!content.includes(oldString)) {
+      return { content: `String to replace not found in file.\nString: ${oldString}`, isError: true };
+    }
+    content = edit.replace_all
+      ? content.split(oldString).join(String(edit.new_string ?? ''))
+      : content.replace(oldString, () => String(edit.new_string ?? ''));
+  }
+
+  fs.writeFileSync(file, content);
+  return { content: `The file ${file} has been updated.`, isError: false };
+}
+
+function resolve(filePath: any): string {
+  return path.resolve(process.cwd(), String(filePath ?? ''));
+}
+
+function emitResult(result: {
+  subtype: string;
+  isError: boolean;
+  result: string;
+  startTime: number;
+  numTurns: number;
+  sessionId: string;
+  costUsd?: number;
+  usage: MockUsage;
+}) {
+  emit({
+    type: 'result',
+    subtype: result.subtype,
+    is_error: result.isError,
+    result: result.result,
+    duration_ms: Date.now() - result.startTime,
+    num_turns: result.numTurns,
+    session_id: result.sessionId,
+    total_cost_usd: result.costUsd ?? 0,
+    usage: result.usage
+  });
+}
+
+function emit(event: any) {
+  process.stdout.write(JSON.stringify(event) + '\n');
+}
+
+main().then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,107 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { loadMockScript } from './script';
+import { startMockMessagesServer, MockMessagesServer } from './messages-server';
+import { TestDatabase } from '../storage/database';
+
+const ROOT = path.resolve(__dirname, '..', '..');
+const TSX = path.join(ROOT, 'node_modules', '.bin', 'tsx');
+const CLI_ENTRY = path.join(ROOT, 'src', 'cli', 'index.ts');
+const MOCK_BIN = path.join(__dirname, 'bin');
+const DEFAULT_COMMAND_TIMEOUT_MS = 180000;
+
+// Only these pass through from the caller; everything else the CLI reads is set here
+const PASSED_ENV_VARS = ['PATH', 'HOME', 'TMPDIR', 'LANG', 'TZ'];
+
+export interface CliHarnessOptions {
+  script: string;             // Mock script served to both backends
+  timeoutMs?: number;         // Per command
+}
+
+export interface CliOutcome {
+  exitCode: number | null;    // null when the command was killed for running too long
+  stdout: string;
+  stderr: string;
+}
+
+export interface CliHarness {
+  dir: string;                // Working directory of every command; holds claude-test.db
+  server: MockMessagesServer;
+  env: NodeJS.ProcessEnv;
+  run(...args: string[]): Promise<CliOutcome>;
+  openDatabase(): TestDatabase;
+  close(): Promise<void>;
+}
+
+/**
+ * Runs the real claude-test CLI offline, for end-to-end tests. Commands run
+ * in a fresh temp directory against the mock Messages API (api backend and
+ * judge) and the fake claude executable (cli backend), both replaying
+ * `script`. Nothing from the caller's environment, such as an API key or
+ * TEST_BACKEND, leaks in.
+ */
+export async function startCliHarness(options: CliHarnessOptions): Promise<CliHarness> {
+  const script = path.resolve(options.script);
+  const server = await startMockMessagesServer(loadMockScript(script));
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-test-e2e-'));
+
+  const env: NodeJS.ProcessEnv = {
+    ...Object.fromEntries(PASSED_ENV_VARS.filter(name => process.env[name] !== undefined).map(name => [name, process.env[name]])),
+    PATH: [MOCK_BIN, process.env.PATH].filter(Boolean).join(path.delimiter),
+    CLAUDE_MOCK_SCRIPT: script,
+    ANTHROPIC_API_KEY: 'mock',
+    ANTHROPIC_BASE_URL: server.url,
+    JUDGE_BASE_URL: server.url,
+    TEST_WORKSPACE_DIR: path.join(dir, 'workspaces'),
+    FORCE_COLOR: '0'
+  };
+
+  return {
+    dir,
+    server,
+    env,
+    run: (...args: string[]) => runCli(args, dir, env, options.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS),
+    openDatabase: () => new TestDatabase(path.join(dir, 'claude-test.db')),
+    close: async () => {
+      await server.close();
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+function runCli(args: string[], cwd: string, env: NodeJS.ProcessEnv, timeoutMs: number): Promise<CliOutcome> {
+  return new Promise((resolve) => {
+    // Own process group, so a timeout also stops tsx's node child and any agent it started
+    const child = spawn(TSX, [CLI_ENTRY, ...args], { cwd, env, stdio: ['ignore', 'pipe', 'pipe'], detached: true });
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+
+    child.stdout?.on('data', (data) => {
+      stdout += data.toString();
+    });
+    child.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        // Already exited
+      }
+    }, timeoutMs);
+
+    child.on('error', (error) => {
+      clearTimeout(timeoutId);
+      resolve({ exitCode: 127, stdout, stderr: `${stderr}${error.message}\n` });
+    });
+    child.on('close', (code) => {
+      clearTimeout(timeoutId);
+      resolve({ exitCode: timedOut ? null : code, stdout, stderr });
+    });
+  });
+}
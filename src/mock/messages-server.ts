@@ -0,0 +1,137 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  MockScript,
+  MockError,
+  DEFAULT_MOCK_MODEL,
+  findSession,
+  sessionSteps,
+  responseContent,
+  toApiBlock,
+  errorType,
+  errorMessage,
+  sleep
+} from './script';
+
+export interface MockMessagesServerOptions {
+  port?: number;              // 0 (default) picks a free port
+  host?: string;
+}
+
+export interface MockMessagesServer {
+  url: string;                // Base URL for the SDK, e.g. http://127.0.0.1:8787
+  requests: any[];            // Bodies of every /v1/messages request, in arrival order
+  close(): Promise<void>;
+}
+
+/**
+ * A local stand-in for the Messages API that answers from a mock script.
+ * It keeps no conversation state: a request is matched to a session by its
+ * first user message, and the number of assistant messages in it picks the
+ * turn. Concurrent conversations therefore never interfere. Only counts of
+ * error turns already served are kept, per prompt and turn.
+ */
+export async function startMockMessagesServer(
+  script: MockScript,
+  options: MockMessagesServerOptions = {}
+): Promise<MockMessagesServer> {
+  const requests: any[] = [];
+  const errorsServed = new Map<string, number>();
+  let messageCount = 0;
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', async () => {
+      if (req.method !== 'POST' || !req.url?.startsWith('/v1/messages')) {
+        return sendError(res, { status: 404, message: `No mock for ${req.method} ${req.url}` });
+      }
+
+      let request: any;
+      try {
+        request = JSON.parse(body);
+      } catch {
+        return sendError(res, { status: 400, message: 'Request body is not JSON' });
+      }
+      requests.push(request);
+
+      if (request.stream) {
+        return sendError(res, { status: 400, message: 'The mock does not support streaming' });
+      }
+
+      const messages: any[] = Array.isArray(request.messages) ? request.messages : [];
+      const prompt = textOf(messages.find(message => message.role === 'user')?.content);
+      const session = findSession(script, prompt);
+      if (!session) {
+        return sendError(res, { status: 400, message: `No mock session matches the prompt: ${prompt.slice(0, 80)}` });
+      }
+
+      const stepIndex = messages.filter(message => message.role === 'assistant').length;
+      const step = sessionSteps(session)[stepIndex];
+      if (!step) {
+        return sendError(res, { status: 400, message: `Mock session has no turn ${stepIndex + 1}` });
+      }
+
+      for (const { turn, index } of step.errors) {
+        const key = `${prompt}\0${index}`;
+        const served = errorsServed.get(key) || 0;
+        if (turn.times === undefined || served < turn.times) {
+          errorsServed.set(key, served + 1);
+          if (turn.delayMs) await sleep(turn.delayMs);
+          return sendError(res, turn.error!);
+        }
+      }
+
+      const turn = step.response!;
+      if (turn.delayMs) await sleep(turn.delayMs);
+
+      const { content, stopReason } = responseContent(turn, stepIndex);
+      sendJson(res, 200, {
+        id: `msg_mock_${++messageCount}`,
+        type: 'message',
+        role: 'assistant',
+        model: session.model || request.model || DEFAULT_MOCK_MODEL,
+        content: content.map(toApiBlock),
+        stop_reason: stopReason,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0, ...turn.usage }
+      });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => resolve());
+  });
+
+  const address = server.address() as AddressInfo;
+  return {
+    url: `http://${address.address}:${address.port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+}
+
+function sendError(res: http.ServerResponse, error: MockError) {
+  // Retries the SDK makes on 429/529 should not slow a scripted run down
+  res.setHeader('retry-after-ms', '1');
+  sendJson(res, error.status, {
+    type: 'error',
+    error: { type: errorType(error), message: errorMessage(error) }
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: any) {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function textOf(content: any): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.filter(block => block?.type === 'text').map(block => block.text).join('\n');
+  }
+  return '';
+}
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import { parse } from 'yaml';
+
+export interface MockUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+// Content blocks as the Messages API returns them; tool_use ids are filled in when missing
+export type MockContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; thinking: string }
+  | {
+      type: 'tool_use';
+      id?: string;
+      name: string;
+      input: Record<string, any>;
+      // Fake CLI only: reply with this instead of running the tool
+      result?: string;
+      isError?: boolean;
+    };
+
+export interface MockError {
+  status: number;             // e.g. 429, 529, 500
+  type?: string;              // Error type in the response body, derived from status when omitted
+  message?: string;
+}
+
+/**
+ * One scripted model response, or a failure before it. An error turn fails
+ * `times` requests (every request when omitted) and then gives way to the
+ * turn after it.
+ */
+export interface MockTurn {
+  content?: MockContentBlock[];
+  usage?: MockUsage;
+  stopReason?: string;        // Derived from the content when omitted
+  delayMs?: number;
+  error?: MockError;
+  times?: number;
+}
+
+export interface MockSession {
+  match?: string;             // Substring of the prompt; a session without one matches any prompt
+  model?: string;
+  costUsd?: number;           // Reported by the fake CLI's result event
+  turns: MockTurn[];
+}
+
+export interface MockScript {
+  sessions: MockSession[];
+}
+
+const SCRIPT_KEYS = ['sessions'];
+const SESSION_KEYS = ['match', 'model', 'costUsd', 'turns'];
+const TURN_KEYS = ['content', 'usage', 'stopReason', 'delayMs', 'error', 'times'];
+const BLOCK_TYPES = ['text', 'thinking', 'tool_use'];
+
+const ERROR_TYPES: Record<number, string> = {
+  400: 'invalid_request_error',
+  401: 'authentication_error',
+  403: 'permission_error',
+  404: 'not_found_error',
+  413: 'request_too_large',
+  429: 'rate_limit_error',
+  500: 'api_error',
+  529: 'overloaded_error'
+};
+
+export const DEFAULT_MOCK_MODEL = 'claude-mock';
+
+/**
+ * Reads a mock script from YAML or JSON. A file holding just a list of turns
+ * is a single session that matches every prompt.
+ */
+export function loadMockScript(filePath: string): MockScript {
+  let content: any;
+  try {
+    content = parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Cannot read mock script ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  try {
+    return parseMockScript(content);
+  } catch (error) {
+    throw new Error(`Invalid mock script ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export function parseMockScript(content: any): MockScript {
+  if (Array.isArray(content)) {
+    content = { sessions: [{ turns: content }] };
+  }
+  if (!isObject(content) || !Array.isArray(content.sessions) || content.sessions.length === 0) {
+    throw new Error('Expected a list of turns or a mapping with a non-empty `sessions` list');
+  }
+  checkKeys(content, SCRIPT_KEYS, '');
+
+  content.sessions.forEach((session: any, index: number) => validateSession(session, `sessions[${index}]`));
+  return content as MockScript;
+}
+
+// The first session whose `match` occurs in the prompt
+export function findSession(script: MockScript, prompt: string): MockSession | undefined {
+  return script.sessions.find(session => session.match === undefined || prompt.includes(session.match));
+}
+
+/**
+ * Splits a session's turns into the responses the model gives, each with the
+ * error turns that precede it. The Nth request of a conversation (one with N
+ * assistant messages already in it) is answered by step N.
+ */
+export function sessionSteps(session: MockSession): { errors: { turn: MockTurn; index: number }[]; response?: MockTurn }[] {
+  const steps: { errors: { turn: MockTurn; index: number }[]; response?: MockTurn }[] = [];
+  let errors: { turn: MockTurn; index: number }[] = [];
+
+  session.turns.forEach((turn, index) => {
+    if (turn.error) {
+      errors.push({ turn, index });
+    } else {
+      steps.push({ errors, response: turn });
+      errors = [];
+    }
+  });
+  if (errors.length > 0) {
+    steps.push({ errors });
+  }
+
+  return steps;
+}
+
+// Content with a stable id on every tool_use block, and the stop reason it implies
+export function responseContent(turn: MockTurn, step: number): { content: MockContentBlock[]; stopReason: string } {
+  const content = (turn.content || []).map((block, index) =>
+    block.type === 'tool_use' ? { ...block, id: block.id || `toolu_mock_${step}_${index}` } : block
+  );
+  const stopReason = turn.stopReason || (content.some(block => block.type === 'tool_use') ? 'tool_use' : 'end_turn');
+  return { content, stopReason };
+}
+
+// A block as the API sends it, without the script-only fields
+export function toApiBlock(block: MockContentBlock): any {
+  return block.type === 'tool_use'
+    ? { type: 'tool_use', id: block.id, name: block.name, input: block.input }
+    : block;
+}
+
+export function errorType(error: MockError): string {
+  return error.type || ERROR_TYPES[error.status] || 'api_error';
+}
+
+export function errorMessage(error: MockError): string {
+  return error.message || `Mock ${errorType(error)}`;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function validateSession(session: any, at: string) {
+  if (!isObject(session)) throw new Error(`${at}: must be a mapping`);
+  checkKeys(session, SESSION_KEYS, at);
+  if (session.match !== undefined && typeof session.match !== 'string') throw new Error(`${at}.match: must be a string`);
+  if (session.model !== undefined && typeof session.model !== 'string') throw new Error(`${at}.model: must be a string`);
+  if (session.costUsd !== undefined && typeof session.costUsd !== 'number') throw new Error(`${at}.costUsd: must be a number`);
+  if (!Array.isArray(session.turns) || session.turns.length === 0) throw new Error(`${at}.turns: must be a non-empty list`);
+
+  session.turns.forEach((turn: any, index: number) => validateTurn(turn, `${at}.turns[${index}]`));
+}
+
+function validateTurn(turn: any, at: string) {
+  if (!isObject(turn)) throw new Error(`${at}: must be a mapping`);
+  checkKeys(turn, TURN_KEYS, at);
+
+  if (turn.error !== undefined) {
+    if (!isObject(turn.error) || !Number.isInteger(turn.error.status)) {
+      throw new Error(`${at}.error: must be a mapping with an integer status`);
+    }
+    if (turn.content !== undefined) throw new Error(`${at}: an error turn has no content`);
+  } else if (!Array.isArray(turn.content) || turn.content.length === 0) {
+    throw new Error(`${at}.content: must be a non-empty list of blocks`);
+  }
+  if (turn.times !== undefined && (!Number.isInteger(turn.times) || turn.times < 1)) {
+    throw new Error(`${at}.times: must be a positive integer`);
+  }
+  if (turn.delayMs !== undefined && (typeof turn.delayMs !== 'number' || turn.delayMs < 0)) {
+    throw new Error(`${at}.delayMs: must be a non-negative number`);
+  }
+
+  (turn.content || []).forEach((block: any, index: number) => {
+    const blockAt = `${at}.content[${index}]`;
+    if (!isObject(block) || !BLOCK_TYPES.includes(block.type)) {
+      throw new Error(`${blockAt}: type must be one of ${BLOCK_TYPES.join(', ')}`);
+    }
+    if (block.type === 'text' && typeof block.text !== 'string') throw new Error(`${blockAt}.text: must be a string`);
+    if (block.type === 'thinking' && typeof block.thinking !== 'string') throw new Error(`${blockAt}.thinking: must be a string`);
+    if (block.type === 'tool_use' && (typeof block.name !== 'string' || !isObject(block.input))) {
+      throw new Error(`${blockAt}: tool_use needs a name and an input mapping`);
+    }
+  });
+}
+
+function checkKeys(value: Record<string, any>, allowed: string[], at: string) {
+  const unknown = Object.keys(value).filter(key => !allowed.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`${at ? `${at}: ` : ''}unknown field(s) ${unknown.join(', ')}`);
+  }
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
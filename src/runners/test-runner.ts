@@ -1,4 +1,9 @@
 import { ClaudeCodeRunner } from '../execution/claude-code-runner';
+import { ClaudeApiRunner } from '../execution/api-runner';
+import { RunnerBackend, BackendName } from '../execution/runner-backend';
+import { SandboxOptions } from '../api/sandbox';
+import { KeepWorkspacesPolicy, shouldKeepWorkspace, archiveWorkspace } from '../execution/workspace-archive';
+import { RecordingRunner, RecordingOptions, RecordedSessionStore, RecordingStats } from '../execution/recording-runner';
 import { 
   TestSuite, 
   Test, 
@@ -8,27 +13,46 @@ import {
   RawMetrics,
   MetricScores
 } from '../types';
-import { EvaluatorManager } from '../evaluators/evaluator-manager';
+import { EvaluatorManager, EvaluatorManagerOptions } from '../evaluators/evaluator-manager';
+import { runWithConcurrency, OrderedEmitter, RateLimitBackoff } from './worker-pool';
+import { describe, passAtK, DescriptiveStats } from '../utils/statistics';
+import { hasScore } from '../utils/comparison';
 
 export interface TestRunnerConfig {
   workspaceDir?: string;
   timeout?: number;
   useSkipPermissions?: boolean;
+  concurrency?: number;       // Tests run in parallel, each in its own workspace
+  repeat?: number;            // Trials per test, all under the same TestRun
+  passThreshold?: number;     // Metric score counted as a pass for pass@k
+  maxRateLimitRetries?: number;
+  rateLimitBaseDelayMs?: number;
+  evaluation?: EvaluatorManagerOptions; // LLM judge, plugin evaluators and timeouts
+  backend?: BackendName;      // 'cli' (default) runs the claude binary, 'api' calls the Messages API
+  apiKey?: string;            // Required by the api backend
+  baseURL?: string;           // Messages API endpoint for the api backend, e.g. a local mock
+  model?: string;
+  temperature?: number;       // api backend only
+  maxTokens?: number;         // api backend only
+  sandbox?: SandboxOptions;   // api backend only: run bash for real instead of simulating it
+  recording?: RecordingOptions & { store: RecordedSessionStore }; // run --replay/--record/--refresh
+  keepWorkspaces?: KeepWorkspacesPolicy; // Which finished workspaces to archive onto their results
 }
 
 export class TestRunner {
-  private runner: ClaudeCodeRunner;
+  private runner: RunnerBackend;
   private config: TestRunnerConfig;
   private evaluatorManager: EvaluatorManager;
+  private backoff: RateLimitBackoff;
 
   constructor(config: TestRunnerConfig = {}) {
     this.config = config;
-    this.runner = new ClaudeCodeRunner({
-      workspaceDir: config.workspaceDir,
-      timeout: config.timeout,
-      useSkipPermissions: config.useSkipPermissions
-    });
-    this.evaluatorManager = new EvaluatorManager();
+    this.backoff = new RateLimitBackoff(config.rateLimitBaseDelayMs);
+    const backend = this.createBackend(config);
+    this.runner = config.recording
+      ? new RecordingRunner(backend, config.recording.store, config.recording)
+      : backend;
+    this.evaluatorManager = new EvaluatorManager(config.evaluation);
   }
 
   async runTestSuite(
@@ -39,6 +63,7 @@ export class TestRunner {
       onTestStart?: (test: Test) => void;
       onTestComplete?: (test: Test, result: TestResult) => void;
       onProgress?: (completed: number, total: number) => void;
+      onResultReady?: (test: Test, result: TestResult) => void | Promise<void>;
     }
   ): Promise<{
     testRun: TestRun;
@@ -53,37 +78,64 @@ export class TestRunner {
       status: 'running'
     };
 
-    const results: TestResult[] = [];
+    const repeat = Math.max(1, Math.floor(this.config.repeat || 1));
+    const trials = testSuite.tests.flatMap((test, testIndex) =>
+      Array.from({ length: repeat }, (_, trialIndex) => ({ test, testIndex, trialIndex }))
+    );
+    const total = trials.length;
     let completed = 0;
-
-    for (const test of testSuite.tests) {
-      callbacks?.onTestStart?.(test);
-      
-      try {
-        const result = await this.runner.executeTest(
-          claudeFile.content,
-          test,
-          testRunId
-        );
+    
+    // Results are handed out in suite order (test, then trial) so callers can
+    // persist them deterministically; a test is released once all its trials finish
+    const ordered = new OrderedEmitter<{ test: Test; results: TestResult[] }>(
+      async ({ test, results }) => {
+        for (const result of results) {
+          await callbacks?.onResultReady?.(test, result);
+        }
+      }
+    );
+    const trialResults: TestResult[][] = testSuite.tests.map(() => []);
+    
+    const results = await runWithConcurrency(
+      trials,
+      this.config.concurrency || 1,
+      async ({ test, testIndex, trialIndex }) => {
+        callbacks?.onTestStart?.(test);
+        
+        let result: TestResult;
+        try {
+          result = await this.executeWithBackoff(claudeFile.content, test, testRunId, testSuite.version, trialIndex);
+        } catch (error) {
+          console.error(`Test ${test.id} failed:`, error);
+          // Create a failed result
+          result = this.createFailedResult(test, testRunId, error);
+        }
+        result.trialIndex = trialIndex;
+        
+        const siblings = trialResults[testIndex];
+        siblings[trialIndex] = result;
+        const allTrialsDone = siblings.filter(Boolean).length === repeat;
+        if (allTrialsDone) {
+          this.evaluatorManager.evaluateTrials(siblings);
+        }
         
-        results.push(result);
         callbacks?.onTestComplete?.(test, result);
-      } catch (error) {
-        console.error(`Test ${test.id} failed:`, error);
-        // Create a failed result
-        const failedResult = this.createFailedResult(test, testRunId, error);
-        results.push(failedResult);
-        callbacks?.onTestComplete?.(test, failedResult);
+        completed++;
+        callbacks?.onProgress?.(completed, total);
+        
+        if (allTrialsDone) {
+          await ordered.complete(testIndex, { test, results: siblings });
+        }
+        return result;
       }
-      
-      completed++;
-      callbacks?.onProgress?.(completed, testSuite.tests.length);
-    }
+    );
+    
+    await ordered.flush();
 
     testRun.completedAt = new Date();
     testRun.status = 'completed';
 
-    const summary = this.calculateSummary(results);
+    const summary = this.calculateSummary(results, repeat);
 
     return {
       testRun,
@@ -92,7 +144,83 @@ export class TestRunner {
     };
   }
 
-  // Remove the old runSingleTest method since we're using ClaudeCodeRunner.executeTest directly
+  // How many sessions were replayed, recorded or run live, when recording is on
+  getRecordingStats(): RecordingStats | undefined {
+    return this.runner instanceof RecordingRunner ? this.runner.getStats() : undefined;
+  }
+
+  private createBackend(config: TestRunnerConfig): RunnerBackend {
+    if (config.backend === 'api') {
+      if (!config.apiKey) {
+        throw new Error('The api backend needs an Anthropic API key');
+      }
+      return new ClaudeApiRunner({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+        model: config.model,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        sandbox: config.sandbox,
+        workspaceDir: config.workspaceDir,
+        timeout: config.timeout
+      });
+    }
+    
+    return new ClaudeCodeRunner({
+      workspaceDir: config.workspaceDir,
+      timeout: config.timeout,
+      useSkipPermissions: config.useSkipPermissions,
+      model: config.model
+    });
+  }
+
+  // Retries a test while the backend reports overload, pausing every worker in the pool
+  private async executeWithBackoff(
+    claudeMdContent: string,
+    test: Test,
+    testRunId: number,
+    suiteVersion: string,
+    trialIndex: number
+  ): Promise<TestResult> {
+    const maxRetries = this.config.maxRateLimitRetries ?? 3;
+    
+    for (let attempt = 0; ; attempt++) {
+      await this.backoff.waitForSlot();
+      
+      const result = await this.runner.executeTest(claudeMdContent, test, testRunId, {
+        suiteVersion,
+        trialIndex,
+        // Evaluate while the workspace exists, unless this attempt is about to be retried
+        beforeCleanup: async (result, workspacePath) => {
+          if (this.isRateLimited(result) && attempt < maxRetries) return;
+          
+          const { scores, evaluations } = await this.evaluatorManager.evaluateAll(test, result, {
+            claudeMdContent,
+            workspacePath
+          });
+          result.scores = scores;
+          result.evaluations = evaluations;
+          
+          if (shouldKeepWorkspace(this.config.keepWorkspaces || 'never', result)) {
+            result.workspaceArchive = await archiveWorkspace(workspacePath);
+          }
+        }
+      });
+      const rateLimited = this.isRateLimited(result);
+      
+      if (!rateLimited || attempt >= maxRetries) {
+        return result;
+      }
+      
+      const delay = this.backoff.trip(attempt);
+      console.warn(`Test ${test.id} hit a rate limit, retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1}/${maxRetries})`);
+    }
+  }
+  
+  private isRateLimited(result: TestResult): boolean {
+    return result.metricsRaw.errorsEncountered.some(e => e.type === 'rate_limit');
+  }
+
 
   private calculateBasicScores(
     test: Test,
@@ -117,48 +245,6 @@ export class TestRunner {
     };
   }
 
-  private extractErrors(conversation: any): any[] {
-    const errors: any[] = [];
-    
-    conversation.messages.forEach((msg: any) => {
-      if (msg.toolCalls) {
-        msg.toolCalls.forEach((call: any) => {
-          if (call.error) {
-            errors.push({
-              type: 'tool_error',
-              message: call.error,
-              timestamp: msg.timestamp,
-              recovered: false
-            });
-          }
-        });
-      }
-    });
-    
-    return errors;
-  }
-
-  private countRetries(conversation: any): number {
-    // Count retry attempts based on similar consecutive tool calls
-    let retries = 0;
-    let lastToolCall: any = null;
-    
-    conversation.messages.forEach((msg: any) => {
-      if (msg.toolCalls) {
-        msg.toolCalls.forEach((call: any) => {
-          if (lastToolCall && 
-              lastToolCall.toolName === call.toolName &&
-              JSON.stringify(lastToolCall.parameters) === JSON.stringify(call.parameters)) {
-            retries++;
-          }
-          lastToolCall = call;
-        });
-      }
-    });
-    
-    return retries;
-  }
-
   private createFailedResult(test: Test, testRunId: number, error: any): TestResult {
     return {
       testRunId,
@@ -182,11 +268,7 @@ export class TestRunner {
       conversation: {
         messages: [],
         totalDurationMs: 0,
-        modelConfig: {
-          model: this.config.model || '',
-          temperature: this.config.temperature || 0,
-          maxTokens: this.config.maxTokens || 0
-        }
+        modelConfig: { ...this.runner.modelConfig }
       },
       metricsRaw: {
         allToolCalls: [],
@@ -203,7 +285,7 @@ export class TestRunner {
     };
   }
 
-  private calculateSummary(results: TestResult[]): TestSummary {
+  private calculateSummary(results: TestResult[], trialsPerTest: number): TestSummary {
     const totalTests = results.length;
     const failedTests = results.filter(r => r.scores.correctness === 0).length;
     const passedTests = totalTests - failedTests;
@@ -220,42 +302,95 @@ export class TestRunner {
       errorRecovery: 0
     };
     
-    if (totalTests > 0) {
-      results.forEach(result => {
-        Object.keys(avgScores).forEach(key => {
-          (avgScores as any)[key] += (result.scores as any)[key];
-        });
-      });
-      
-      Object.keys(avgScores).forEach(key => {
-        (avgScores as any)[key] /= totalTests;
-      });
-    }
+    // Scores whose evaluation failed are left out rather than averaged in
+    (Object.keys(avgScores) as (keyof MetricScores)[]).forEach(key => {
+      const scored = results.filter(result => hasScore(result, key));
+      avgScores[key] = scored.length > 0
+        ? scored.reduce((sum, result) => sum + result.scores[key], 0) / scored.length
+        : 0;
+    });
+    
+    const evaluationErrors = results.reduce((sum, r) =>
+      sum + Object.values(r.evaluations || {}).filter(e => e?.status === 'error').length, 0
+    );
     
     const totalTokens = results.reduce((sum, r) => 
-      sum + r.tokensInput + r.tokensOutput + (r.tokensThinking || 0), 0
+      sum + r.tokensInput + r.tokensOutput + (r.tokensThinking || 0) +
+        (r.tokensCacheCreation || 0) + (r.tokensCacheRead || 0), 0
     );
     
+    const totalCost = results.reduce((sum, r) => sum + (r.costUsd || 0), 0);
+    
     const totalTime = results.reduce((sum, r) => sum + r.responseTimeMs, 0);
     
     return {
+      trialsPerTest,
+      metricStats: this.calculateMetricStats(results, trialsPerTest),
       totalTests,
       passedTests,
       failedTests,
       averageScores: avgScores,
+      evaluationErrors,
       totalTokensUsed: totalTokens,
+      totalCostUsd: totalCost,
       totalTimeMs: totalTime,
       successRate: totalTests > 0 ? passedTests / totalTests : 0
     };
   }
+
+  private calculateMetricStats(
+    results: TestResult[],
+    trialsPerTest: number
+  ): Record<keyof MetricScores, MetricStats> {
+    const threshold = this.config.passThreshold ?? 7;
+    const metricNames = Object.keys(results[0]?.scores || {}) as (keyof MetricScores)[];
+    const kValues = Array.from(new Set([1, trialsPerTest]));
+    
+    const byTest = new Map<string, TestResult[]>();
+    results.forEach(result => {
+      if (!byTest.has(result.testId)) {
+        byTest.set(result.testId, []);
+      }
+      byTest.get(result.testId)!.push(result);
+    });
+    
+    const stats = {} as Record<keyof MetricScores, MetricStats>;
+    metricNames.forEach(metric => {
+      const passRates: Record<number, number> = {};
+      kValues.forEach(k => {
+        const perTest = Array.from(byTest.values()).map(trials =>
+          passAtK(trials.length, trials.filter(t => hasScore(t, metric) && t.scores[metric] >= threshold).length, k)
+        );
+        passRates[k] = perTest.length > 0
+          ? perTest.reduce((sum, p) => sum + p, 0) / perTest.length
+          : 0;
+      });
+      
+      stats[metric] = {
+        ...describe(results.filter(r => hasScore(r, metric)).map(r => r.scores[metric])),
+        passAtK: passRates
+      };
+    });
+    
+    return stats;
+  }
+}
+
+export interface MetricStats extends DescriptiveStats {
+  // pass@k averaged over tests, keyed by k (1 and the number of trials)
+  passAtK: Record<number, number>;
 }
 
 export interface TestSummary {
+  trialsPerTest: number;
+  metricStats: Record<keyof MetricScores, MetricStats>;
   totalTests: number;
   passedTests: number;
   failedTests: number;
   averageScores: MetricScores;
+  evaluationErrors: number;   // Metric evaluations that failed and are excluded above
   totalTokensUsed: number;
+  totalCostUsd: number;
   totalTimeMs: number;
   successRate: number;
 }
\ No newline at end of file
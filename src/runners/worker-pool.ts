@@ -0,0 +1,92 @@
+/**
+ * Runs `worker` over every item with at most `concurrency` in flight.
+ * Results are returned in input order regardless of completion order.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number, workerId: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  // A NaN concurrency would otherwise start no workers and silently return nothing
+  const poolSize = Number.isFinite(concurrency) ? Math.max(1, Math.min(Math.floor(concurrency), items.length)) : 1;
+  let nextIndex = 0;
+
+  const runWorker = async (workerId: number) => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index, workerId);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: poolSize }, (_, workerId) => runWorker(workerId))
+  );
+
+  return results;
+}
+
+/**
+ * Emits items in index order as soon as every earlier index has completed,
+ * so side effects (e.g. database writes) stay deterministic under concurrency.
+ */
+export class OrderedEmitter<T> {
+  private buffered: Map<number, T> = new Map();
+  private nextToEmit = 0;
+  private chain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly emit: (item: T, index: number) => void | Promise<void>) {}
+
+  complete(index: number, item: T): Promise<void> {
+    this.buffered.set(index, item);
+
+    while (this.buffered.has(this.nextToEmit)) {
+      const emitIndex = this.nextToEmit;
+      const ready = this.buffered.get(emitIndex)!;
+      this.buffered.delete(emitIndex);
+      this.nextToEmit++;
+      this.chain = this.chain.then(() => this.emit(ready, emitIndex));
+    }
+
+    return this.chain;
+  }
+
+  flush(): Promise<void> {
+    return this.chain;
+  }
+}
+
+/**
+ * Shared backoff for all workers. When one worker hits a rate limit the whole
+ * pool pauses, so parallel workers don't keep hammering an overloaded API and
+ * all fail together.
+ */
+export class RateLimitBackoff {
+  private resumeAt = 0;
+
+  constructor(
+    private readonly baseDelayMs: number = 5000,
+    private readonly maxDelayMs: number = 120000
+  ) {}
+
+  async waitForSlot(): Promise<void> {
+    let delay = this.resumeAt - Date.now();
+    while (delay > 0) {
+      await sleep(delay);
+      // Another worker may have extended the pause while we slept
+      delay = this.resumeAt - Date.now();
+    }
+  }
+
+  trip(attempt: number): number {
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * Math.pow(2, attempt));
+    const jitter = Math.random() * exponential * 0.2;
+    const delay = Math.round(exponential + jitter);
+    this.resumeAt = Math.max(this.resumeAt, Date.now() + delay);
+    return delay;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,52 @@
+import Database from 'better-sqlite3';
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+
+export interface ArtifactStoreOptions {
+  compress?: boolean;         // gzip blobs that shrink by it
+}
+
+// Below this, gzip headers cost more than they save
+const MIN_COMPRESSED_SIZE = 512;
+
+/**
+ * Content-addressed blobs: each distinct content is stored once under the
+ * sha256 of its uncompressed bytes, so identical transcripts, diffs or
+ * workspaces across trials and runs share a row.
+ */
+export class ArtifactStore {
+  // The artifact_blobs table is created by the schema migrations
+  constructor(private db: Database.Database, private options: ArtifactStoreOptions = {}) {}
+
+  // Returns the content's hash; storing the same content again is a no-op
+  put(content: string | Buffer): string {
+    const data = Buffer.from(content);
+    const hash = crypto.createHash('sha256').update(data).digest('hex');
+
+    const exists = this.db.prepare('SELECT 1 FROM artifact_blobs WHERE hash = ?').get(hash);
+    if (exists) return hash;
+
+    let encoding = 'identity';
+    let stored: Buffer = data;
+    if (this.options.compress && data.length >= MIN_COMPRESSED_SIZE) {
+      const compressed = zlib.gzipSync(data);
+      if (compressed.length < data.length) {
+        encoding = 'gzip';
+        stored = compressed;
+      }
+    }
+
+    this.db.prepare(`
+      INSERT INTO artifact_blobs (hash, encoding, content, size_bytes, stored_bytes)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(hash, encoding, stored, data.length, stored.length);
+
+    return hash;
+  }
+
+  get(hash: string): Buffer | null {
+    const row = this.db.prepare('SELECT encoding, content FROM artifact_blobs WHERE hash = ?').get(hash) as any;
+    if (!row) return null;
+    return row.encoding === 'gzip' ? zlib.gunzipSync(row.content) : Buffer.from(row.content);
+  }
+}
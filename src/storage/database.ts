@@ -7,85 +7,59 @@ import {
   TestSuite,
   ConversationHistory,
   RawMetrics,
-  MetricScores
+  MetricScores,
+  ScoreSet,
+  WorkspaceDiff
 } from '../types';
+import { hashTests } from '../utils/suite-loader';
+import { JudgeVerdict } from '../evaluators/judge-evaluator';
+import { RecordedSession } from '../execution/recording-runner';
+import { ArtifactStore } from './artifact-store';
+import { migrate, getSchemaStatus, MigrationReport, SchemaStatus } from './migrations';
+
+export const ORIGINAL_SCORE_SET = 'original';
+export const LATEST_SCORE_SET = 'latest';
+
+// What a result can link to in the artifact store
+export type ArtifactKind =
+  | 'response'
+  | 'transcript'
+  | 'metrics'
+  | 'evaluations'             // Evaluator rationales, the judge's included
+  | 'stderr'
+  | 'workspace-diff'
+  | 'workspace';
 
 export class TestDatabase {
   private db: Database.Database;
+  private artifacts: ArtifactStore;
+  private migrationReport?: MigrationReport;
 
-  constructor(dbPath: string = './claude-test.db') {
+  // Opening upgrades the schema unless `migrate` is false (db status inspects it as found)
+  constructor(private dbPath: string = './claude-test.db', options: { migrate?: boolean } = {}) {
     this.db = new Database(dbPath);
-    this.initializeTables();
-  }
-
-  private initializeTables() {
-    // Claude files table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS claude_files (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL,
-        content TEXT NOT NULL,
-        hash TEXT UNIQUE NOT NULL,
-        description TEXT,
-        created_at INTEGER NOT NULL
-      )
-    `);
-
-    // Test suites table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS test_suites (
-        id TEXT PRIMARY KEY,
-        version TEXT NOT NULL,
-        name TEXT NOT NULL,
-        description TEXT,
-        tests TEXT NOT NULL,
-        created_at INTEGER NOT NULL
-      )
-    `);
-
-    // Test runs table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS test_runs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        claude_file_id INTEGER NOT NULL,
-        test_suite_version TEXT NOT NULL,
-        started_at INTEGER NOT NULL,
-        completed_at INTEGER,
-        status TEXT NOT NULL,
-        FOREIGN KEY (claude_file_id) REFERENCES claude_files(id)
-      )
-    `);
-
-    // Test results table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS test_results (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        test_run_id INTEGER NOT NULL,
-        test_id TEXT NOT NULL,
-        prompt TEXT NOT NULL,
-        response TEXT NOT NULL,
-        tokens_input INTEGER NOT NULL,
-        tokens_output INTEGER NOT NULL,
-        tokens_thinking INTEGER,
-        response_time_ms INTEGER NOT NULL,
-        scores TEXT NOT NULL,
-        conversation TEXT NOT NULL,
-        metrics_raw TEXT NOT NULL,
-        FOREIGN KEY (test_run_id) REFERENCES test_runs(id)
-      )
-    `);
+    this.artifacts = new ArtifactStore(this.db, {
+      compress: process.env.ARTIFACT_COMPRESSION !== 'none'
+    });
+    if (options.migrate !== false) {
+      this.migrationReport = migrate(this.db, dbPath, { artifacts: this.artifacts });
+      if (this.migrationReport.backupPath) {
+        console.warn(`Database backed up to ${this.migrationReport.backupPath} before upgrading its schema`);
+      }
+    }
+  }
+
+  getPath(): string {
+    return this.dbPath;
+  }
 
-    // Create indexes
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_test_runs_claude_file 
-      ON test_runs(claude_file_id);
-      
-      CREATE INDEX IF NOT EXISTS idx_test_results_run 
-      ON test_results(test_run_id);
-      
-      CREATE INDEX IF NOT EXISTS idx_claude_files_hash 
-      ON claude_files(hash);
-    `);
+  // What opening this database applied; undefined when opened without migrating
+  getMigrationReport(): MigrationReport | undefined {
+    return this.migrationReport;
+  }
+
+  getSchemaStatus(): SchemaStatus {
+    return getSchemaStatus(this.db);
   }
 
   // Claude file operations
@@ -149,6 +123,23 @@ export class TestDatabase {
 
   // Test suite operations
   async saveTestSuite(suite: TestSuite): Promise<void> {
+    const testsHash = hashTests(suite.tests);
+    // Suites saved before version history existed only have their current row
+    const current = await this.getTestSuite(suite.id);
+    const previousHash = await this.getSuiteVersionHash(suite.id, suite.version) ??
+      (current && current.version === suite.version ? hashTests(current.tests) : null);
+
+    if (previousHash && previousHash !== testsHash) {
+      throw new Error(
+        `Test suite ${suite.id} version ${suite.version} was already saved with different tests; bump the version`
+      );
+    }
+
+    this.db.prepare(`
+      INSERT OR IGNORE INTO test_suite_versions (suite_id, version, tests_hash, created_at)
+      VALUES (?, ?, ?, ?)
+    `).run(suite.id, suite.version, testsHash, Date.now());
+
     this.db.prepare(`
       INSERT OR REPLACE INTO test_suites (id, version, name, description, tests, created_at)
       VALUES (?, ?, ?, ?, ?, ?)
@@ -178,16 +169,52 @@ export class TestDatabase {
     };
   }
 
+  async listTestSuites(): Promise<TestSuite[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM test_suites ORDER BY id'
+    ).all() as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      version: row.version,
+      name: row.name,
+      description: row.description,
+      tests: JSON.parse(row.tests)
+    }));
+  }
+
+  async removeTestSuite(id: string): Promise<boolean> {
+    const result = this.db.prepare(
+      'DELETE FROM test_suites WHERE id = ?'
+    ).run(id);
+
+    return result.changes > 0;
+  }
+
+  async getSuiteVersionHash(suiteId: string, version: string): Promise<string | null> {
+    const row = this.db.prepare(
+      'SELECT tests_hash FROM test_suite_versions WHERE suite_id = ? AND version = ?'
+    ).get(suiteId, version) as any;
+
+    return row ? row.tests_hash : null;
+  }
+
   // Test run operations
-  async createTestRun(claudeFileId: number, testSuiteVersion: string): Promise<TestRun> {
+  async createTestRun(
+    claudeFileId: number,
+    testSuiteVersion: string,
+    options: { backend?: string; model?: string } = {}
+  ): Promise<TestRun> {
     const result = this.db.prepare(`
-      INSERT INTO test_runs (claude_file_id, test_suite_version, started_at, status)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO test_runs (claude_file_id, test_suite_version, started_at, status, backend, model)
+      VALUES (?, ?, ?, ?, ?, ?)
     `).run(
       claudeFileId,
       testSuiteVersion,
       Date.now(),
-      'pending'
+      'pending',
+      options.backend ?? null,
+      options.model ?? null
     );
 
     return {
@@ -195,7 +222,9 @@ export class TestDatabase {
       claudeFileId,
       testSuiteVersion,
       startedAt: new Date(),
-      status: 'pending'
+      status: 'pending',
+      backend: options.backend,
+      model: options.model
     };
   }
 
@@ -222,35 +251,286 @@ export class TestDatabase {
   }
 
   // Test result operations
-  async saveTestResult(result: TestResult): Promise<void> {
-    this.db.prepare(`
+  // Returns the new result's id. The bulky parts go to the artifact store.
+  async saveTestResult(result: TestResult): Promise<number> {
+    return this.db.transaction(() => {
+      const id = this.insertTestResult(result);
+      this.linkArtifact(id, 'response', result.response);
+      this.linkArtifact(id, 'transcript', JSON.stringify(result.conversation));
+      this.linkArtifact(id, 'metrics', JSON.stringify(result.metricsRaw));
+      if (result.evaluations) {
+        this.linkArtifact(id, 'evaluations', JSON.stringify(result.evaluations));
+      }
+      if (result.stderr) {
+        this.linkArtifact(id, 'stderr', result.stderr);
+      }
+      if (result.workspaceDiff) {
+        this.linkArtifact(id, 'workspace-diff', JSON.stringify(result.workspaceDiff));
+      }
+      if (result.workspaceArchive) {
+        this.linkArtifact(id, 'workspace', result.workspaceArchive);
+      }
+      return id;
+    })();
+  }
+
+  private insertTestResult(result: TestResult): number {
+    const { lastInsertRowid } = this.db.prepare(`
       INSERT INTO test_results (
-        test_run_id, test_id, prompt, response,
+        test_run_id, test_id, trial_index, prompt, response,
         tokens_input, tokens_output, tokens_thinking,
-        response_time_ms, scores, conversation, metrics_raw
+        tokens_cache_creation, tokens_cache_read, cost_usd, fixture_hash,
+        assertion_results, response_time_ms, scores, evaluations,
+        conversation, metrics_raw
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       result.testRunId,
       result.testId,
+      result.trialIndex ?? 0,
       result.prompt,
-      result.response,
+      '',
       result.tokensInput,
       result.tokensOutput,
       result.tokensThinking || null,
+      result.tokensCacheCreation ?? null,
+      result.tokensCacheRead ?? null,
+      result.costUsd ?? null,
+      result.fixtureHash ?? null,
+      result.assertionResults ? JSON.stringify(result.assertionResults) : null,
       result.responseTimeMs,
       JSON.stringify(result.scores),
-      JSON.stringify(result.conversation),
-      JSON.stringify(result.metricsRaw)
+      null,
+      '',
+      ''
     );
+    return Number(lastInsertRowid);
+  }
+
+  // Result artifacts
+  async saveResultArtifact(testResultId: number, kind: ArtifactKind, content: string | Buffer): Promise<void> {
+    this.linkArtifact(testResultId, kind, content);
+  }
+
+  async getResultArtifact(testResultId: number, kind: ArtifactKind): Promise<Buffer | null> {
+    return this.loadArtifact(testResultId, kind);
+  }
+
+  private linkArtifact(testResultId: number, kind: ArtifactKind, content: string | Buffer) {
+    const hash = this.artifacts.put(content);
+    this.db.prepare(`
+      INSERT OR REPLACE INTO artifacts (test_result_id, kind, blob_hash)
+      VALUES (?, ?, ?)
+    `).run(testResultId, kind, hash);
   }
 
-  async getTestResults(testRunId: number): Promise<TestResult[]> {
+  private loadArtifact(testResultId: number, kind: ArtifactKind): Buffer | null {
+    if (!this.db.open) {
+      throw new Error(`Cannot load the ${kind} of result ${testResultId}: the database is closed`);
+    }
+    const row = this.db.prepare(
+      'SELECT blob_hash FROM artifacts WHERE test_result_id = ? AND kind = ?'
+    ).get(testResultId, kind) as any;
+    return row ? this.artifacts.get(row.blob_hash) : null;
+  }
+
+  // Null for results saved before diffs were captured
+  async getWorkspaceDiff(testResultId: number): Promise<WorkspaceDiff | null> {
+    const content = await this.getResultArtifact(testResultId, 'workspace-diff');
+    return content ? JSON.parse(content.toString('utf-8')) : null;
+  }
+
+  // Null unless run --keep-workspaces kept this result's workspace
+  async getWorkspaceArchive(testResultId: number): Promise<Buffer | null> {
+    return this.getResultArtifact(testResultId, 'workspace');
+  }
+
+  // `scoreSet` picks which scores to return: 'latest' (the most recent rescore,
+  // falling back to the original), 'original', or a rescore label
+  async getTestResults(testRunId: number, scoreSet: string = LATEST_SCORE_SET): Promise<TestResult[]> {
     const rows = this.db.prepare(
-      'SELECT * FROM test_results WHERE test_run_id = ?'
+      'SELECT * FROM test_results WHERE test_run_id = ? ORDER BY id'
     ).all(testRunId) as any[];
 
-    return rows.map(row => this.mapTestResult(row));
+    return this.applyScoreSet(rows.map(row => this.mapTestResult(row)), scoreSet);
+  }
+
+  async getTestResult(id: number): Promise<TestResult | null> {
+    const row = this.db.prepare('SELECT * FROM test_results WHERE id = ?').get(id) as any;
+    return row ? this.mapTestResult(row) : null;
+  }
+
+  async getResultsForClaudeFile(claudeFileId: number, scoreSet: string = LATEST_SCORE_SET): Promise<TestResult[]> {
+    const rows = this.db.prepare(`
+      SELECT tr_res.* FROM test_results tr_res
+      JOIN test_runs tr ON tr.id = tr_res.test_run_id
+      WHERE tr.claude_file_id = ?
+      ORDER BY tr_res.id
+    `).all(claudeFileId) as any[];
+
+    return this.applyScoreSet(rows.map(row => this.mapTestResult(row)), scoreSet);
+  }
+
+  // Score set operations
+  async saveScoreSet(scoreSet: Omit<ScoreSet, 'id' | 'createdAt'>): Promise<void> {
+    // Rescoring with the same label replaces that set
+    this.db.prepare(`
+      INSERT OR REPLACE INTO score_sets (test_result_id, label, evaluator_versions, scores, evaluations)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(
+      scoreSet.testResultId,
+      scoreSet.label,
+      JSON.stringify(scoreSet.evaluatorVersions),
+      JSON.stringify(scoreSet.scores),
+      JSON.stringify(scoreSet.evaluations)
+    );
+  }
+
+  async getScoreSets(testResultIds: number[]): Promise<ScoreSet[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM score_sets
+      WHERE test_result_id IN (SELECT value FROM json_each(?))
+      ORDER BY id
+    `).all(JSON.stringify(testResultIds)) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      testResultId: row.test_result_id,
+      label: row.label,
+      evaluatorVersions: JSON.parse(row.evaluator_versions),
+      scores: JSON.parse(row.scores),
+      evaluations: JSON.parse(row.evaluations),
+      createdAt: new Date(row.created_at)
+    }));
+  }
+
+  private async applyScoreSet(results: TestResult[], scoreSet: string): Promise<TestResult[]> {
+    if (scoreSet === ORIGINAL_SCORE_SET || results.length === 0) {
+      return results;
+    }
+
+    // Sets come back oldest first, so later ones win for 'latest'
+    const chosen = new Map<number, ScoreSet>();
+    (await this.getScoreSets(results.map(r => r.id!))).forEach(set => {
+      if (scoreSet === LATEST_SCORE_SET || set.label === scoreSet) {
+        chosen.set(set.testResultId, set);
+      }
+    });
+
+    if (scoreSet !== LATEST_SCORE_SET && chosen.size === 0) {
+      throw new Error(`Score set not found: ${scoreSet}`);
+    }
+
+    // Assigned rather than spread, which would load every lazy artifact
+    return results.map(result => {
+      const set = chosen.get(result.id!);
+      return set
+        ? Object.assign(result, { scores: set.scores, evaluations: set.evaluations, scoreSet: set.label })
+        : result;
+    });
+  }
+
+  // Judge verdict cache
+  async getJudgeVerdict(key: string): Promise<JudgeVerdict | null> {
+    const row = this.db.prepare(
+      'SELECT score, rationale, details FROM judge_verdicts WHERE cache_key = ?'
+    ).get(key) as any;
+
+    if (!row) return null;
+
+    return {
+      score: row.score,
+      rationale: row.rationale,
+      details: row.details ? JSON.parse(row.details) : undefined
+    };
+  }
+
+  async saveJudgeVerdict(key: string, metric: string, model: string, verdict: JudgeVerdict): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO judge_verdicts (cache_key, metric, model, score, rationale, details)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(key, metric, model, verdict.score, verdict.rationale, verdict.details ? JSON.stringify(verdict.details) : null);
+  }
+
+  // Recorded sessions
+  async getRecordedSession(key: string): Promise<RecordedSession | null> {
+    const row = this.db.prepare('SELECT * FROM recorded_sessions WHERE cache_key = ?').get(key) as any;
+    return row ? this.mapRecordedSession(row) : null;
+  }
+
+  async saveRecordedSession(session: RecordedSession): Promise<void> {
+    const data = JSON.stringify(session.data);
+    this.db.prepare(`
+      INSERT OR REPLACE INTO recorded_sessions
+        (cache_key, backend, claude_md_hash, test_id, suite_version, model, trial_index, data, size_bytes)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      session.key,
+      session.backend,
+      session.claudeMdHash,
+      session.testId,
+      session.suiteVersion,
+      session.model,
+      session.trialIndex,
+      data,
+      Buffer.byteLength(data)
+    );
+  }
+
+  async markRecordedSessionReplayed(key: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE recorded_sessions
+      SET replay_count = replay_count + 1, last_used_at = CURRENT_TIMESTAMP
+      WHERE cache_key = ?
+    `).run(key);
+  }
+
+  // Per CLAUDE.md and backend; the CLAUDE.md name is missing when it was never added or was removed
+  async getRecordedSessionStats(): Promise<{
+    claudeMdHash: string;
+    claudeFileName?: string;
+    backend: string;
+    sessions: number;
+    sizeBytes: number;
+    replays: number;
+    lastUsedAt: Date;
+  }[]> {
+    const rows = this.db.prepare(`
+      SELECT rs.claude_md_hash, rs.backend,
+        (SELECT name FROM claude_files WHERE hash = rs.claude_md_hash ORDER BY id DESC LIMIT 1) as claude_file_name,
+        COUNT(*) as sessions, SUM(rs.size_bytes) as size_bytes, SUM(rs.replay_count) as replays,
+        MAX(rs.last_used_at) as last_used_at
+      FROM recorded_sessions rs
+      GROUP BY rs.claude_md_hash, rs.backend
+      ORDER BY last_used_at DESC
+    `).all() as any[];
+
+    return rows.map(row => ({
+      claudeMdHash: row.claude_md_hash,
+      claudeFileName: row.claude_file_name ?? undefined,
+      backend: row.backend,
+      sessions: row.sessions,
+      sizeBytes: row.size_bytes,
+      replays: row.replays,
+      lastUsedAt: new Date(row.last_used_at)
+    }));
+  }
+
+  // Deletes the sessions matching every given filter; returns how many went
+  async pruneRecordedSessions(filter: { unusedForDays?: number; claudeMdHash?: string }): Promise<number> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filter.unusedForDays !== undefined) {
+      conditions.push(`last_used_at < datetime('now', ?)`);
+      params.push(`-${filter.unusedForDays} days`);
+    }
+    if (filter.claudeMdHash) {
+      conditions.push('claude_md_hash = ?');
+      params.push(filter.claudeMdHash);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return this.db.prepare(`DELETE FROM recorded_sessions ${where}`).run(...params).changes;
   }
 
   async getTestRun(id: number): Promise<TestRun | null> {
@@ -266,7 +546,9 @@ export class TestDatabase {
       testSuiteVersion: row.test_suite_version,
       startedAt: new Date(row.started_at),
       completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
-      status: row.status
+      status: row.status,
+      backend: row.backend ?? undefined,
+      model: row.model ?? undefined
     };
   }
 
@@ -285,23 +567,37 @@ export class TestDatabase {
       testSuiteVersion: row.test_suite_version,
       startedAt: new Date(row.started_at),
       completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
-      status: row.status
+      status: row.status,
+      backend: row.backend ?? undefined,
+      model: row.model ?? undefined
     }));
   }
 
   // Comparison queries
-  async compareClaudeFiles(fileIds: number[]): Promise<any> {
+  async compareClaudeFiles(fileIds: number[], scoreSet: string = LATEST_SCORE_SET): Promise<any> {
     const placeholders = fileIds.map(() => '?').join(',');
+    // Read scores from the chosen score set when the result has one
+    const fromSet = (column: string) => scoreSet === ORIGINAL_SCORE_SET
+      ? `tr_res.${column}`
+      : `COALESCE((SELECT ss.${column} FROM score_sets ss WHERE ss.test_result_id = tr_res.id
+          ${scoreSet === LATEST_SCORE_SET ? '' : 'AND ss.label = @label'} ORDER BY ss.id DESC LIMIT 1), tr_res.${column})`;
+    // Scores whose evaluation failed or assessed nothing count as NULL, so AVG skips them
+    const scoreColumn = (metric: string) => `CASE
+      WHEN json_extract(${fromSet('evaluations')}, '$.${metric}.status') IN ('error', 'not_assessed') THEN NULL
+      ELSE CAST(json_extract(${fromSet('scores')}, '$.${metric}') AS REAL) END`;
     const query = `
       SELECT 
         cf.id as claude_file_id,
         cf.name as claude_file_name,
         tr.id as test_run_id,
-        AVG(CAST(json_extract(tr_res.scores, '$.correctness') AS REAL)) as avg_correctness,
-        AVG(CAST(json_extract(tr_res.scores, '$.speed') AS REAL)) as avg_speed,
-        AVG(CAST(json_extract(tr_res.scores, '$.tokenEfficiency') AS REAL)) as avg_token_efficiency,
-        AVG(CAST(json_extract(tr_res.scores, '$.codeQuality') AS REAL)) as avg_code_quality,
-        AVG(tr_res.tokens_input + tr_res.tokens_output) as avg_tokens_used,
+        AVG(${scoreColumn('correctness')}) as avg_correctness,
+        AVG(${scoreColumn('speed')}) as avg_speed,
+        AVG(${scoreColumn('tokenEfficiency')}) as avg_token_efficiency,
+        AVG(${scoreColumn('codeQuality')}) as avg_code_quality,
+        AVG(tr_res.tokens_input + tr_res.tokens_output
+          + COALESCE(tr_res.tokens_cache_creation, 0)
+          + COALESCE(tr_res.tokens_cache_read, 0)) as avg_tokens_used,
+        AVG(tr_res.cost_usd) as avg_cost_usd,
         AVG(tr_res.response_time_ms) as avg_response_time
       FROM claude_files cf
       JOIN test_runs tr ON cf.id = tr.claude_file_id
@@ -311,7 +607,7 @@ export class TestDatabase {
       ORDER BY cf.id, tr.started_at DESC
     `;
 
-    return this.db.prepare(query).all(...fileIds);
+    return this.db.prepare(query).all(...fileIds, { label: scoreSet });
   }
 
   // Helper methods
@@ -326,24 +622,81 @@ export class TestDatabase {
     };
   }
 
-  private mapTestResult(row: any): TestResult {
+  private mapRecordedSession(row: any): RecordedSession {
     return {
+      key: row.cache_key,
+      backend: row.backend,
+      claudeMdHash: row.claude_md_hash,
+      testId: row.test_id,
+      suiteVersion: row.suite_version,
+      model: row.model,
+      trialIndex: row.trial_index,
+      data: JSON.parse(row.data),
+      sizeBytes: row.size_bytes,
+      replayCount: row.replay_count,
+      createdAt: new Date(row.created_at),
+      lastUsedAt: new Date(row.last_used_at)
+    };
+  }
+
+  // Only the row's small columns are read here; the rest loads on first access
+  private mapTestResult(row: any): TestResult {
+    const result = {
       id: row.id,
       testRunId: row.test_run_id,
       testId: row.test_id,
+      trialIndex: row.trial_index,
       prompt: row.prompt,
       response: row.response,
       tokensInput: row.tokens_input,
       tokensOutput: row.tokens_output,
       tokensThinking: row.tokens_thinking,
+      tokensCacheCreation: row.tokens_cache_creation ?? undefined,
+      tokensCacheRead: row.tokens_cache_read ?? undefined,
+      costUsd: row.cost_usd ?? undefined,
+      fixtureHash: row.fixture_hash ?? undefined,
+      assertionResults: row.assertion_results ? JSON.parse(row.assertion_results) : undefined,
       responseTimeMs: row.response_time_ms,
-      scores: JSON.parse(row.scores),
-      conversation: JSON.parse(row.conversation),
-      metricsRaw: JSON.parse(row.metrics_raw)
+      scores: JSON.parse(row.scores)
+    } as TestResult;
+
+    const text = (kind: ArtifactKind) => this.loadArtifact(row.id, kind)?.toString('utf-8');
+    const json = (kind: ArtifactKind) => {
+      const content = text(kind);
+      return content === undefined ? undefined : JSON.parse(content);
     };
+    defineLazy(result, 'response', () => text('response') ?? '');
+    defineLazy(result, 'conversation', () => json('transcript'));
+    defineLazy(result, 'metricsRaw', () => json('metrics'));
+    defineLazy(result, 'evaluations', () => json('evaluations'));
+    defineLazy(result, 'stderr', () => text('stderr'));
+    // Rescoring judges are shown this patch; undefined for results saved before diffs were captured
+    defineLazy(result, 'workspaceDiff', () => json('workspace-diff'));
+    return result;
   }
 
   close() {
     this.db.close();
   }
-}
\ No newline at end of file
+}
+
+// An enumerable property that runs `load` on first read; assigning replaces it without loading
+function defineLazy<K extends keyof TestResult>(result: TestResult, field: K, load: () => TestResult[K]) {
+  let loaded = false;
+  let value: TestResult[K];
+  Object.defineProperty(result, field, {
+    enumerable: true,
+    configurable: true,
+    get: () => {
+      if (!loaded) {
+        value = load();
+        loaded = true;
+      }
+      return value;
+    },
+    set: (newValue: TestResult[K]) => {
+      value = newValue;
+      loaded = true;
+    }
+  });
+}
@@ -0,0 +1,201 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { TestDatabase } from './database';
+import { ArtifactStore } from './artifact-store';
+import { migrate, MIGRATIONS, LATEST_SCHEMA_VERSION } from './migrations';
+
+const FIXTURES = path.join(__dirname, '__fixtures__');
+
+// Databases written by earlier releases, before versions were tracked. Each
+// holds one completed run of two results; the name gives the schema it matches.
+const FIXTURE_DBS = [
+  { file: 'v0-baseline.db', since: 0 },           // Original schema
+  { file: 'v5-assertions.db', since: 5 },         // Usage, trials, fixtures, assertions, suite history
+  { file: 'v8-result-artifacts.db', since: 8 },   // Evaluations, judge cache, recordings, result_artifacts
+  { file: 'v9-artifact-store.db', since: 9 }      // Result data already in the artifact store
+];
+
+function tableNames(dbPath: string): string[] {
+  const db = new Database(dbPath, { readonly: true });
+  try {
+    return (db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`).all() as any[]).map(row => row.name);
+  } finally {
+    db.close();
+  }
+}
+
+function resultRows(dbPath: string): any[] {
+  const db = new Database(dbPath, { readonly: true });
+  try {
+    return db.prepare('SELECT * FROM test_results ORDER BY id').all();
+  } finally {
+    db.close();
+  }
+}
+
+describe('schema migrations', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-test-migrations-'));
+    // Opening a database announces its backup
+    mock.method(console, 'warn', () => {});
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function copyFixture(file: string): Promise<string> {
+    const dbPath = path.join(dir, `${path.basename(file, '.db')}-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+    await fs.copyFile(path.join(FIXTURES, file), dbPath);
+    return dbPath;
+  }
+
+  for (const fixture of FIXTURE_DBS) {
+    describe(fixture.file, () => {
+      it(`migrates to version ${LATEST_SCHEMA_VERSION} and keeps the run`, async () => {
+        const dbPath = await copyFixture(fixture.file);
+        const db = new TestDatabase(dbPath);
+        try {
+          const report = db.getMigrationReport()!;
+          assert.equal(report.from, 0);
+          assert.equal(report.to, LATEST_SCHEMA_VERSION);
+          assert.deepEqual(db.getSchemaStatus().applied.map(step => step.version), MIGRATIONS.map(step => step.version));
+
+          assert.equal((await db.getClaudeFileByName('baseline'))!.content, '# Rules\n- Use TypeScript\n');
+          assert.deepEqual((await db.getTestSuite('basic'))!.tests.map(test => test.id), ['greet', 'fix-port']);
+          const run = (await db.getTestRun(1))!;
+          assert.equal(run.status, 'completed');
+          assert.equal(run.backend, undefined);
+
+          const results = await db.getTestResults(1);
+          assert.deepEqual(results.map(r => r.testId), ['greet', 'fix-port']);
+          assert.deepEqual(results.map(r => r.response), ['Response for greet', 'Response for fix-port']);
+          assert.deepEqual(results.map(r => r.scores.correctness), [10, 9]);
+          assert.equal(results[0].conversation.messages[1].content, 'Response for greet');
+          assert.equal(results[0].conversation.modelConfig.model, 'claude-fixture');
+          assert.deepEqual(results.map(r => r.trialIndex), [0, 0]);
+
+          if (fixture.since >= 5) {
+            assert.equal(results[0].costUsd, 0.01);
+            assert.equal(results[1].fixtureHash, 'f1x7');
+            assert.equal(results[0].assertionResults![0].passed, true);
+          } else {
+            // Columns added later stay unknown for old rows
+            assert.equal(results[0].costUsd, undefined);
+            assert.equal(results[0].assertionResults, undefined);
+          }
+
+          if (fixture.since >= 8) {
+            assert.equal(results[0].evaluations!.correctness!.rationale, 'Assertions');
+            assert.match(results[0].workspaceDiff!.patch, /\+exports\.greet = \(name\) => `Hello, \$\{name\}!`;/);
+            assert.equal(results[1].workspaceDiff, undefined);
+            assert.equal((await db.getJudgeVerdict('verdict-key'))!.score, 6);
+            assert.equal((await db.getRecordedSession('session-key'))!.testId, 'greet');
+          }
+        } finally {
+          db.close();
+        }
+
+        assert.ok(!tableNames(dbPath).includes('result_artifacts'));
+        assert.ok(resultRows(dbPath).every(row => row.conversation === '' && row.response === ''));
+      });
+
+      it('backs the database up before the destructive artifact-store migration', async () => {
+        const dbPath = await copyFixture(fixture.file);
+        const original = resultRows(dbPath);
+        const originalTables = tableNames(dbPath);
+
+        const db = new TestDatabase(dbPath);
+        const { backupPath } = db.getMigrationReport()!;
+        db.close();
+
+        assert.ok(backupPath);
+        assert.match(path.basename(backupPath), /\.v0-\d{8}T\d{6}\.bak$/);
+        assert.deepEqual(tableNames(backupPath), originalTables);
+        assert.deepEqual(resultRows(backupPath), original);
+      });
+    });
+  }
+
+  it('applies nothing when the database is already current', async () => {
+    const dbPath = await copyFixture('v8-result-artifacts.db');
+    new TestDatabase(dbPath).close();
+
+    const db = new TestDatabase(dbPath);
+    try {
+      assert.deepEqual(db.getMigrationReport(), { from: LATEST_SCHEMA_VERSION, to: LATEST_SCHEMA_VERSION, applied: [] });
+      assert.equal((await db.getTestResults(1)).length, 2);
+    } finally {
+      db.close();
+    }
+  });
+
+  it('creates a new database without a backup', async () => {
+    const dbPath = path.join(dir, 'fresh.db');
+    const db = new TestDatabase(dbPath);
+    try {
+      const report = db.getMigrationReport()!;
+      assert.equal(report.to, LATEST_SCHEMA_VERSION);
+      assert.equal(report.backupPath, undefined);
+    } finally {
+      db.close();
+    }
+  });
+
+  it('rolls every step back when a migration fails', async () => {
+    const dbPath = await copyFixture('v8-result-artifacts.db');
+    const original = resultRows(dbPath);
+    const originalTables = tableNames(dbPath);
+
+    MIGRATIONS.push({
+      version: LATEST_SCHEMA_VERSION + 1,
+      name: 'Fails halfway',
+      up(db) {
+        db.exec('CREATE TABLE half_done (id INTEGER)');
+        throw new Error('Migration failed');
+      }
+    });
+    const db = new Database(dbPath);
+    try {
+      assert.throws(() => migrate(db, dbPath, { artifacts: new ArtifactStore(db) }), /Migration failed/);
+    } finally {
+      MIGRATIONS.pop();
+      db.close();
+    }
+
+    assert.deepEqual(tableNames(dbPath), originalTables);
+    assert.deepEqual(resultRows(dbPath), original);
+
+    // The backup taken before the failed attempt stays
+    const backups = (await fs.readdir(dir)).filter(name => name.startsWith(path.basename(dbPath)) && name.endsWith('.bak'));
+    assert.equal(backups.length, 1);
+    await fs.rename(path.join(dir, backups[0]), path.join(dir, `${backups[0]}.kept`));
+
+    // The failed attempt leaves the database as it was, so a fixed release upgrades it
+    const reopened = new TestDatabase(dbPath);
+    try {
+      assert.equal(reopened.getSchemaStatus().current, LATEST_SCHEMA_VERSION);
+      assert.equal((await reopened.getTestResults(1))[0].response, 'Response for greet');
+    } finally {
+      reopened.close();
+    }
+  });
+
+  it('refuses a database from a newer release', async () => {
+    const dbPath = await copyFixture('v0-baseline.db');
+    new TestDatabase(dbPath).close();
+
+    const db = new Database(dbPath);
+    db.prepare('INSERT INTO schema_version (version, name) VALUES (?, ?)').run(LATEST_SCHEMA_VERSION + 1, 'From the future');
+    db.close();
+
+    assert.throws(() => new TestDatabase(dbPath), /newer than this version of claude-test supports/);
+  });
+});
@@ -0,0 +1,347 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import { ArtifactStore } from './artifact-store';
+
+export interface MigrationContext {
+  artifacts: ArtifactStore;
+}
+
+/**
+ * One step of the schema's history. Databases written before versions were
+ * tracked start at 0 and replay every step, so each one must also work on a
+ * database that already has some of its changes (hence IF NOT EXISTS and
+ * addColumnIfMissing). Shipped migrations are never edited; add a new one.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  destructive?: boolean;      // Drops or rewrites data; the database is backed up first
+  up(db: Database.Database, context: MigrationContext): void;
+}
+
+export interface MigrationReport {
+  from: number;
+  to: number;
+  applied: Migration[];
+  backupPath?: string;
+}
+
+export interface SchemaStatus {
+  current: number;
+  latest: number;
+  applied: { version: number; name: string; appliedAt: Date }[];
+  pending: Migration[];
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Initial schema',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS claude_files (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          content TEXT NOT NULL,
+          hash TEXT UNIQUE NOT NULL,
+          description TEXT,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS test_suites (
+          id TEXT PRIMARY KEY,
+          version TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          tests TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS test_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          claude_file_id INTEGER NOT NULL,
+          test_suite_version TEXT NOT NULL,
+          started_at INTEGER NOT NULL,
+          completed_at INTEGER,
+          status TEXT NOT NULL,
+          FOREIGN KEY (claude_file_id) REFERENCES claude_files(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS test_results (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          test_run_id INTEGER NOT NULL,
+          test_id TEXT NOT NULL,
+          prompt TEXT NOT NULL,
+          response TEXT NOT NULL,
+          tokens_input INTEGER NOT NULL,
+          tokens_output INTEGER NOT NULL,
+          tokens_thinking INTEGER,
+          response_time_ms INTEGER NOT NULL,
+          scores TEXT NOT NULL,
+          conversation TEXT NOT NULL,
+          metrics_raw TEXT NOT NULL,
+          FOREIGN KEY (test_run_id) REFERENCES test_runs(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_test_runs_claude_file ON test_runs(claude_file_id);
+        CREATE INDEX IF NOT EXISTS idx_test_results_run ON test_results(test_run_id);
+        CREATE INDEX IF NOT EXISTS idx_claude_files_hash ON claude_files(hash);
+      `);
+    }
+  },
+  {
+    // Rows written before usage was captured keep NULL (unknown) values
+    version: 2,
+    name: 'Cache token usage and cost on results',
+    up(db) {
+      addColumnIfMissing(db, 'test_results', 'tokens_cache_creation', 'INTEGER');
+      addColumnIfMissing(db, 'test_results', 'tokens_cache_read', 'INTEGER');
+      addColumnIfMissing(db, 'test_results', 'cost_usd', 'REAL');
+    }
+  },
+  {
+    version: 3,
+    name: 'Trial index on results',
+    up(db) {
+      addColumnIfMissing(db, 'test_results', 'trial_index', 'INTEGER NOT NULL DEFAULT 0');
+    }
+  },
+  {
+    version: 4,
+    name: 'Fixtures and assertions on results',
+    up(db) {
+      addColumnIfMissing(db, 'test_results', 'fixture_hash', 'TEXT');
+      addColumnIfMissing(db, 'test_results', 'assertion_results', 'TEXT');
+    }
+  },
+  {
+    // Every (suite, version) ever saved, so a version string is never reused
+    // for a different list of tests even after the suite is replaced or removed
+    version: 5,
+    name: 'Suite version history',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS test_suite_versions (
+          suite_id TEXT NOT NULL,
+          version TEXT NOT NULL,
+          tests_hash TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          PRIMARY KEY (suite_id, version)
+        )
+      `);
+    }
+  },
+  {
+    // test_results.scores always keeps the original; rescores add sets
+    version: 6,
+    name: 'Evaluations and rescored score sets',
+    up(db) {
+      addColumnIfMissing(db, 'test_results', 'evaluations', 'TEXT');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS score_sets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          test_result_id INTEGER NOT NULL,
+          label TEXT NOT NULL,
+          evaluator_versions TEXT NOT NULL,
+          scores TEXT NOT NULL,
+          evaluations TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (test_result_id, label),
+          FOREIGN KEY (test_result_id) REFERENCES test_results(id)
+        )
+      `);
+    }
+  },
+  {
+    // Keyed by a hash of everything the judge was shown
+    version: 7,
+    name: 'LLM judge verdict cache',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS judge_verdicts (
+          cache_key TEXT PRIMARY KEY,
+          metric TEXT NOT NULL,
+          model TEXT NOT NULL,
+          score REAL NOT NULL,
+          rationale TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      addColumnIfMissing(db, 'judge_verdicts', 'details', 'TEXT');
+    }
+  },
+  {
+    version: 8,
+    name: 'Recorded sessions for run --record/--replay',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS recorded_sessions (
+          cache_key TEXT PRIMARY KEY,
+          backend TEXT NOT NULL,
+          claude_md_hash TEXT NOT NULL,
+          test_id TEXT NOT NULL,
+          suite_version TEXT NOT NULL,
+          model TEXT NOT NULL,
+          trial_index INTEGER NOT NULL,
+          data TEXT NOT NULL,
+          size_bytes INTEGER NOT NULL,
+          replay_count INTEGER NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_recorded_sessions_claude_md ON recorded_sessions(claude_md_hash);
+      `);
+    }
+  },
+  {
+    // Results held their response, transcript, metrics and evaluations inline,
+    // and diffs and kept workspaces sat in result_artifacts. Both move to the
+    // artifact store; the emptied columns stay for older versions to read.
+    version: 9,
+    name: 'Content-addressed artifact store',
+    destructive: true,
+    up(db, { artifacts }) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS artifact_blobs (
+          hash TEXT PRIMARY KEY,
+          encoding TEXT NOT NULL,
+          content BLOB NOT NULL,
+          size_bytes INTEGER NOT NULL,
+          stored_bytes INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS artifacts (
+          test_result_id INTEGER NOT NULL,
+          kind TEXT NOT NULL,
+          blob_hash TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (test_result_id, kind),
+          FOREIGN KEY (test_result_id) REFERENCES test_results(id),
+          FOREIGN KEY (blob_hash) REFERENCES artifact_blobs(hash)
+        );
+      `);
+
+      const link = db.prepare('INSERT OR REPLACE INTO artifacts (test_result_id, kind, blob_hash) VALUES (?, ?, ?)');
+      const inlineRows = db.prepare(
+        `SELECT id, response, conversation, metrics_raw, evaluations FROM test_results WHERE conversation != ''`
+      ).all() as any[];
+      for (const row of inlineRows) {
+        link.run(row.id, 'response', artifacts.put(row.response));
+        link.run(row.id, 'transcript', artifacts.put(row.conversation));
+        link.run(row.id, 'metrics', artifacts.put(row.metrics_raw));
+        if (row.evaluations) link.run(row.id, 'evaluations', artifacts.put(row.evaluations));
+      }
+      db.exec(`UPDATE test_results SET response = '', conversation = '', metrics_raw = '', evaluations = NULL WHERE conversation != ''`);
+
+      if (hasTable(db, 'result_artifacts')) {
+        const oldArtifacts = db.prepare('SELECT test_result_id, kind, content FROM result_artifacts').all() as any[];
+        for (const artifact of oldArtifacts) {
+          link.run(artifact.test_result_id, artifact.kind, artifacts.put(Buffer.from(artifact.content)));
+        }
+        db.exec('DROP TABLE result_artifacts');
+      }
+    }
+  },
+  {
+    version: 10,
+    name: 'Backend and model on test runs',
+    up(db) {
+      addColumnIfMissing(db, 'test_runs', 'backend', 'TEXT');
+      addColumnIfMissing(db, 'test_runs', 'model', 'TEXT');
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Read-only; a database that predates version tracking is at version 0
+export function getSchemaStatus(db: Database.Database): SchemaStatus {
+  const rows = hasTable(db, 'schema_version')
+    ? db.prepare('SELECT version, name, applied_at FROM schema_version ORDER BY version').all() as any[]
+    : [];
+  const current = rows.length > 0 ? rows[rows.length - 1].version : 0;
+
+  return {
+    current,
+    latest: LATEST_SCHEMA_VERSION,
+    applied: rows.map(row => ({ version: row.version, name: row.name, appliedAt: new Date(row.applied_at) })),
+    pending: MIGRATIONS.filter(migration => migration.version > current)
+  };
+}
+
+/**
+ * Applies every pending migration in one transaction, so a failure leaves
+ * the database exactly as it was. Before a destructive migration touches a
+ * database that already held data, a copy is written next to it.
+ */
+export function migrate(db: Database.Database, dbPath: string, context: MigrationContext): MigrationReport {
+  const existing = hasTable(db, 'test_results');
+  const status = getSchemaStatus(db);
+
+  if (status.current > status.latest) {
+    throw new Error(
+      `Database schema is at version ${status.current}, newer than this version of claude-test supports (${status.latest}). Upgrade claude-test.`
+    );
+  }
+
+  const report: MigrationReport = { from: status.current, to: status.current, applied: [] };
+  if (status.pending.length === 0) return report;
+
+  const destructive = status.pending.some(migration => migration.destructive);
+  if (destructive && existing && dbPath !== ':memory:') {
+    report.backupPath = backupDatabase(db, dbPath, status.current);
+  }
+
+  db.transaction(() => {
+    ensureVersionTable(db);
+    const record = db.prepare('INSERT INTO schema_version (version, name) VALUES (?, ?)');
+    for (const migration of status.pending) {
+      migration.up(db, context);
+      record.run(migration.version, migration.name);
+    }
+  })();
+
+  report.applied = status.pending;
+  report.to = status.pending[status.pending.length - 1].version;
+
+  // Give back the space a destructive migration freed; VACUUM cannot run in a transaction
+  if (destructive && existing) {
+    db.exec('VACUUM');
+  }
+
+  return report;
+}
+
+// A consistent copy, e.g. claude-test.db.v8-20261019T153500.bak
+function backupDatabase(db: Database.Database, dbPath: string, version: number): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').slice(0, 15);
+  const backupPath = `${dbPath}.v${version}-${stamp}.bak`;
+  if (fs.existsSync(backupPath)) {
+    throw new Error(`Backup already exists: ${backupPath}`);
+  }
+  db.prepare('VACUUM INTO ?').run(backupPath);
+  return backupPath;
+}
+
+function ensureVersionTable(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+function hasTable(db: Database.Database, table: string): boolean {
+  return !!db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(table);
+}
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as any[];
+  if (!columns.some(col => col.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
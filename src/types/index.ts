@@ -22,6 +22,83 @@ export interface Test {
   expectedBehavior?: string;
   evaluationCriteria?: Record<string, string>;
   timeout?: number;
+  fixtures?: TestFixtures;
+  assertions?: TestAssertion[];
+  faults?: FaultSpec[];
+}
+
+// Files copied into the workspace before the agent starts
+export interface TestFixtures {
+  path?: string;                    // Fixture directory or .tar/.tar.gz/.tgz
+  files?: Record<string, string>;   // Inline files (workspace-relative path → content), applied after `path`
+}
+
+// Post-conditions checked against the final workspace before it is cleaned up
+export type TestAssertion =
+  | FileExistsAssertion
+  | FileContainsAssertion
+  | CommandAssertion
+  | JsonPathAssertion;
+
+export interface FileExistsAssertion {
+  type: 'file-exists';
+  path: string;
+  description?: string;
+}
+
+export interface FileContainsAssertion {
+  type: 'file-contains';
+  path: string;
+  contains?: string;
+  matches?: string;                 // Regular expression source
+  flags?: string;
+  description?: string;
+}
+
+export interface CommandAssertion {
+  type: 'command';
+  command: string;                  // Run with `sh -c` in the workspace
+  exitCode?: number;                // Defaults to 0
+  timeout?: number;
+  description?: string;
+}
+
+export interface JsonPathAssertion {
+  type: 'json-path';
+  path: string;                     // JSON file in the workspace
+  query: string;                    // e.g. "$.scripts.test" or "$.items[0].id"
+  equals?: any;                     // Omit to only require that the value exists
+  description?: string;
+}
+
+// A tool failure the API backend injects on purpose, to exercise error recovery
+export interface FaultSpec {
+  tool: 'file_read' | 'file_write' | 'file_edit' | 'bash_execute' | 'list_directory';
+  path?: string;                    // Only calls on this path
+  command?: string;                 // Only commands containing this text (bash_execute)
+  occurrence?: number;              // First matching call affected, 1-based; defaults to 1
+  times?: number;                   // Consecutive matching calls affected; defaults to 1
+  effect: 'error' | 'exit-code' | 'truncate';
+  message?: string;                 // error: the error the tool reports
+  exitCode?: number;                // exit-code: defaults to 1
+  stderr?: string;                  // exit-code: the command's output
+  truncateTo?: number;              // truncate (file_read only): characters kept; defaults to half
+}
+
+export interface InjectedFault {
+  faultIndex: number;               // Position in the test's `faults`
+  tool: string;
+  target: string;
+  effect: FaultSpec['effect'];
+  toolCallIndex: number;            // Index into RawMetrics.allToolCalls
+  timestamp: number;
+}
+
+export interface AssertionResult {
+  assertion: TestAssertion;
+  passed: boolean;
+  output: string;
+  durationMs: number;
 }
 
 export interface TestRun {
@@ -31,21 +108,48 @@ export interface TestRun {
   startedAt: Date;
   completedAt?: Date;
   status: 'pending' | 'running' | 'completed' | 'failed';
+  backend?: string;           // Missing on runs recorded before it was stored
+  model?: string;             // Only when one was chosen with --model
 }
 
 export interface TestResult {
   id?: number;
   testRunId: number;
   testId: string;
+  trialIndex?: number;        // 0-based trial when a test is repeated within a run
   prompt: string;
   response: string;
   tokensInput: number;
   tokensOutput: number;
   tokensThinking?: number;
+  tokensCacheCreation?: number;
+  tokensCacheRead?: number;
+  costUsd?: number;           // As reported by the CLI/API, not estimated
+  fixtureHash?: string;       // Hash of the workspace files the test started from
+  assertionResults?: AssertionResult[];
   responseTimeMs: number;
   scores: MetricScores;
+  evaluations?: MetricEvaluations; // How each score was reached, or why it could not be
+  scoreSet?: string;          // Label of the rescored set `scores` came from; unset for the original
   conversation: ConversationHistory;
   metricsRaw: RawMetrics;
+  stderr?: string;            // What the agent process wrote to stderr (cli backend)
+  workspaceDiff?: WorkspaceDiff; // What the agent changed; stored apart from the result row
+  workspaceArchive?: Buffer;  // The final workspace as a .tar.gz, when run --keep-workspaces kept it
+}
+
+export interface WorkspaceFileChange {
+  path: string;               // Relative to the workspace
+  status: 'added' | 'modified' | 'deleted';
+  binary?: boolean;           // Not diffed line by line
+  insertions: number;
+  deletions: number;
+}
+
+// The workspace after the agent ran, against the workspace it started from
+export interface WorkspaceDiff {
+  files: WorkspaceFileChange[];
+  patch: string;              // Unified diff of every changed text file, git style
 }
 
 export interface MetricScores {
@@ -60,6 +164,34 @@ export interface MetricScores {
   errorRecovery: number;    // 0-10
 }
 
+// One evaluator's verdict on one metric. When evaluation fails, or there was
+// nothing to assess, the score is left as it was and the metric is excluded
+// from aggregates.
+export interface MetricEvaluation {
+  status: 'scored' | 'not_assessed' | 'error';
+  score: number;
+  rationale?: string;
+  evidence?: string[];
+  confidence?: number;        // 0-1
+  details?: Record<string, any>; // Evaluator-specific breakdown, e.g. per-rule verdicts
+  error?: string;
+  durationMs: number;
+}
+
+export type MetricEvaluations = Partial<Record<keyof MetricScores, MetricEvaluation>>;
+
+// Scores produced by re-running evaluators over a stored result. The result's
+// original scores are never overwritten; each rescore adds a set.
+export interface ScoreSet {
+  id?: number;
+  testResultId: number;
+  label: string;
+  evaluatorVersions: Record<string, string>; // Metric → version of the evaluator that scored it
+  scores: MetricScores;
+  evaluations: MetricEvaluations;
+  createdAt: Date;
+}
+
 export interface ConversationHistory {
   messages: Message[];
   totalDurationMs: number;
@@ -80,6 +212,8 @@ export interface Message {
     input: number;
     output: number;
     thinking?: number;
+    cacheCreation?: number;
+    cacheRead?: number;
   };
 }
 
@@ -88,7 +222,9 @@ export interface ToolCall {
   parameters: any;
   result: any;
   executionTimeMs: number;
+  startedAt?: number;         // Epoch ms; missing on results recorded before it was captured
   error?: string;
+  injectedFault?: number;     // Index of the test fault that produced this result
 }
 
 export interface RawMetrics {
@@ -97,11 +233,14 @@ export interface RawMetrics {
   commandsExecuted: CommandExecution[];
   errorsEncountered: ErrorEvent[];
   retryAttempts: number;
+  injectedFaults?: InjectedFault[];
 }
 
 export interface FileOperation {
-  type: 'read' | 'write' | 'delete' | 'edit';
-  path: string;
+  type: 'read' | 'write' | 'delete' | 'edit' | 'mkdir' | 'rename' | 'copy' | 'stat' | 'glob' | 'grep';
+  path: string;               // rename/copy: the destination; glob/grep: the directory searched
+  from?: string;              // rename/copy: the source
+  pattern?: string;           // glob/grep
   content?: string;
   timestamp: number;
   success: boolean;
@@ -113,6 +252,11 @@ export interface CommandExecution {
   exitCode: number;
   timestamp: number;
   durationMs: number;
+  // Set when the command really ran (api backend with the sandbox)
+  stdout?: string;
+  stderr?: string;
+  timedOut?: boolean;
+  truncated?: boolean;        // Output went past the sandbox's cap
 }
 
 export interface ErrorEvent {
@@ -129,4 +273,25 @@ export interface VirtualFile {
   createdAt: number;
   modifiedAt: number;
   permissions: string;
+}
+
+export interface VirtualDirectory {
+  path: string;
+  createdAt: number;
+  modifiedAt: number;
+}
+
+export interface VirtualFileStat {
+  path: string;
+  type: 'file' | 'directory';
+  size: number;               // Characters for a file, entries for a directory
+  createdAt: number;
+  modifiedAt: number;
+  permissions: string;
+}
+
+export interface GrepMatch {
+  path: string;
+  line: number;               // 1-based
+  text: string;
 }
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { TestResult, MetricScores } from '../types';
+import { comparePaired, PairedComparison, PairedComparisonOptions, PairedGroup } from './statistics';
+
+export interface ComparedMetric {
+  name: string;
+  higherIsBetter: boolean;
+  value: (result: TestResult) => number;
+  applies?: (result: TestResult) => boolean; // Rows without a meaningful value are skipped
+}
+
+export const SCORE_METRICS: (keyof MetricScores)[] = [
+  'correctness',
+  'speed',
+  'tokenEfficiency',
+  'documentation',
+  'codeQuality',
+  'security',
+  'instructionAdherence',
+  'consistency',
+  'errorRecovery'
+];
+
+// False when the metric's evaluator failed or had nothing to assess, so the stored score means nothing
+export function hasScore(result: Pick<TestResult, 'evaluations'>, metric: keyof MetricScores): boolean {
+  const status = result.evaluations?.[metric]?.status;
+  return status !== 'error' && status !== 'not_assessed';
+}
+
+export function overallScore(result: TestResult): number {
+  const values = (Object.keys(result.scores) as (keyof MetricScores)[])
+    .filter(metric => hasScore(result, metric))
+    .map(metric => result.scores[metric]);
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+export const COMPARED_METRICS: ComparedMetric[] = [
+  { name: 'overall', higherIsBetter: true, value: overallScore },
+  ...SCORE_METRICS.map(metric => ({
+    name: metric,
+    higherIsBetter: true,
+    value: (result: TestResult) => result.scores[metric],
+    applies: (result: TestResult) => hasScore(result, metric)
+  })),
+  {
+    name: 'tokens',
+    higherIsBetter: false,
+    value: (result: TestResult) => result.tokensInput + result.tokensOutput +
+      (result.tokensCacheCreation || 0) + (result.tokensCacheRead || 0)
+  },
+  // Cost is unknown for rows recorded before it was captured
+  {
+    name: 'costUsd',
+    higherIsBetter: false,
+    value: (result: TestResult) => result.costUsd || 0,
+    applies: (result: TestResult) => result.costUsd !== undefined
+  },
+  { name: 'responseTimeMs', higherIsBetter: false, value: (result: TestResult) => result.responseTimeMs }
+];
+
+export interface ResultSetComparison {
+  pairedTests: string[];
+  unpairedTests: string[];
+  metrics: Record<string, PairedComparison>;
+}
+
+/**
+ * Pairs two sets of results by testId (every run and trial of a test is one
+ * group) and compares each metric with a paired bootstrap/permutation test.
+ * Tests that only one side has run are reported but not compared.
+ */
+export function compareResultSets(
+  baseline: TestResult[],
+  candidate: TestResult[],
+  options: Omit<PairedComparisonOptions, 'higherIsBetter'> = {},
+  metrics: ComparedMetric[] = COMPARED_METRICS
+): ResultSetComparison {
+  const baselineByTest = groupByTest(baseline);
+  const candidateByTest = groupByTest(candidate);
+
+  const allTests = new Set([...baselineByTest.keys(), ...candidateByTest.keys()]);
+  const pairedTests = Array.from(allTests).filter(id => baselineByTest.has(id) && candidateByTest.has(id)).sort();
+  const unpairedTests = Array.from(allTests).filter(id => !pairedTests.includes(id)).sort();
+
+  const compared: Record<string, PairedComparison> = {};
+  metrics.forEach(metric => {
+    const applies = metric.applies || (() => true);
+    const groups: PairedGroup[] = pairedTests.map(testId => ({
+      baseline: baselineByTest.get(testId)!.filter(applies).map(metric.value),
+      candidate: candidateByTest.get(testId)!.filter(applies).map(metric.value)
+    }));
+
+    compared[metric.name] = comparePaired(groups, { ...options, higherIsBetter: metric.higherIsBetter });
+  });
+
+  return { pairedTests, unpairedTests, metrics: compared };
+}
+
+function groupByTest(results: TestResult[]): Map<string, TestResult[]> {
+  const groups = new Map<string, TestResult[]>();
+  results.forEach(result => {
+    if (!groups.has(result.testId)) {
+      groups.set(result.testId, []);
+    }
+    groups.get(result.testId)!.push(result);
+  });
+  return groups;
+}
@@ -0,0 +1,170 @@
+// Line diffs and unified patches, as `diff -u` / `git diff` print them
+
+export interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;               // Includes its trailing newline, if it has one
+}
+
+// Past this many changed lines Myers' search gets expensive; the change is
+// then reported as a whole-block replacement, which is still a valid patch.
+const MAX_EDIT_DISTANCE = 2000;
+
+const CONTEXT_LINES = 3;
+
+// Splits text into lines that keep their terminators, so a missing final newline is a difference
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * The shortest edit script turning `a` into `b` (Myers' O(ND) algorithm),
+ * after stripping the common prefix and suffix.
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const oldMiddle = a.slice(start, endA);
+  const newMiddle = b.slice(start, endB);
+  const middle = shortestEdit(oldMiddle, newMiddle) ?? [
+    ...oldMiddle.map(line => ({ type: 'delete' as const, line })),
+    ...newMiddle.map(line => ({ type: 'insert' as const, line }))
+  ];
+
+  return [
+    ...a.slice(0, start).map(line => ({ type: 'equal' as const, line })),
+    ...middle,
+    ...a.slice(endA).map(line => ({ type: 'equal' as const, line }))
+  ];
+}
+
+/**
+ * Hunks of a unified diff for an edit script from `diffLines`, without the
+ * file headers. Empty when nothing changed.
+ */
+export function unifiedHunks(ops: DiffOp[], context: number = CONTEXT_LINES): string {
+  const hunks: string[] = [];
+
+  // Old and new line numbers (0-based) at each op
+  const positions: { oldLine: number; newLine: number }[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const op of ops) {
+    positions.push({ oldLine, newLine });
+    if (op.type !== 'insert') oldLine++;
+    if (op.type !== 'delete') newLine++;
+  }
+
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === 'equal') {
+      i++;
+      continue;
+    }
+
+    // Grow the hunk while the next change is close enough to share context
+    const first = Math.max(0, i - context);
+    let last = i;
+    for (let j = i; j < ops.length; j++) {
+      if (ops[j].type !== 'equal') {
+        last = j;
+      } else if (j - last > context * 2) {
+        break;
+      }
+    }
+    const end = Math.min(ops.length, last + context + 1);
+
+    const slice = ops.slice(first, end);
+    const oldCount = slice.filter(op => op.type !== 'insert').length;
+    const newCount = slice.filter(op => op.type !== 'delete').length;
+    const { oldLine: oldStart, newLine: newStart } = positions[first];
+
+    const lines = [`@@ -${range(oldStart, oldCount)} +${range(newStart, newCount)} @@`];
+    for (const op of slice) {
+      const prefix = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+';
+      if (op.line.endsWith('\n')) {
+        lines.push(prefix + op.line.slice(0, -1));
+      } else {
+        lines.push(prefix + op.line, '\\ No newline at end of file');
+      }
+    }
+    hunks.push(lines.join('\n'));
+
+    i = end;
+  }
+
+  return hunks.length > 0 ? hunks.join('\n') + '\n' : '';
+}
+
+// An empty range is numbered by the line before it, as diff does
+function range(start: number, count: number): string {
+  const first = count === 0 ? start : start + 1;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+function shortestEdit(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b, offset);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[], offset: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', line: b[y - 1] });
+      } else {
+        ops.push({ type: 'delete', line: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
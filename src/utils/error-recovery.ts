@@ -0,0 +1,211 @@
+import * as path from 'path';
+import { RawMetrics, ToolCall } from '../types';
+
+export type FailureCategory = 'non-zero-exit' | 'edit-mismatch' | 'file-not-found' | 'tool-error';
+
+type StepKind = 'read' | 'write' | 'edit' | 'command' | 'other';
+
+/**
+ * A failed attempt at one goal (editing a file, running a command) and what
+ * happened next. Repeated failures at the same goal belong to one episode;
+ * it is recovered once a later call reaches that goal.
+ */
+export interface FailureEpisode {
+  kind: StepKind;
+  tool: string;
+  target: string;             // File path, command, or the tool's parameters
+  category: FailureCategory;
+  error: string;              // First failure message
+  failedAt?: number;
+  attempts: number;           // Failed calls in this episode
+  injected: boolean;          // Started by a fault the test injected rather than a real failure
+  recovered: boolean;
+  stepsToRecover?: number;    // Calls between the first failure and the fix
+  recoveryMs?: number;
+  failedCalls: number[];      // Indexes into allToolCalls (or commandsExecuted)
+}
+
+interface Step {
+  index: number;
+  tool: string;
+  kind: StepKind;
+  target: string;
+  error?: string;
+  injected?: boolean;
+  timestamp?: number;
+}
+
+const FILE_TOOLS: Record<string, StepKind> = {
+  Read: 'read',
+  file_read: 'read',
+  Write: 'write',
+  file_write: 'write',
+  Edit: 'edit',
+  MultiEdit: 'edit',
+  NotebookEdit: 'edit',
+  file_edit: 'edit'
+};
+
+const COMMAND_TOOLS = new Set(['Bash', 'bash_execute']);
+
+/**
+ * Walks the session's tool calls in order (or its commands, when no tool
+ * calls were captured) and groups failures into episodes.
+ */
+export function findFailureEpisodes(metrics: RawMetrics): FailureEpisode[] {
+  const steps = metrics.allToolCalls.length > 0
+    ? metrics.allToolCalls.map(toStep)
+    : metrics.commandsExecuted.map((command, index): Step => ({
+        index,
+        tool: 'command',
+        kind: 'command',
+        target: command.command,
+        error: command.exitCode !== 0 ? `Exit code ${command.exitCode}: ${command.output.slice(0, 200)}` : undefined,
+        timestamp: command.timestamp
+      }));
+
+  const episodes: FailureEpisode[] = [];
+  const open = new Map<string, { episode: FailureEpisode; firstStep: number }>();
+
+  steps.forEach((step, position) => {
+    if (step.error) {
+      const key = `${step.kind}:${goalOf(step)}`;
+      const existing = open.get(key);
+      if (existing) {
+        existing.episode.attempts++;
+        existing.episode.failedCalls.push(step.index);
+        return;
+      }
+
+      const episode: FailureEpisode = {
+        kind: step.kind,
+        tool: step.tool,
+        target: step.target,
+        category: categorize(step),
+        error: step.error,
+        failedAt: step.timestamp,
+        attempts: 1,
+        injected: !!step.injected,
+        recovered: false,
+        failedCalls: [step.index]
+      };
+      episodes.push(episode);
+      open.set(key, { episode, firstStep: position });
+      return;
+    }
+
+    for (const [key, { episode, firstStep }] of open) {
+      if (!reachesGoal(episode, step)) continue;
+      episode.recovered = true;
+      episode.stepsToRecover = position - firstStep;
+      if (episode.failedAt !== undefined && step.timestamp !== undefined) {
+        episode.recoveryMs = step.timestamp - episode.failedAt;
+      }
+      open.delete(key);
+    }
+  });
+
+  return episodes;
+}
+
+/**
+ * Sets `recovered` on the tool errors belonging to recovered episodes and
+ * counts retries (calls made after a failure at the same goal).
+ */
+export function applyRecovery(metrics: RawMetrics, episodes: FailureEpisode[]): void {
+  const claimed = new Set<number>();
+
+  episodes.forEach(episode => {
+    episode.failedCalls.forEach(index => {
+      const call: ToolCall | undefined = metrics.allToolCalls[index];
+      if (!call?.error) return;
+      const message = `${call.toolName}: ${call.error}`;
+      const errorIndex = metrics.errorsEncountered.findIndex((error, i) =>
+        !claimed.has(i) && (error.type === 'tool_error' || error.type === 'injected_fault') && error.message === message
+      );
+      if (errorIndex === -1) return;
+      claimed.add(errorIndex);
+      metrics.errorsEncountered[errorIndex].recovered = episode.recovered;
+    });
+  });
+
+  metrics.retryAttempts = episodes.reduce(
+    (sum, episode) => sum + episode.attempts - 1 + (episode.recovered ? 1 : 0),
+    0
+  );
+}
+
+function toStep(call: ToolCall, index: number): Step {
+  const input = call.parameters || {};
+  const kind: StepKind = FILE_TOOLS[call.toolName] || (COMMAND_TOOLS.has(call.toolName) ? 'command' : 'other');
+
+  let target: string;
+  if (kind === 'command') {
+    target = String(input.command ?? '');
+  } else if (kind === 'other') {
+    target = JSON.stringify(input);
+  } else {
+    target = path.normalize(String(input.file_path ?? input.path ?? input.notebook_path ?? ''));
+  }
+
+  return {
+    index,
+    tool: call.toolName,
+    kind,
+    target,
+    error: failureOf(call),
+    injected: call.injectedFault !== undefined,
+    timestamp: call.startedAt
+  };
+}
+
+// Tools report failure in several ways: a thrown error, an error field, or a non-zero exit code
+function failureOf(call: ToolCall): string | undefined {
+  if (call.error) return call.error;
+
+  const result = call.result;
+  if (result && typeof result === 'object') {
+    if (typeof result.error === 'string') return result.error;
+    if (result.success === false) return String(result.message ?? 'Failed');
+    if (typeof result.exitCode === 'number' && result.exitCode !== 0) {
+      return `Exit code ${result.exitCode}: ${String(result.output ?? '').slice(0, 200)}`;
+    }
+  }
+
+  return undefined;
+}
+
+function categorize(step: Step): FailureCategory {
+  const error = step.error || '';
+  if (/old (content|string)[^.]*not found|string to replace not found|no match(es)? found/i.test(error)) return 'edit-mismatch';
+  if (/no such file|file not found|does not exist|ENOENT/i.test(error)) return 'file-not-found';
+  if (step.kind === 'command' || /exit code/i.test(error)) return 'non-zero-exit';
+  return 'tool-error';
+}
+
+// What counts as "the same thing again": the file path, the tool and
+// parameters, or the command's program plus its first argument
+function goalOf(step: { kind: StepKind; tool: string; target: string }): string {
+  if (step.kind === 'command') {
+    const words = step.target.trim().split(/\s+/).filter(word => !/^\w+=/.test(word));
+    const argument = words.slice(1).find(word => !word.startsWith('-'));
+    return [words[0], argument].filter(Boolean).join(' ');
+  }
+  if (step.kind === 'other') {
+    return `${step.tool} ${step.target}`;
+  }
+  return step.target;
+}
+
+function reachesGoal(episode: FailureEpisode, step: Step): boolean {
+  switch (episode.kind) {
+    case 'read':
+      // Reading, creating or editing the missing file all resolve it
+      return (step.kind === 'read' || step.kind === 'write' || step.kind === 'edit') && step.target === episode.target;
+    case 'write':
+    case 'edit':
+      return (step.kind === 'write' || step.kind === 'edit') && step.target === episode.target;
+    default:
+      return step.kind === episode.kind && goalOf(step) === goalOf(episode);
+  }
+}
@@ -0,0 +1,219 @@
+export interface DescriptiveStats {
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Sample standard deviation (n - 1); zero when there is fewer than two values
+export function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - m) * (v - m), 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+export function describe(values: number[]): DescriptiveStats {
+  return {
+    mean: mean(values),
+    stdDev: stdDev(values),
+    min: values.length > 0 ? Math.min(...values) : 0,
+    max: values.length > 0 ? Math.max(...values) : 0,
+    count: values.length
+  };
+}
+
+/**
+ * Unbiased pass@k estimator: the probability that at least one of k samples
+ * drawn without replacement from n trials (c of which passed) passes.
+ */
+export function passAtK(n: number, c: number, k: number): number {
+  if (n === 0 || k <= 0) return 0;
+  if (k > n) k = n;
+  if (n - c < k) return 1;
+
+  // 1 - C(n-c, k) / C(n, k), computed as a running product to avoid overflow
+  let failProbability = 1;
+  for (let i = n - c + 1; i <= n; i++) {
+    failProbability *= 1 - k / i;
+  }
+  return 1 - failProbability;
+}
+
+export type ComparisonVerdict = 'significant' | 'inconclusive' | 'regression';
+
+export interface PairedComparison {
+  n: number;                      // Number of paired tests
+  baselineMean: number;
+  candidateMean: number;
+  meanDelta: number;              // candidate - baseline
+  confidenceInterval: [number, number];
+  pValue: number;
+  verdict: ComparisonVerdict;
+}
+
+export interface PairedComparisonOptions {
+  higherIsBetter?: boolean;
+  confidence?: number;            // e.g. 0.95
+  alpha?: number;                 // significance level for the paired test
+  iterations?: number;            // bootstrap resamples / permutations
+  seed?: number;
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so bootstrap intervals and permutation
+ * p-values are reproducible between invocations.
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Observations of one test (the pairing unit) under both configurations
+export interface PairedGroup {
+  baseline: number[];
+  candidate: number[];
+}
+
+// Mean over groups of the per-group difference in means
+export function groupedMeanDelta(groups: PairedGroup[]): number {
+  return mean(groups.map(g => mean(g.candidate) - mean(g.baseline)));
+}
+
+/**
+ * Stratified percentile bootstrap interval for groupedMeanDelta: groups are
+ * resampled, and trials are resampled within each side of each group.
+ */
+export function bootstrapDeltaCI(
+  groups: PairedGroup[],
+  confidence: number = 0.95,
+  iterations: number = 10000,
+  random: () => number = seededRandom(1)
+): [number, number] {
+  if (groups.length === 0) return [0, 0];
+
+  const resample = (values: number[]) => {
+    let sum = 0;
+    for (let j = 0; j < values.length; j++) {
+      sum += values[Math.floor(random() * values.length)];
+    }
+    return sum / values.length;
+  };
+
+  const deltas: number[] = new Array(iterations);
+  for (let i = 0; i < iterations; i++) {
+    let sum = 0;
+    for (let j = 0; j < groups.length; j++) {
+      const group = groups[Math.floor(random() * groups.length)];
+      sum += resample(group.candidate) - resample(group.baseline);
+    }
+    deltas[i] = sum / groups.length;
+  }
+  deltas.sort((a, b) => a - b);
+
+  const tail = (1 - confidence) / 2;
+  const lower = deltas[Math.floor(tail * (iterations - 1))];
+  const upper = deltas[Math.ceil((1 - tail) * (iterations - 1))];
+  return [lower, upper];
+}
+
+/**
+ * Two-sided stratified permutation test. Under the null hypothesis the
+ * configuration label carries no information within a test, so labels are
+ * shuffled among that test's pooled trials. With one trial per side this is
+ * the classic paired sign-flip test.
+ */
+export function pairedPermutationTest(
+  groups: PairedGroup[],
+  iterations: number = 10000,
+  random: () => number = seededRandom(2)
+): number {
+  if (groups.length === 0) return 1;
+
+  const observed = Math.abs(groupedMeanDelta(groups));
+  if (observed === 0) return 1;
+
+  // Tolerance keeps floating point noise from deciding ties
+  const isAsExtreme = (delta: number) => Math.abs(delta) >= observed - 1e-9;
+
+  const pooled = groups.map(g => ({
+    values: [...g.baseline, ...g.candidate],
+    baselineCount: g.baseline.length
+  }));
+
+  let extreme = 0;
+  for (let i = 0; i < iterations; i++) {
+    let sum = 0;
+    for (const { values, baselineCount } of pooled) {
+      // Partial Fisher-Yates: only the baseline slots need to be drawn
+      const shuffled = [...values];
+      for (let j = 0; j < baselineCount; j++) {
+        const k = j + Math.floor(random() * (shuffled.length - j));
+        [shuffled[j], shuffled[k]] = [shuffled[k], shuffled[j]];
+      }
+      sum += mean(shuffled.slice(baselineCount)) - mean(shuffled.slice(0, baselineCount));
+    }
+    if (isAsExtreme(sum / pooled.length)) extreme++;
+  }
+  // +1 correction so a Monte Carlo p-value is never exactly zero
+  return (extreme + 1) / (iterations + 1);
+}
+
+/**
+ * Compares two configurations over the tests they share. A difference is
+ * only called significant or a regression when the permutation test rejects
+ * the null at `alpha`; the bootstrap interval describes the size of the effect.
+ */
+export function comparePaired(
+  groups: PairedGroup[],
+  options: PairedComparisonOptions = {}
+): PairedComparison {
+  const usable = groups.filter(g => g.baseline.length > 0 && g.candidate.length > 0);
+
+  const {
+    higherIsBetter = true,
+    confidence = 0.95,
+    alpha = 0.05,
+    iterations = 10000,
+    seed = 42
+  } = options;
+
+  const meanDelta = groupedMeanDelta(usable);
+  const confidenceInterval = bootstrapDeltaCI(usable, confidence, iterations, seededRandom(seed));
+  const pValue = pairedPermutationTest(usable, iterations, seededRandom(seed + 1));
+
+  let verdict: ComparisonVerdict = 'inconclusive';
+  if (pValue < alpha && meanDelta !== 0) {
+    const improved = higherIsBetter ? meanDelta > 0 : meanDelta < 0;
+    verdict = improved ? 'significant' : 'regression';
+  }
+
+  return {
+    n: usable.length,
+    baselineMean: mean(usable.map(g => mean(g.baseline))),
+    candidateMean: mean(usable.map(g => mean(g.candidate))),
+    meanDelta,
+    confidenceInterval,
+    pValue,
+    verdict
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { loadSuiteFile, hashTests } from './suite-loader';
+
+const SUITE = `id: with-fixtures
+version: 1.0.0
+name: With fixtures
+tests:
+  - id: fix-service
+    prompt: Fix the service
+    category: debugging
+    fixtures:
+      path: fixtures/service
+`;
+
+describe('suite fixtures', () => {
+  let dir: string;
+  const cwd = process.cwd();
+
+  before(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'claude-test-suite-')));
+    await fs.mkdir(path.join(dir, 'suites', 'fixtures', 'service'), { recursive: true });
+    await fs.writeFile(path.join(dir, 'suites', 'suite.yaml'), SUITE);
+  });
+
+  after(async () => {
+    process.chdir(cwd);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores the fixture path absolute, whichever directory the suite is added from', () => {
+    process.chdir(dir);
+    const fromRoot = loadSuiteFile(path.join('suites', 'suite.yaml'));
+    process.chdir(path.join(dir, 'suites'));
+    const fromSuites = loadSuiteFile('suite.yaml');
+    process.chdir(cwd);
+
+    assert.deepEqual(fromRoot.errors, []);
+    assert.equal(fromRoot.suite!.tests[0].fixtures!.path, path.join(dir, 'suites', 'fixtures', 'service'));
+    assert.equal(hashTests(fromRoot.suite!.tests), hashTests(fromSuites.suite!.tests));
+  });
+});
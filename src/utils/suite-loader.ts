@@ -0,0 +1,420 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { parseDocument, LineCounter, Document } from 'yaml';
+import { TestSuite, Test, MetricScores } from '../types';
+import { SCORE_METRICS } from './comparison';
+
+export const SUITE_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+export interface SuiteValidationError {
+  path: string;       // e.g. "tests[2].timeout"
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface LoadedSuite {
+  filePath: string;
+  suite?: TestSuite;
+  errors: SuiteValidationError[];
+}
+
+export function formatValidationError(error: SuiteValidationError): string {
+  const location = error.line ? `line ${error.line}${error.column ? `:${error.column}` : ''}` : 'file';
+  return `${location}: ${error.path ? `${error.path}: ` : ''}${error.message}`;
+}
+
+const SUITE_KEYS = ['id', 'version', 'name', 'description', 'tests'];
+const TEST_KEYS = ['id', 'prompt', 'category', 'expectedBehavior', 'evaluationCriteria', 'timeout', 'fixtures', 'assertions', 'faults'];
+const FIXTURE_KEYS = ['path', 'files'];
+const FAULT_KEYS = ['tool', 'path', 'command', 'occurrence', 'times', 'effect', 'message', 'exitCode', 'stderr', 'truncateTo'];
+const FAULT_TOOLS = ['file_read', 'file_write', 'file_edit', 'bash_execute', 'list_directory'];
+const FAULT_EFFECTS = ['error', 'exit-code', 'truncate'];
+const ASSERTION_KEYS: Record<string, string[]> = {
+  'file-exists': ['type', 'path', 'description'],
+  'file-contains': ['type', 'path', 'contains', 'matches', 'flags', 'description'],
+  'command': ['type', 'command', 'exitCode', 'timeout', 'description'],
+  'json-path': ['type', 'path', 'query', 'equals', 'description']
+};
+const ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+type PathSegment = string | number;
+
+/**
+ * Validates parsed suite content against the TestSuite schema. Every error
+ * carries the line of the offending node in the source file.
+ */
+class SuiteValidator {
+  readonly errors: SuiteValidationError[] = [];
+
+  constructor(
+    private readonly doc: Document.Parsed,
+    private readonly lineCounter: LineCounter,
+    private readonly baseDir: string
+  ) {}
+
+  validate(value: any): TestSuite | undefined {
+    if (!this.isObject(value)) {
+      this.error([], 'Suite must be a mapping with id, version, name and tests');
+      return undefined;
+    }
+
+    this.checkUnknownKeys(value, [], SUITE_KEYS);
+    this.requireString(value, [], 'id', ID_PATTERN);
+    this.requireString(value, [], 'version');
+    this.requireString(value, [], 'name');
+    this.optionalString(value, [], 'description');
+
+    if (!Array.isArray(value.tests)) {
+      this.error(['tests'], value.tests === undefined ? 'Missing required field' : 'Must be a list of tests');
+    } else if (value.tests.length === 0) {
+      this.error(['tests'], 'Suite must contain at least one test');
+    } else {
+      const seenIds = new Map<string, number>();
+      value.tests.forEach((test: any, index: number) => {
+        this.validateTest(test, ['tests', index]);
+        if (this.isObject(test) && typeof test.id === 'string') {
+          if (seenIds.has(test.id)) {
+            this.error(['tests', index, 'id'], `Duplicate test id "${test.id}" (first used by tests[${seenIds.get(test.id)}])`);
+          } else {
+            seenIds.set(test.id, index);
+          }
+        }
+      });
+    }
+
+    if (this.errors.length > 0) return undefined;
+
+    return {
+      id: value.id,
+      version: String(value.version),
+      name: value.name,
+      description: value.description,
+      tests: value.tests as Test[]
+    };
+  }
+
+  private validateTest(test: any, at: PathSegment[]) {
+    if (!this.isObject(test)) {
+      this.error(at, 'Test must be a mapping');
+      return;
+    }
+
+    this.checkUnknownKeys(test, at, TEST_KEYS);
+    this.requireString(test, at, 'id', ID_PATTERN);
+    this.requireString(test, at, 'prompt');
+    this.requireString(test, at, 'category');
+    this.optionalString(test, at, 'expectedBehavior');
+
+    if (test.evaluationCriteria !== undefined) {
+      if (!this.isObject(test.evaluationCriteria)) {
+        this.error([...at, 'evaluationCriteria'], 'Must be a mapping of metric name to rubric text');
+      } else {
+        Object.entries(test.evaluationCriteria).forEach(([metric, rubric]) => {
+          if (!SCORE_METRICS.includes(metric as keyof MetricScores)) {
+            this.error([...at, 'evaluationCriteria', metric], `Unknown metric (expected one of: ${SCORE_METRICS.join(', ')})`);
+          } else if (typeof rubric !== 'string') {
+            this.error([...at, 'evaluationCriteria', metric], 'Rubric must be a string');
+          }
+        });
+      }
+    }
+
+    if (test.timeout !== undefined &&
+        (typeof test.timeout !== 'number' || !Number.isInteger(test.timeout) || test.timeout <= 0)) {
+      this.error([...at, 'timeout'], 'Must be a positive integer (milliseconds)');
+    }
+
+    if (test.fixtures !== undefined) {
+      this.validateFixtures(test, [...at, 'fixtures']);
+    }
+
+    if (test.assertions !== undefined) {
+      if (!Array.isArray(test.assertions)) {
+        this.error([...at, 'assertions'], 'Must be a list of assertions');
+      } else {
+        test.assertions.forEach((assertion: any, index: number) =>
+          this.validateAssertion(assertion, [...at, 'assertions', index]));
+      }
+    }
+
+    if (test.faults !== undefined) {
+      if (!Array.isArray(test.faults)) {
+        this.error([...at, 'faults'], 'Must be a list of faults');
+      } else {
+        test.faults.forEach((fault: any, index: number) =>
+          this.validateFault(fault, [...at, 'faults', index]));
+      }
+    }
+  }
+
+  private validateFault(fault: any, at: PathSegment[]) {
+    if (!this.isObject(fault)) {
+      this.error(at, 'Fault must be a mapping');
+      return;
+    }
+
+    this.checkUnknownKeys(fault, at, FAULT_KEYS);
+    if (!FAULT_TOOLS.includes(fault.tool)) {
+      this.error([...at, 'tool'], `Must be one of: ${FAULT_TOOLS.join(', ')}`);
+    }
+    if (!FAULT_EFFECTS.includes(fault.effect)) {
+      this.error([...at, 'effect'], `Must be one of: ${FAULT_EFFECTS.join(', ')}`);
+    }
+    this.optionalString(fault, at, 'path');
+    this.optionalString(fault, at, 'command');
+    this.optionalString(fault, at, 'message');
+    this.optionalString(fault, at, 'stderr');
+
+    if (fault.effect === 'exit-code' && fault.tool !== 'bash_execute') {
+      this.error([...at, 'effect'], '`exit-code` only applies to bash_execute');
+    }
+    if (fault.effect === 'truncate' && fault.tool !== 'file_read') {
+      this.error([...at, 'effect'], '`truncate` only applies to file_read');
+    }
+    if (fault.command !== undefined && fault.tool !== 'bash_execute') {
+      this.error([...at, 'command'], 'Only bash_execute faults match on `command`');
+    }
+    if (fault.path !== undefined && fault.tool === 'bash_execute') {
+      this.error([...at, 'path'], 'bash_execute faults match on `command`, not `path`');
+    }
+
+    ['occurrence', 'times'].forEach(key => {
+      if (fault[key] !== undefined && (!Number.isInteger(fault[key]) || fault[key] <= 0)) {
+        this.error([...at, key], 'Must be a positive integer');
+      }
+    });
+    if (fault.truncateTo !== undefined && (!Number.isInteger(fault.truncateTo) || fault.truncateTo < 0)) {
+      this.error([...at, 'truncateTo'], 'Must be a non-negative integer (characters)');
+    }
+    if (fault.exitCode !== undefined && !Number.isInteger(fault.exitCode)) {
+      this.error([...at, 'exitCode'], 'Must be an integer');
+    }
+  }
+
+  private validateAssertion(assertion: any, at: PathSegment[]) {
+    if (!this.isObject(assertion)) {
+      this.error(at, 'Assertion must be a mapping');
+      return;
+    }
+
+    const allowed = ASSERTION_KEYS[assertion.type];
+    if (!allowed) {
+      this.error([...at, 'type'], `Must be one of: ${Object.keys(ASSERTION_KEYS).join(', ')}`);
+      return;
+    }
+
+    this.checkUnknownKeys(assertion, at, allowed);
+    this.optionalString(assertion, at, 'description');
+
+    switch (assertion.type) {
+      case 'file-exists':
+        this.requireString(assertion, at, 'path');
+        break;
+      case 'file-contains':
+        this.requireString(assertion, at, 'path');
+        this.optionalString(assertion, at, 'contains');
+        this.optionalString(assertion, at, 'flags');
+        if ((assertion.contains === undefined) === (assertion.matches === undefined)) {
+          this.error(at, 'Set exactly one of `contains` or `matches`');
+        } else if (assertion.matches !== undefined) {
+          try {
+            new RegExp(assertion.matches, assertion.flags);
+          } catch (error) {
+            this.error([...at, 'matches'], error instanceof Error ? error.message : String(error));
+          }
+        }
+        break;
+      case 'command':
+        this.requireString(assertion, at, 'command');
+        if (assertion.exitCode !== undefined && !Number.isInteger(assertion.exitCode)) {
+          this.error([...at, 'exitCode'], 'Must be an integer');
+        }
+        if (assertion.timeout !== undefined && (!Number.isInteger(assertion.timeout) || assertion.timeout <= 0)) {
+          this.error([...at, 'timeout'], 'Must be a positive integer (milliseconds)');
+        }
+        break;
+      case 'json-path':
+        this.requireString(assertion, at, 'path');
+        this.requireString(assertion, at, 'query');
+        break;
+    }
+  }
+
+  private validateFixtures(test: any, at: PathSegment[]) {
+    const fixtures = test.fixtures;
+    if (!this.isObject(fixtures)) {
+      this.error(at, 'Must be a mapping with `path` and/or `files`');
+      return;
+    }
+
+    this.checkUnknownKeys(fixtures, at, FIXTURE_KEYS);
+    if (fixtures.path === undefined && fixtures.files === undefined) {
+      this.error(at, 'Must set `path` (directory or tarball) and/or `files` (inline file map)');
+    }
+
+    if (fixtures.path !== undefined) {
+      if (typeof fixtures.path !== 'string' || fixtures.path.trim() === '') {
+        this.error([...at, 'path'], 'Must be a non-empty string');
+      } else {
+        // Fixture paths are written relative to the suite file; stored
+        // absolute, so the suite runs (and hashes the same) from any directory
+        const resolved = path.resolve(this.baseDir, fixtures.path);
+        if (!fs.existsSync(resolved)) {
+          this.error([...at, 'path'], `Fixture not found: ${resolved}`);
+        } else {
+          fixtures.path = resolved;
+        }
+      }
+    }
+
+    if (fixtures.files !== undefined) {
+      if (!this.isObject(fixtures.files)) {
+        this.error([...at, 'files'], 'Must be a mapping of workspace-relative path to file content');
+        return;
+      }
+      Object.entries(fixtures.files).forEach(([filePath, content]) => {
+        if (typeof content !== 'string') {
+          this.error([...at, 'files', filePath], 'File content must be a string');
+        }
+        if (path.isAbsolute(filePath) || path.normalize(filePath).split(path.sep).includes('..')) {
+          this.error([...at, 'files', filePath], 'Path must be relative and stay inside the workspace');
+        }
+      });
+    }
+  }
+
+  private requireString(obj: any, at: PathSegment[], key: string, pattern?: RegExp) {
+    const value = obj[key];
+    if (value === undefined || value === null) {
+      this.error([...at, key], 'Missing required field');
+    } else if (typeof value !== 'string' && !(key === 'version' && typeof value === 'number')) {
+      this.error([...at, key], `Must be a string, got ${typeof value}`);
+    } else if (typeof value === 'string' && value.trim() === '') {
+      this.error([...at, key], 'Must not be empty');
+    } else if (pattern && !pattern.test(String(value))) {
+      this.error([...at, key], `"${value}" must match ${pattern}`);
+    }
+  }
+
+  private optionalString(obj: any, at: PathSegment[], key: string) {
+    if (obj[key] !== undefined && typeof obj[key] !== 'string') {
+      this.error([...at, key], `Must be a string, got ${typeof obj[key]}`);
+    }
+  }
+
+  private checkUnknownKeys(obj: any, at: PathSegment[], allowed: string[]) {
+    Object.keys(obj).forEach(key => {
+      if (!allowed.includes(key)) {
+        this.error([...at, key], `Unknown field (expected one of: ${allowed.join(', ')})`);
+      }
+    });
+  }
+
+  private error(at: PathSegment[], message: string) {
+    const position = this.locate(at);
+    this.errors.push({
+      path: formatPath(at),
+      message,
+      line: position?.line,
+      column: position?.col
+    });
+  }
+
+  // Position of the deepest node along `at` that exists in the document
+  private locate(at: PathSegment[]): { line: number; col: number } | undefined {
+    for (let depth = at.length; depth >= 0; depth--) {
+      const node: any = depth === 0 ? this.doc.contents : this.doc.getIn(at.slice(0, depth), true);
+      if (node && Array.isArray(node.range)) {
+        return this.lineCounter.linePos(node.range[0]);
+      }
+    }
+    return undefined;
+  }
+
+  private isObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+}
+
+function formatPath(at: PathSegment[]): string {
+  return at.reduce<string>((acc, segment) =>
+    typeof segment === 'number' ? `${acc}[${segment}]` : acc ? `${acc}.${segment}` : segment, '');
+}
+
+// YAML is a superset of JSON, so one parser gives line numbers for both formats
+export function parseSuiteSource(source: string, filePath: string = '<inline>'): LoadedSuite {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter, prettyErrors: false });
+
+  if (doc.errors.length > 0) {
+    return {
+      filePath,
+      errors: doc.errors.map(err => {
+        const position = lineCounter.linePos(err.pos[0]);
+        return { path: '', message: err.message.split('\n')[0], line: position.line, column: position.col };
+      })
+    };
+  }
+
+  const validator = new SuiteValidator(doc, lineCounter, path.dirname(filePath));
+  const suite = validator.validate(doc.toJS());
+  const errors = [...validator.errors].sort((a, b) => (a.line || 0) - (b.line || 0));
+  return { filePath, suite, errors };
+}
+
+export function loadSuiteFile(filePath: string): LoadedSuite {
+  const source = fs.readFileSync(filePath, 'utf-8');
+  return parseSuiteSource(source, filePath);
+}
+
+export function listSuiteFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(name => SUITE_FILE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    .sort()
+    .map(name => path.join(dir, name));
+}
+
+// Accepts a path, or a bare suite name looked up in the suites directory
+export function resolveSuiteFile(nameOrPath: string, dir: string): string | null {
+  if (fs.existsSync(nameOrPath) && fs.statSync(nameOrPath).isFile()) {
+    return nameOrPath;
+  }
+  for (const ext of SUITE_FILE_EXTENSIONS) {
+    const candidate = path.join(dir, `${nameOrPath}${ext}`);
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Content hash of a suite's test list. Key order is normalized so reformatting
+ * a file does not count as a change.
+ */
+export function hashTests(tests: Test[]): string {
+  return crypto.createHash('sha256').update(stableStringify(tests)).digest('hex');
+}
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Next patch version, e.g. 1.2.3 -> 1.2.4; non-semver versions get a ".1" suffix
+export function bumpVersion(version: string): string {
+  const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(version);
+  if (match) {
+    return `${match[1]}.${match[2]}.${parseInt(match[3], 10) + 1}`;
+  }
+  return `${version}.1`;
+}
@@ -1,19 +1,29 @@
-import { VirtualFile, FileOperation } from '../types';
+import { VirtualFile, VirtualDirectory, VirtualFileStat, GrepMatch, FileOperation } from '../types';
 import * as path from 'path';
 
+const DEFAULT_MAX_GREP_MATCHES = 200;
+
 export class VirtualFileSystem {
   private files: Map<string, VirtualFile> = new Map();
+  private directories: Map<string, VirtualDirectory> = new Map();
   private operations: FileOperation[] = [];
   private workingDirectory: string = '/workspace';
 
   constructor(private readonly rootPath: string = '/workspace') {
     this.workingDirectory = rootPath;
+    this.ensureDirectory(rootPath, Date.now());
   }
 
-  async write(filePath: string, content: string): Promise<{ success: boolean; bytesWritten: number }> {
+  async write(filePath: string, content: string): Promise<{ success: boolean; bytesWritten: number; message?: string }> {
     const normalizedPath = this.normalizePath(filePath);
     const timestamp = Date.now();
-    
+
+    const blocked = this.checkFileTarget(normalizedPath);
+    if (blocked) {
+      this.operations.push({ type: 'write', path: normalizedPath, timestamp, success: false });
+      return { success: false, bytesWritten: 0, message: blocked };
+    }
+
     const file: VirtualFile = {
       path: normalizedPath,
       content,
@@ -21,9 +31,10 @@ export class VirtualFileSystem {
       modifiedAt: timestamp,
       permissions: 'rw-r--r--'
     };
-    
+
+    this.ensureDirectory(path.posix.dirname(normalizedPath), timestamp);
     this.files.set(normalizedPath, file);
-    
+
     this.operations.push({
       type: 'write',
       path: normalizedPath,
@@ -31,40 +42,59 @@ export class VirtualFileSystem {
       timestamp,
       success: true
     });
-    
+
     return { success: true, bytesWritten: content.length };
   }
 
+  // Places a file that existed before the session started, without recording an operation
+  seed(filePath: string, content: string): void {
+    const normalizedPath = this.normalizePath(filePath);
+    const timestamp = Date.now();
+    this.ensureDirectory(path.posix.dirname(normalizedPath), timestamp);
+    this.files.set(normalizedPath, {
+      path: normalizedPath,
+      content,
+      createdAt: timestamp,
+      modifiedAt: timestamp,
+      permissions: 'rw-r--r--'
+    });
+  }
+
+  // Drops a file that was deleted outside the VFS, without recording an operation
+  discard(filePath: string): void {
+    this.files.delete(this.normalizePath(filePath));
+  }
+
   async read(filePath: string): Promise<string | null> {
     const normalizedPath = this.normalizePath(filePath);
     const file = this.files.get(normalizedPath);
-    
+
     this.operations.push({
       type: 'read',
       path: normalizedPath,
       timestamp: Date.now(),
       success: !!file
     });
-    
+
     return file ? file.content : null;
   }
 
   async edit(filePath: string, oldContent: string, newContent: string): Promise<{ success: boolean; message: string }> {
     const normalizedPath = this.normalizePath(filePath);
     const file = this.files.get(normalizedPath);
-    
+
     if (!file) {
       return { success: false, message: 'File not found' };
     }
-    
+
     if (!file.content.includes(oldContent)) {
       return { success: false, message: 'Old content not found in file' };
     }
-    
+
     const updatedContent = file.content.replace(oldContent, newContent);
     file.content = updatedContent;
     file.modifiedAt = Date.now();
-    
+
     this.operations.push({
       type: 'edit',
       path: normalizedPath,
@@ -72,63 +102,224 @@ export class VirtualFileSystem {
       timestamp: Date.now(),
       success: true
     });
-    
+
     return { success: true, message: 'File edited successfully' };
   }
 
+  // Removes a file, or a directory once it is empty
   async delete(filePath: string): Promise<{ success: boolean }> {
     const normalizedPath = this.normalizePath(filePath);
-    const success = this.files.delete(normalizedPath);
-    
+    const success = this.files.delete(normalizedPath) ||
+      (normalizedPath !== this.rootPath &&
+        this.directories.has(normalizedPath) &&
+        this.children(normalizedPath).length === 0 &&
+        this.directories.delete(normalizedPath));
+
     this.operations.push({
       type: 'delete',
       path: normalizedPath,
       timestamp: Date.now(),
       success
     });
-    
+
     return { success };
   }
 
   async exists(filePath: string): Promise<boolean> {
     const normalizedPath = this.normalizePath(filePath);
-    return this.files.has(normalizedPath);
+    return this.files.has(normalizedPath) || this.directories.has(normalizedPath);
   }
 
+  async isDirectory(filePath: string): Promise<boolean> {
+    return this.directories.has(this.normalizePath(filePath));
+  }
+
+  // Names of the entries directly inside a directory, sorted
   async listDirectory(dirPath: string): Promise<string[]> {
     const normalizedDir = this.normalizePath(dirPath);
-    const entries: Set<string> = new Set();
-    
-    for (const [filePath] of this.files) {
-      if (filePath.startsWith(normalizedDir)) {
-        const relativePath = filePath.slice(normalizedDir.length + 1);
-        const parts = relativePath.split('/');
-        if (parts[0]) {
-          entries.add(parts[0]);
+    if (!this.directories.has(normalizedDir)) {
+      throw new Error(`No such directory: ${dirPath}`);
+    }
+
+    return this.children(normalizedDir).map(child => path.posix.basename(child)).sort();
+  }
+
+  async mkdir(dirPath: string, options: { recursive?: boolean } = {}): Promise<{ success: boolean; message: string }> {
+    const normalizedDir = this.normalizePath(dirPath);
+    const timestamp = Date.now();
+
+    const result = ((): { success: boolean; message: string } => {
+      if (this.directories.has(normalizedDir)) {
+        return options.recursive
+          ? { success: true, message: 'Directory already exists' }
+          : { success: false, message: 'Directory already exists' };
+      }
+      const blocked = this.checkFileTarget(normalizedDir);
+      if (blocked) return { success: false, message: blocked };
+      if (!options.recursive && !this.directories.has(path.posix.dirname(normalizedDir))) {
+        return { success: false, message: 'Parent directory does not exist' };
+      }
+
+      this.ensureDirectory(normalizedDir, timestamp);
+      return { success: true, message: 'Directory created' };
+    })();
+
+    this.operations.push({ type: 'mkdir', path: normalizedDir, timestamp, success: result.success });
+    return result;
+  }
+
+  // Moves a file or directory; a destination that is an existing directory receives it
+  async rename(fromPath: string, toPath: string): Promise<{ success: boolean; message: string }> {
+    return this.transfer('rename', fromPath, toPath);
+  }
+
+  // Copies a file, or a directory with everything in it
+  async copy(fromPath: string, toPath: string): Promise<{ success: boolean; message: string }> {
+    return this.transfer('copy', fromPath, toPath);
+  }
+
+  async stat(filePath: string): Promise<VirtualFileStat | null> {
+    const normalizedPath = this.normalizePath(filePath);
+    const file = this.files.get(normalizedPath);
+    const directory = this.directories.get(normalizedPath);
+
+    this.operations.push({
+      type: 'stat',
+      path: normalizedPath,
+      timestamp: Date.now(),
+      success: !!(file || directory)
+    });
+
+    if (file) {
+      return {
+        path: normalizedPath,
+        type: 'file',
+        size: file.content.length,
+        createdAt: file.createdAt,
+        modifiedAt: file.modifiedAt,
+        permissions: file.permissions
+      };
+    }
+    if (directory) {
+      return {
+        path: normalizedPath,
+        type: 'directory',
+        size: this.children(normalizedPath).length,
+        createdAt: directory.createdAt,
+        modifiedAt: directory.modifiedAt,
+        permissions: 'rwxr-xr-x'
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Files matching a glob, sorted. Relative patterns are resolved against
+   * `cwd` (default: the working directory). Supports `*`, `?`, `**`,
+   * `[...]` and `{a,b}`.
+   */
+  async glob(pattern: string, cwd?: string): Promise<string[]> {
+    const base = this.normalizePath(cwd ?? this.workingDirectory);
+    const matcher = globToRegExp(pattern.startsWith('/') ? pattern : `${base}/${pattern}`);
+    const matches = [...this.files.keys()].filter(filePath => matcher.test(filePath)).sort();
+
+    this.operations.push({
+      type: 'glob',
+      path: base,
+      pattern,
+      timestamp: Date.now(),
+      success: true
+    });
+
+    return matches;
+  }
+
+  /**
+   * Lines matching a regular expression, in path and line order. `path` is
+   * a file or a directory to search under; `glob` narrows the files, by
+   * name when it has no slash and by path relative to `path` otherwise.
+   */
+  async grep(
+    pattern: string,
+    options: { path?: string; glob?: string; ignoreCase?: boolean; maxMatches?: number } = {}
+  ): Promise<{ matches: GrepMatch[]; truncated: boolean }> {
+    const base = this.normalizePath(options.path ?? this.workingDirectory);
+    const operation: FileOperation = { type: 'grep', path: base, pattern, timestamp: Date.now(), success: false };
+    this.operations.push(operation);
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, options.ignoreCase ? 'i' : '');
+    } catch (error) {
+      throw new Error(`Invalid pattern: ${error instanceof Error ? error.message : error}`);
+    }
+
+    let candidates: string[];
+    if (this.files.has(base)) {
+      candidates = [base];
+    } else if (this.directories.has(base)) {
+      candidates = [...this.files.keys()].filter(filePath => isInside(filePath, base));
+    } else {
+      throw new Error(`No such file or directory: ${options.path}`);
+    }
+
+    if (options.glob) {
+      const matcher = globToRegExp(options.glob);
+      candidates = candidates.filter(filePath => matcher.test(
+        options.glob!.includes('/') ? path.posix.relative(base, filePath) : path.posix.basename(filePath)
+      ));
+    }
+
+    const maxMatches = options.maxMatches ?? DEFAULT_MAX_GREP_MATCHES;
+    const matches: GrepMatch[] = [];
+    let truncated = false;
+
+    for (const filePath of candidates.sort()) {
+      const lines = this.files.get(filePath)!.content.split('\n');
+      for (let i = 0; i < lines.length; i++) {
+        if (!regex.test(lines[i])) continue;
+        if (matches.length === maxMatches) {
+          truncated = true;
+          break;
         }
+        matches.push({ path: filePath, line: i + 1, text: lines[i] });
       }
+      if (truncated) break;
     }
-    
-    return Array.from(entries);
+
+    operation.success = true;
+    return { matches, truncated };
   }
 
   getFileOperations(): FileOperation[] {
     return [...this.operations];
   }
 
+  getRootPath(): string {
+    return this.rootPath;
+  }
+
   snapshot(): Map<string, VirtualFile> {
     return new Map(this.files);
   }
 
+  // Every directory, including the ones that only exist because files are in them
+  snapshotDirectories(): string[] {
+    return [...this.directories.keys()].sort();
+  }
+
   reset(): void {
     this.files.clear();
+    this.directories.clear();
     this.operations = [];
     this.workingDirectory = this.rootPath;
+    this.ensureDirectory(this.rootPath, Date.now());
   }
 
   getStats() {
     return {
       totalFiles: this.files.size,
+      totalDirectories: this.directories.size,
       totalOperations: this.operations.length,
       operationsByType: this.operations.reduce((acc, op) => {
         acc[op.type] = (acc[op.type] || 0) + 1;
@@ -138,10 +329,153 @@ export class VirtualFileSystem {
     };
   }
 
-  private normalizePath(filePath: string): string {
+  normalizePath(filePath: string): string {
     if (!filePath.startsWith('/')) {
-      filePath = path.join(this.workingDirectory, filePath);
+      filePath = path.posix.join(this.workingDirectory, filePath);
     }
-    return path.normalize(filePath);
+    const normalized = path.posix.normalize(filePath);
+    return normalized.length > 1 ? normalized.replace(/\/+$/, '') : normalized;
   }
-}
\ No newline at end of file
+
+  private async transfer(
+    type: 'rename' | 'copy',
+    fromPath: string,
+    toPath: string
+  ): Promise<{ success: boolean; message: string }> {
+    const source = this.normalizePath(fromPath);
+    let destination = this.normalizePath(toPath);
+    const timestamp = Date.now();
+    const isDirectory = this.directories.has(source);
+
+    if (this.directories.has(destination) && destination !== source) {
+      destination = path.posix.join(destination, path.posix.basename(source));
+    }
+
+    const result = ((): { success: boolean; message: string } => {
+      if (!this.files.has(source) && !isDirectory) {
+        return { success: false, message: 'No such file or directory' };
+      }
+      if (destination === source) {
+        return type === 'rename'
+          ? { success: true, message: 'Source and destination are the same' }
+          : { success: false, message: 'Source and destination are the same' };
+      }
+      if (isDirectory && source === this.rootPath && type === 'rename') {
+        return { success: false, message: 'Cannot move the workspace root' };
+      }
+      if (isDirectory && isInside(destination, source)) {
+        return { success: false, message: `Cannot ${type === 'rename' ? 'move' : 'copy'} a directory into itself` };
+      }
+      // A file may replace a file; nothing replaces a directory
+      if (this.directories.has(destination) || (isDirectory && this.files.has(destination))) {
+        return { success: false, message: `${destination} already exists` };
+      }
+      const blocked = this.checkFileTarget(destination);
+      if (blocked) return { success: false, message: blocked };
+
+      this.ensureDirectory(path.posix.dirname(destination), timestamp);
+
+      // Directories first, then files, each under its new prefix
+      const movedDirectories = [...this.directories.values()].filter(dir => isInside(dir.path, source));
+      const movedFiles = [...this.files.values()].filter(file => isInside(file.path, source));
+
+      for (const dir of movedDirectories) {
+        const target = destination + dir.path.slice(source.length);
+        if (type === 'rename') this.directories.delete(dir.path);
+        this.directories.set(target, type === 'rename'
+          ? { ...dir, path: target }
+          : { path: target, createdAt: timestamp, modifiedAt: timestamp });
+      }
+      for (const file of movedFiles) {
+        const target = destination + file.path.slice(source.length);
+        if (type === 'rename') this.files.delete(file.path);
+        this.files.set(target, type === 'rename'
+          ? { ...file, path: target }
+          : { ...file, path: target, createdAt: timestamp, modifiedAt: timestamp });
+      }
+
+      return { success: true, message: type === 'rename' ? 'Moved' : 'Copied' };
+    })();
+
+    this.operations.push({
+      type,
+      path: destination,
+      from: source,
+      content: result.success ? this.files.get(destination)?.content : undefined,
+      timestamp,
+      success: result.success
+    });
+
+    return result;
+  }
+
+  // Why a file cannot be placed at this path, if it cannot
+  private checkFileTarget(normalizedPath: string): string | undefined {
+    if (this.directories.has(normalizedPath)) {
+      return `${normalizedPath} is a directory`;
+    }
+    for (let dir = path.posix.dirname(normalizedPath); ; dir = path.posix.dirname(dir)) {
+      if (this.files.has(dir)) return `${dir} is not a directory`;
+      if (dir === '/') return undefined;
+    }
+  }
+
+  // Creates the directory and any missing parents
+  private ensureDirectory(dirPath: string, timestamp: number): void {
+    for (let dir = dirPath; !this.directories.has(dir); dir = path.posix.dirname(dir)) {
+      this.directories.set(dir, { path: dir, createdAt: timestamp, modifiedAt: timestamp });
+      if (dir === '/') break;
+    }
+  }
+
+  private children(dirPath: string): string[] {
+    return [...this.directories.keys(), ...this.files.keys()]
+      .filter(entry => entry !== dirPath && path.posix.dirname(entry) === dirPath);
+  }
+}
+
+function isInside(filePath: string, dirPath: string): boolean {
+  return filePath === dirPath || filePath.startsWith(dirPath === '/' ? '/' : `${dirPath}/`);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more whole directories; a trailing `**` anything below
+        const slash = pattern[i + 2] === '/';
+        source += slash ? '(?:[^/]*/)*' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\\]{}]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}